@@ -1,12 +1,34 @@
 #!/usr/bin/env node
 
 import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { dirname, resolve } from 'path';
 import { SecretsManager } from './lib/SecretsManager.js';
 import { SyncManager } from './lib/SyncManager.js';
-import { program } from '@commander-js/extra-typings';
-import { escapeEnvValue } from './lib/envEscape.js';
-import { select, checkbox, input, confirm } from '@inquirer/prompts';
+import { program, InvalidArgumentError } from '@commander-js/extra-typings';
+import { getOutputFormat, getOutputFormatNames } from './lib/outputFormats.js';
+import { select, checkbox, input, confirm, password } from '@inquirer/prompts';
 import { parseEnvContent, truncateValueForDisplay, generateConfig } from './lib/ImportUtils.js';
+import { runCommand } from './lib/runCommand.js';
+import { convertToExternalSecrets } from './lib/kubernetes.js';
+import { isSecretEntry, SETTINGS_KEYS } from './lib/configEntries.js';
+import { validateConfig } from './lib/validateConfig.js';
+import { runDoctor, formatDoctorTable, hasFailures } from './lib/doctor.js';
+import { resolveTargetComponents, planMigration, runMigration, saveMigratedConfig } from './lib/migrate.js';
+import { mergeDotenv } from './lib/dotenvDocument.js';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, readRetrySettings, resolveRetryPolicy } from './lib/retry.js';
+import { TimeoutSettings, readTimeoutSettings } from './lib/timeouts.js';
+import { EXIT_CODES, DEFAULT_TIMEOUT, SCHEME_SOURCE } from './lib/constants.js';
+import { ProviderPlugin, PLUGINS_KEY, loadConfigPlugins, loadProviderPlugins, parsePluginSettings } from './lib/plugins.js';
+import { assertInteractive, setNonInteractive, InteractionRequiredError } from './lib/interactive.js';
+import { runInContext, stderrLogger } from './lib/context.js';
+import {
+    SecretNotFoundError,
+    AuthenticationError,
+    InvalidPathError,
+    JsonKeyNotFoundError,
+    ProviderUnavailableError,
+    ProviderTimeoutError,
+} from './lib/errors.js';
 
 /**
  * Resolves the input file path with smart fallback logic.
@@ -40,6 +62,21 @@ function resolveInputFile(input: string): string {
     throw new Error(`Configuration file '${input}' not found (tried: ${input} in ${cwd})`);
 }
 
+/**
+ * Resolves the config file of a command that works without one, like `salakala ls`.
+ * Its `$plugins`, `$retry` and `$timeout` settings are used when it exists.
+ * 
+ * @param {string} [input] - The input file path or name given on the command line
+ * @returns {string | undefined} The given file, salakala.json if it exists, or undefined
+ * @throws {Error} If a given file is not found
+ */
+function resolveOptionalInputFile(input?: string): string | undefined {
+    if (input) {
+        return resolveInputFile(input);
+    }
+    return existsSync('salakala.json') ? 'salakala.json' : undefined;
+}
+
 /**
  * Detects available environments from a config file.
  * Returns null for flat configs, or array of environment names for nested configs.
@@ -52,9 +89,11 @@ function detectEnvironments(configPath: string): string[] | null {
         const configContent = readFileSync(configPath, 'utf-8');
         const config = JSON.parse(configContent);
         
-        // Check if this has nested environments (values are objects)
+        // Check if this has nested environments (values are objects that aren't variable entries)
         const environmentKeys = Object.keys(config).filter(key => 
-            typeof config[key] === 'object' && config[key] !== null && !Array.isArray(config[key])
+            !SETTINGS_KEYS.includes(key) &&
+            typeof config[key] === 'object' && config[key] !== null && !Array.isArray(config[key]) &&
+            !isSecretEntry(config[key])
         );
         
         if (environmentKeys.length === 0) { 
@@ -73,60 +112,279 @@ function detectEnvironments(configPath: string): string[] | null {
  * 
  * @param {string[]} environments - Available environments
  * @returns {Promise<string>} Selected environment
+ * @throws {InteractionRequiredError} In non-interactive mode, instead of prompting
  */
 async function promptForEnvironment(environments: string[]): Promise<string> {
+    assertInteractive('select an environment', `Pass one with --env (available: ${environments.join(', ')}).`);
     return await select({
         message: 'Select an environment:',
         choices: environments.map(env => ({ value: env }))
     });
 }
 
+/**
+ * Determines the environment to use for a config file.
+ * Uses the given environment if provided, otherwise prompts when the config
+ * has environments and falls back to 'development' for flat configs.
+ * 
+ * @param {string} configPath - Path to the configuration file
+ * @param {string} [environment] - Environment given on the command line
+ * @returns {Promise<string>} The environment to use
+ */
+async function selectEnvironment(configPath: string, environment?: string): Promise<string> {
+    if (environment) {
+        return environment;
+    }
+
+    const availableEnvironments = detectEnvironments(configPath);
+    if (availableEnvironments && availableEnvironments.length > 0) {
+        // Interactive environment selection
+        return await promptForEnvironment(availableEnvironments);
+    }
+
+    // Flat config, use default
+    return 'development';
+}
+
+/**
+ * Parses a positive integer command line option value.
+ * 
+ * @param {string} value - The raw option value
+ * @returns {number} The parsed integer
+ * @throws {InvalidArgumentError} If the value is not a positive integer
+ */
+function parsePositiveInt(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new InvalidArgumentError('Must be a positive integer.');
+    }
+    return parsed;
+}
+
+/**
+ * Parses a non-negative integer command line option value.
+ * 
+ * @param {string} value - The raw option value
+ * @returns {number} The parsed integer
+ * @throws {InvalidArgumentError} If the value is not a non-negative integer
+ */
+function parseNonNegativeInt(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new InvalidArgumentError('Must be a non-negative integer.');
+    }
+    return parsed;
+}
+
+/**
+ * Parses a --timeout value, either milliseconds for all providers or `<prefix>=<milliseconds>`
+ * for one provider. The option can be repeated, so values are collected into one object.
+ * 
+ * @param {string} value - The raw option value (e.g., '60000' or 'bw://=120000')
+ * @param {TimeoutSettings} [previous] - The timeouts from earlier --timeout options
+ * @returns {TimeoutSettings} The timeouts including this one
+ * @throws {InvalidArgumentError} If the value has neither form
+ */
+function parseTimeoutOption(value: string, previous: TimeoutSettings = {}): TimeoutSettings {
+    const match = value.match(new RegExp(`^(?:(${SCHEME_SOURCE}://)=)?(\\d+)$`));
+    if (!match) {
+        throw new InvalidArgumentError('Must be milliseconds, or a provider prefix and milliseconds (e.g., bw://=120000).');
+    }
+    return { ...previous, [match[1] ?? 'default']: Number(match[2]) };
+}
+
+/**
+ * Retry settings given on the command line, set before each command runs
+ */
+let retryOptions: Partial<RetryPolicy> = {};
+
+/**
+ * Timeouts given on the command line, set before each command runs
+ */
+let timeoutOptions: TimeoutSettings = {};
+
+/**
+ * Provider plugins given on the command line, set before each command runs
+ */
+let pluginOptions: string[] = [];
+
+/**
+ * Creates the SecretsManager for a command. Transient provider failures are retried with
+ * the `$retry` settings of the config file, and provider calls are limited by its `$timeout`
+ * settings, both overridden by the command line options. A --timeout for all providers
+ * replaces every timeout of the config file. The config's `$plugins` and the --plugin
+ * options add providers.
+ * 
+ * @param {string} [configPath] - Path to the configuration file, if the command uses one
+ * @returns {Promise<SecretsManager>} The secrets manager
+ * @throws {Error} If the settings of the config file are invalid or name an unknown provider, or a plugin can't be loaded
+ */
+async function createSecretsManager(configPath?: string): Promise<SecretsManager> {
+    const configRetry = configPath ? readRetrySettings(configPath) : {};
+    const configTimeouts = configPath ? readTimeoutSettings(configPath) : {};
+    return new SecretsManager({
+        retry: resolveRetryPolicy(configRetry, retryOptions),
+        timeouts: timeoutOptions.default === undefined ? { ...configTimeouts, ...timeoutOptions } : timeoutOptions,
+        plugins: await loadConfigPlugins(configPath, pluginOptions),
+    });
+}
+
+/**
+ * Loads the provider plugins of a config file that is being validated, and those of --plugin.
+ * Invalid JSON and an invalid `$plugins` setting are left for validateConfig to report.
+ * 
+ * @param {string} configPath - Path to the configuration file
+ * @param {string} content - The configuration file content
+ * @returns {Promise<ProviderPlugin[]>} The providers of the plugins
+ * @throws {Error} If a plugin can't be loaded
+ */
+async function loadPluginsToValidate(configPath: string, content: string): Promise<ProviderPlugin[]> {
+    let specifiers: string[] = [];
+    try {
+        specifiers = parsePluginSettings(JSON.parse(content)[PLUGINS_KEY] ?? []);
+    } catch {
+        // Reported by validateConfig
+    }
+    return [
+        ...await loadProviderPlugins(specifiers, dirname(resolve(configPath))),
+        ...await loadProviderPlugins(pluginOptions, process.cwd()),
+    ];
+}
+
+/**
+ * Sends console.log and console.info output to stderr.
+ * Used when the generated output is written to stdout, so that progress
+ * messages from salakala and the providers don't end up in the output.
+ */
+function redirectLogsToStderr(): void {
+    console.log = console.error;
+    console.info = console.error;
+}
+
+/**
+ * Reads the value of `salakala set`: from stdin when it is piped, otherwise from a prompt
+ * that doesn't echo what is typed. A trailing newline of piped input is removed.
+ * 
+ * @param {string} uri - The secret URI, shown in the prompt
+ * @returns {Promise<string>} The value
+ * @throws {InteractionRequiredError} If stdin is a terminal in non-interactive mode
+ * @throws {Error} If the value is empty
+ */
+async function readSecretValue(uri: string): Promise<string> {
+    let value: string;
+    if (process.stdin.isTTY) {
+        assertInteractive(`ask for the value of ${uri}`, 'Pipe the value to stdin instead.');
+        value = await password({ message: `Value for ${uri}:` });
+    } else {
+        const chunks: Buffer[] = [];
+        for await (const chunk of process.stdin) {
+            chunks.push(chunk);
+        }
+        value = Buffer.concat(chunks).toString('utf-8').replace(/\r?\n$/, '');
+    }
+    if (value === '') {
+        throw new Error(`No value given for ${uri}`);
+    }
+    return value;
+}
+
+/**
+ * Exit codes of the typed errors
+ */
+const ERROR_EXIT_CODES: [new (...args: any[]) => Error, number][] = [
+    [InteractionRequiredError, EXIT_CODES.INTERACTION_REQUIRED],
+    [SecretNotFoundError, EXIT_CODES.SECRET_NOT_FOUND],
+    [AuthenticationError, EXIT_CODES.AUTHENTICATION],
+    [InvalidPathError, EXIT_CODES.INVALID_PATH],
+    [JsonKeyNotFoundError, EXIT_CODES.JSON_KEY_NOT_FOUND],
+    [ProviderUnavailableError, EXIT_CODES.PROVIDER_UNAVAILABLE],
+    [ProviderTimeoutError, EXIT_CODES.TIMEOUT],
+];
+
+/**
+ * Gets the exit code for an error. Wrapped errors are followed through their causes,
+ * and the outermost typed error decides the exit code.
+ * 
+ * @param {unknown} error - The error that ended the command
+ * @returns {number} The exit code of the first typed error, or EXIT_CODES.ERROR
+ */
+function getExitCode(error: unknown): number {
+    for (let current = error; current instanceof Error; current = current.cause) {
+        const match = ERROR_EXIT_CODES.find(([ErrorClass]) => current instanceof ErrorClass);
+        if (match) {
+            return match[1];
+        }
+    }
+    return EXIT_CODES.ERROR;
+}
+
+/**
+ * Prints an error and exits with the exit code that matches it.
+ * 
+ * @param {unknown} error - The error that ended the command
+ */
+function exitWithError(error: unknown): never {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(getExitCode(error));
+}
+
 const PACKAGE_VERSION = '1.3.4';
 
 program
     .name('salakala')
     .description('Generate .env files from various secret providers')
-    .version(PACKAGE_VERSION);
+    .version(PACKAGE_VERSION)
+    .option('--non-interactive', 'fail instead of prompting (also enabled when CI is set or stdin is not a terminal)')
+    .option('--retries <number>', `how many times failed provider calls are retried when the error is transient, 0 to disable (default: ${DEFAULT_RETRY_POLICY.retries})`, parseNonNegativeInt)
+    .option('--retry-delay <ms>', `delay before the first retry, doubled for every following retry (default: ${DEFAULT_RETRY_POLICY.delay})`, parseNonNegativeInt)
+    .option('--retry-max-delay <ms>', `maximum delay between retries (default: ${DEFAULT_RETRY_POLICY.maxDelay})`, parseNonNegativeInt)
+    .option('--timeout <[prefix=]ms>', `time limit for each provider command or request, 0 for none; repeat with a prefix for one provider, e.g. --timeout bw://=120000 (default: ${DEFAULT_TIMEOUT} for most providers)`, parseTimeoutOption)
+    .option('--plugin <module>', 'load a provider plugin from an npm module or file, can be repeated', (value: string, previous: string[] = []) => [...previous, value])
+    .hook('preAction', (command) => {
+        const options = command.opts();
+        setNonInteractive(options.nonInteractive ?? false);
+        retryOptions = { retries: options.retries, delay: options.retryDelay, maxDelay: options.retryMaxDelay };
+        timeoutOptions = options.timeout ?? {};
+        pluginOptions = options.plugin ?? [];
+    });
 
 program
     .command('generate', { isDefault: true })
     .description('Generate .env files from secret providers (default command)')
     .option('-i, --input <file>', 'input config file path or environment name (e.g., "local" → "salakala.local.json")', 'salakala.json')
     .option('-e, --env <environment>', 'environment to use from input file (interactive selection if not provided)')
-    .option('-o, --output <file>', 'output file path', '.env')
+    .option('-o, --output <file>', 'output file path, or "-" for stdout (default: ".env" for dotenv, stdout for other formats)')
+    .option('-f, --format <format>', `output format (${getOutputFormatNames().join(', ')})`, 'dotenv')
+    .option('--name <name>', 'resource name for the k8s-secret format')
+    .option('--namespace <namespace>', 'resource namespace for the k8s-secret format')
     .option('-w, --overwrite', 'overwrite the output file instead of merging with existing values')
     .option('-s, --set', 'set environment variables in the current shell instead of writing to a file')
+    .option('--concurrency <number>', 'maximum number of secrets fetched in parallel per provider', parsePositiveInt)
     .action(async (options) => {
         try {
+            const format = getOutputFormat(options.format);
+            const output = options.output ?? (format.name === 'dotenv' ? '.env' : '-');
+            const toStdout = output === '-';
+            if (toStdout) {
+                redirectLogsToStderr();
+            }
+
             const width = process.stdout.columns;
-            const padding = Math.floor((width - options.output.length) / 2);
+            const padding = Math.floor((width - output.length) / 2);
 
-            const manager = new SecretsManager();
             const resolvedInputFile = resolveInputFile(options.input);
+            const manager = await createSecretsManager(resolvedInputFile);
             
             // Determine environment to use
-            let environment = options.env;
-            
-            // If no environment specified, check if config has environments
-            if (!environment) {
-                const availableEnvironments = detectEnvironments(resolvedInputFile);
-                
-                if (availableEnvironments && availableEnvironments.length > 0) {
-                    // Interactive environment selection
-                    environment = await promptForEnvironment(availableEnvironments);
-                } else {
-                    // Flat config, use default
-                    environment = 'development';
-                }
-            }
+            const environment = await selectEnvironment(resolvedInputFile, options.env);
 
             if(!options.set) {
                 console.log(`${'-'.repeat(padding)}`);
-                console.log(`🐟 Generating ${options.output} file for environment: '${environment}'`);
+                console.log(`🐟 Generating ${toStdout ? `${format.name} output` : output} for environment: '${environment}'`);
                 console.log(`${'-'.repeat(padding)}`);
             }
             
-            const secrets = await manager.loadSecrets(resolvedInputFile, environment);
+            const secrets = await manager.loadSecrets(resolvedInputFile, environment, { concurrency: options.concurrency });
 
             if(options.set) {
                 Object.entries(secrets).forEach(([key, value]) => {
@@ -136,36 +394,371 @@ program
                 console.log(`🐟 Environment variables from salakala.json have been set the current shell`);
                 console.log(`${'-'.repeat(padding)}`);
                 return;
+            } else if (toStdout) {
+                process.stdout.write(format.serialize(secrets, { name: options.name, namespace: options.namespace }));
             } else {
-                // Read existing .env file if it exists and we're not overwriting
-                let mergedEnv = secrets;
-                if (!options.overwrite && existsSync(options.output)) {
-                    const existingContent = readFileSync(options.output, 'utf-8');
-                    const existingEnv: Record<string, string> = {};
-                    existingContent.split('\n').forEach(line => {
-                        const match = line.match(/^([^=]+)=(.*)$/);
-                        if (match) {
-                            existingEnv[match[1]] = match[2];
-                        }
-                    });
-                    // Merge existing env with new secrets (new secrets take precedence)
-                    mergedEnv = { ...existingEnv, ...secrets };
-                }
-                
-                // Convert merged secrets to .env format with proper escaping
-                const envContent = Object.entries(mergedEnv)
-                    .map(([key, value]) => `${key}=${escapeEnvValue(value)}`)
-                    .join('\n');
-                
-                writeFileSync(options.output, envContent + '\n');
+                // Merging is only supported for .env files; other formats are always overwritten
+                const merge = format.name === 'dotenv' && !options.overwrite;
+                const content = merge
+                    ? mergeDotenv(existsSync(output) ? readFileSync(output, 'utf-8') : '', secrets)
+                    : format.serialize(secrets, { name: options.name, namespace: options.namespace });
+                writeFileSync(output, content);
                 console.log(`${'-'.repeat(padding)}`);
-                const mode = options.overwrite ? 'overwrote' : 'updated';
-                console.log(`💾 Successfully ${mode} ${options.output} using '${environment}' environment 🔒🐟`);
+                const mode = merge ? 'updated' : 'overwrote';
+                console.log(`💾 Successfully ${mode} ${output} using '${environment}' environment 🔒🐟`);
                 console.log(`${'-'.repeat(padding)}`);
             }
         } catch (error) {
-            console.error('Error:', error instanceof Error ? error.message : String(error));
-            process.exit(1);
+            exitWithError(error);
+        }
+    });
+
+program
+    .command('run')
+    .description('Run a command with secrets injected as environment variables')
+    .argument('<command...>', 'command to run, after "--" (e.g., salakala run -- npm start)')
+    .option('-i, --input <file>', 'input config file path or environment name (e.g., "local" → "salakala.local.json")', 'salakala.json')
+    .option('-e, --env <environment>', 'environment to use from input file (interactive selection if not provided)')
+    .option('--concurrency <number>', 'maximum number of secrets fetched in parallel per provider', parsePositiveInt)
+    .action(async (commandWithArgs, options) => {
+        try {
+            const resolvedInputFile = resolveInputFile(options.input);
+            const manager = await createSecretsManager(resolvedInputFile);
+            const environment = await selectEnvironment(resolvedInputFile, options.env);
+
+            // The command's stdout may be piped, so progress messages go to stderr
+            const secrets = await runInContext({ logger: stderrLogger }, () =>
+                manager.loadSecrets(resolvedInputFile, environment, { concurrency: options.concurrency })
+            );
+
+            const [command, ...args] = commandWithArgs;
+            const exitCode = await runCommand(command, args, secrets);
+            process.exit(exitCode);
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+program
+    .command('validate')
+    .description('Check configuration files for errors without fetching any secrets')
+    .argument('[files...]', 'config files or environment names (e.g., "local" → "salakala.local.json")', ['salakala.json'])
+    .action(async (files) => {
+        try {
+            let issueCount = 0;
+
+            for (const file of files) {
+                const resolvedFile = resolveInputFile(file);
+                const content = readFileSync(resolvedFile, 'utf-8');
+                const manager = new SecretsManager({ plugins: await loadPluginsToValidate(resolvedFile, content) });
+                const issues = validateConfig(content, manager.getProviders());
+                for (const issue of issues) {
+                    console.error(`${resolvedFile}:${issue.line}:${issue.column}: ${issue.message}`);
+                }
+                if (issues.length === 0) {
+                    console.log(`✅ ${resolvedFile} is valid`);
+                }
+                issueCount += issues.length;
+            }
+
+            if (issueCount > 0) {
+                console.error(`\n❌ Found ${issueCount} problem${issueCount === 1 ? '' : 's'}`);
+                process.exit(1);
+            }
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+program
+    .command('doctor')
+    .description('Check that the providers used by a configuration are installed, authenticated and working')
+    .option('-i, --input <file>', 'input config file path or environment name (e.g., "local" → "salakala.local.json")', 'salakala.json')
+    .option('-e, --env <environment>', 'environment to use from input file (interactive selection if not provided)')
+    .option('--json', 'print the report as JSON')
+    .action(async (options) => {
+        try {
+            if (options.json) {
+                redirectLogsToStderr();
+            }
+
+            const resolvedInputFile = resolveInputFile(options.input);
+            const manager = await createSecretsManager(resolvedInputFile);
+            const environment = await selectEnvironment(resolvedInputFile, options.env);
+            const config = manager.getSecretConfig(resolvedInputFile, environment);
+
+            console.log(`🩺 Checking providers used by '${environment}' environment in ${resolvedInputFile}\n`);
+            const reports = await runDoctor(config, manager.getProviders(), (prefix) => manager.getProviderName(prefix));
+
+            if (options.json) {
+                process.stdout.write(JSON.stringify({ environment, providers: reports }, null, 2) + '\n');
+            } else if (reports.length === 0) {
+                console.log('No secret providers are used by this environment.');
+            } else {
+                process.stdout.write(`\n${formatDoctorTable(reports)}\n`);
+            }
+
+            if (hasFailures(reports)) {
+                console.error('❌ Some checks failed');
+                process.exit(1);
+            }
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+/**
+ * Help text of the -i option of commands that work without a config file
+ */
+const CONFIG_SETTINGS_OPTION = 'config file whose $plugins, $retry and $timeout settings are used (default: salakala.json if it exists)';
+
+program
+    .command('ls')
+    .description('List the secrets of a provider that start with a URI prefix, one URI per line')
+    .argument('<prefix>', 'URI prefix to list (e.g., "op://" for vaults, "op://Development/" for the items of a vault)')
+    .option('-i, --input <file>', CONFIG_SETTINGS_OPTION)
+    .action(async (prefix, options) => {
+        try {
+            // Progress messages of the provider go to stderr so the list can be piped
+            redirectLogsToStderr();
+            const manager = await createSecretsManager(resolveOptionalInputFile(options.input));
+            const uris = await manager.listSecrets(prefix);
+            if (uris.length > 0) {
+                process.stdout.write(uris.join('\n') + '\n');
+            }
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+program
+    .command('get')
+    .description('Print the value of one secret')
+    .argument('<uri>', 'secret URI, optionally with a ::jsonKey (e.g., "op://Development/API/credentials::token")')
+    .option('-i, --input <file>', CONFIG_SETTINGS_OPTION)
+    .option('--no-newline', 'don\'t print a newline after the value')
+    .action(async (uri, options) => {
+        try {
+            // The value is the only thing written to stdout
+            redirectLogsToStderr();
+            const manager = await createSecretsManager(resolveOptionalInputFile(options.input));
+            const value = await manager.getSecret(uri);
+            process.stdout.write(options.newline ? `${value}\n` : value);
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+program
+    .command('set')
+    .description('Write one secret, reading the value from stdin or a prompt that doesn\'t echo it')
+    .argument('<uri>', 'secret URI (e.g., "awssm://us-east-1/prod/api-key")')
+    .option('-i, --input <file>', CONFIG_SETTINGS_OPTION)
+    .action(async (uri, options) => {
+        try {
+            const manager = await createSecretsManager(resolveOptionalInputFile(options.input));
+            const value = await readSecretValue(uri);
+            await manager.setSecret(uri, value);
+            console.log(`✅ Wrote ${uri}`);
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+program
+    .command('rm')
+    .description('Delete one secret after asking for confirmation')
+    .argument('<uri>', 'secret URI (e.g., "awssm://us-east-1/prod/api-key")')
+    .option('-i, --input <file>', CONFIG_SETTINGS_OPTION)
+    .option('-y, --yes', 'delete without asking for confirmation')
+    .action(async (uri, options) => {
+        try {
+            const manager = await createSecretsManager(resolveOptionalInputFile(options.input));
+            if (!options.yes) {
+                assertInteractive(`confirm deleting ${uri}`, 'Pass --yes to delete without confirmation.');
+                const { provider } = manager.getProviderFor(uri);
+                const message = provider.supportsMultipleFields
+                    ? `Delete the field ${uri}? Its item is deleted too if no other field has a value. This can't be undone.`
+                    : `Delete ${uri}? This can't be undone.`;
+                const confirmed = await confirm({ message, default: false });
+                if (!confirmed) {
+                    console.log('Nothing was deleted.');
+                    return;
+                }
+            }
+            await manager.deleteSecret(uri);
+            console.log(`🗑️  Deleted ${uri}`);
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+/**
+ * Runs `salakala cp` or `salakala mv`, printing the sync summary and exiting with 1 if it failed.
+ * 
+ * @param {'copy' | 'move'} operation - Whether the source is deleted after the copy
+ * @param {string} source - URI to copy from
+ * @param {string} destination - URI to copy to
+ * @param {object} options - The command's options
+ */
+async function transferSecret(
+    operation: 'copy' | 'move',
+    source: string,
+    destination: string,
+    options: { input?: string, dryRun?: boolean, yes?: boolean }
+): Promise<void> {
+    const manager = await createSecretsManager(resolveOptionalInputFile(options.input));
+    const syncManager = new SyncManager(manager.getProviders());
+    if (options.dryRun) {
+        console.log('🔍 DRY RUN MODE - No changes will be made');
+    }
+    const results = operation === 'move'
+        ? await syncManager.move(source, destination, options.dryRun, options.yes)
+        : await syncManager.copy(source, destination, options.dryRun, options.yes);
+    syncManager.printSummary(results);
+    if (results.some(r => !r.success)) {
+        process.exit(1);
+    }
+}
+
+program
+    .command('cp')
+    .description('Copy a secret to another URI, in the same or another provider')
+    .argument('<source>', 'secret URI to copy, optionally with a ::jsonKey (e.g., "lp://Work/GitHub")')
+    .argument('<destination>', 'secret URI to write (e.g., "op://Work/GitHub/password")')
+    .option('-i, --input <file>', CONFIG_SETTINGS_OPTION)
+    .option('--dry-run', 'show what would be copied without writing')
+    .option('-y, --yes', 'overwrite the destination without asking if it exists')
+    .action(async (source, destination, options) => {
+        try {
+            await transferSecret('copy', source, destination, options);
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+program
+    .command('mv')
+    .description('Move a secret to another URI: copy it, check the copy and delete the source')
+    .argument('<source>', 'secret URI to move (e.g., "awssm://us-east-1/api-key")')
+    .argument('<destination>', 'secret URI to write (e.g., "gcsm://projects/my-project/secrets/api-key/versions/latest")')
+    .option('-i, --input <file>', CONFIG_SETTINGS_OPTION)
+    .option('--dry-run', 'show what would be moved without writing or deleting')
+    .option('-y, --yes', 'overwrite the destination without asking if it exists')
+    .action(async (source, destination, options) => {
+        try {
+            await transferSecret('move', source, destination, options);
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+program
+    .command('migrate')
+    .description('Copy the secrets of an environment to another provider and point the config at the copies')
+    .requiredOption('--to <uri>', 'where to copy the secrets: an item for providers with fields (e.g., "bw://folder/item"), otherwise the location of the secrets (e.g., "awssm://us-east-1")')
+    .option('-i, --input <file>', 'input config file path or environment name (e.g., "local" → "salakala.local.json")', 'salakala.json')
+    .option('-e, --env <environment>', 'environment to migrate (interactive selection if not provided)')
+    .option('--bundle <name>', 'name of the JSON secret that values read with ::jsonKey are bundled into', 'config')
+    .option('--dry-run', 'show what would be copied without writing secrets or the config')
+    .option('-y, --yes', 'migrate without asking for confirmation')
+    .action(async (options) => {
+        try {
+            const resolvedInputFile = resolveInputFile(options.input);
+            const manager = await createSecretsManager(resolvedInputFile);
+            const environment = await selectEnvironment(resolvedInputFile, options.env);
+            const config = manager.getSecretConfig(resolvedInputFile, environment);
+
+            const { prefix, provider } = manager.getProviderFor(options.to);
+            const components = resolveTargetComponents(provider, options.to);
+            const prefixes = Array.from(manager.getProviders().keys());
+            const plan = planMigration(config, provider, components, uri => prefixes.some(p => uri.startsWith(p)), options.bundle);
+
+            for (const { envVar, reason } of plan.skipped) {
+                console.log(`⏭️ Leaving ${envVar} unchanged: ${reason}`);
+            }
+            if (plan.steps.length === 0) {
+                console.log(`No secrets to migrate in '${environment}'.`);
+                return;
+            }
+
+            console.log(`\n📋 Migrating '${environment}' in ${resolvedInputFile} to ${manager.getProviderName(prefix)}:`);
+            for (const step of plan.steps) {
+                console.log(`  ${step.envVar}: ${step.source} → ${step.target}`);
+            }
+            if (plan.bundleUri) {
+                console.log(`  Values read with ::jsonKey are bundled as JSON into ${plan.bundleUri}`);
+            }
+            console.log('Secrets are written one at a time. If a write fails, the copies already written are kept and the config is left unchanged.');
+            if (options.dryRun) {
+                console.log('\n🔍 DRY RUN MODE - No changes were made');
+                return;
+            }
+            if (!options.yes) {
+                assertInteractive('confirm the migration', 'Pass --yes to migrate without confirmation.');
+                if (!await confirm({ message: 'Copy these secrets and rewrite the config?', default: true })) {
+                    console.log('Migration cancelled.');
+                    return;
+                }
+            }
+
+            console.log('');
+            const copied = await runMigration(plan, manager);
+            if (copied.length === 0) {
+                console.log('\nNo secrets could be read, the config was left unchanged.');
+                return;
+            }
+            const entries = Object.fromEntries(copied.map(step => [step.envVar, { ...config[step.envVar], uri: step.target }]));
+            const backupPath = saveMigratedConfig(resolvedInputFile, environment, entries);
+            console.log(`\n✅ Migrated ${copied.length} of ${plan.steps.length} variables. The old config was saved to ${backupPath}`);
+        } catch (error) {
+            exitWithError(error);
+        }
+    });
+
+const convert = program
+    .command('convert')
+    .description('Convert a salakala configuration into other tools\' formats without fetching secrets');
+
+convert
+    .command('external-secrets')
+    .description('Convert awssm://, gcsm:// and azurekv:// entries into external-secrets SecretStore and ExternalSecret resources')
+    .requiredOption('--name <name>', 'name of the ExternalSecret and the Kubernetes Secret it creates')
+    .option('--namespace <namespace>', 'namespace of the generated resources')
+    .option('--refresh-interval <interval>', 'how often external-secrets refreshes the values', '1h')
+    .option('-i, --input <file>', 'input config file path or environment name (e.g., "local" → "salakala.local.json")', 'salakala.json')
+    .option('-e, --env <environment>', 'environment to use from input file (interactive selection if not provided)')
+    .option('-o, --output <file>', 'output file path, or "-" for stdout', '-')
+    .action(async (options) => {
+        try {
+            const toStdout = options.output === '-';
+            if (toStdout) {
+                redirectLogsToStderr();
+            }
+
+            const manager = new SecretsManager();
+            const resolvedInputFile = resolveInputFile(options.input);
+            const environment = await selectEnvironment(resolvedInputFile, options.env);
+            const config = manager.getSecretConfig(resolvedInputFile, environment);
+
+            const { manifest, skipped } = convertToExternalSecrets(config, {
+                name: options.name,
+                namespace: options.namespace,
+                refreshInterval: options.refreshInterval,
+            });
+
+            for (const { envVar, reason } of skipped) {
+                console.log(`⚠️  Skipped ${envVar}: ${reason}`);
+            }
+
+            if (toStdout) {
+                process.stdout.write(manifest);
+            } else {
+                writeFileSync(options.output, manifest);
+                console.log(`💾 Wrote external-secrets resources for '${environment}' environment to ${options.output}`);
+            }
+        } catch (error) {
+            exitWithError(error);
         }
     });
 
@@ -179,8 +772,8 @@ program
     .option('-y, --yes', 'skip all prompts and overwrite conflicts automatically')
     .action(async (options) => {
         try {
-            const manager = new SecretsManager();
             const resolvedInputFile = resolveInputFile(options.input);
+            const manager = await createSecretsManager(resolvedInputFile);
             
             const syncManager = new SyncManager(manager.getProviders());
             const syncConfig = syncManager.loadSyncConfig(resolvedInputFile, options.env);
@@ -225,8 +818,7 @@ program
                 process.exit(1);
             }
         } catch (error) {
-            console.error('Error:', error instanceof Error ? error.message : String(error));
-            process.exit(1);
+            exitWithError(error);
         }
     });
 
@@ -236,7 +828,8 @@ program
     .option('-i, --input <file>', 'input .env file path')
     .action(async (options) => {
         try {
-            const manager = new SecretsManager();
+            assertInteractive('import variables', 'The import command always asks which variables to import and where to store them.');
+            const manager = await createSecretsManager();
             
             // Step 1: Determine input source and parse
             let envVars: Record<string, string>;
@@ -306,17 +899,8 @@ program
             const providerPrefix = await select({
                 message: 'Select secret provider:',
                 choices: providerEntries.map(([prefix, provider]) => {
-                    const names: Record<string, string> = {
-                        'op://': '1Password',
-                        'bw://': 'Bitwarden',
-                        'awssm://': 'AWS Secrets Manager',
-                        'gcsm://': 'Google Cloud Secret Manager',
-                        'azurekv://': 'Azure Key Vault',
-                        'kp://': 'KeePass',
-                        'lp://': 'LastPass'
-                    };
                     return {
-                        name: `${names[prefix] || prefix} (${prefix})`,
+                        name: `${manager.getProviderName(prefix)} (${prefix})`,
                         value: prefix
                     };
                 })
@@ -526,8 +1110,7 @@ program
             }
 
         } catch (error) {
-            console.error('Error:', error instanceof Error ? error.message : String(error));
-            process.exit(1);
+            exitWithError(error);
         }
     });
 
@@ -0,0 +1,134 @@
+import { SecretsManager } from './lib/SecretsManager.js';
+import { SecretProvider } from './lib/SecretProvider.js';
+import { runInContext, silentLogger, Logger } from './lib/context.js';
+import { RetryPolicy, readRetrySettings, resolveRetryPolicy } from './lib/retry.js';
+import { TimeoutSettings, readTimeoutSettings } from './lib/timeouts.js';
+import { loadConfigPlugins } from './lib/plugins.js';
+
+export { SecretProvider, PathComponentType } from './lib/SecretProvider.js';
+export type { PathComponent, ProviderHealth, HealthCheck, SecretEntry } from './lib/SecretProvider.js';
+export { consoleLogger, silentLogger } from './lib/context.js';
+export type { Logger } from './lib/context.js';
+export type { RetryPolicy } from './lib/retry.js';
+export type { TimeoutSettings } from './lib/timeouts.js';
+export {
+    SalakalaError,
+    SecretNotFoundError,
+    AuthenticationError,
+    InvalidPathError,
+    JsonKeyNotFoundError,
+    ProviderUnavailableError,
+    ProviderTimeoutError,
+} from './lib/errors.js';
+export { InteractionRequiredError } from './lib/interactive.js';
+
+/**
+ * Options of resolve().
+ */
+export interface ResolveOptions {
+    /** Path to the salakala.json file (defaults to 'salakala.json' in the working directory) */
+    config?: string;
+    /** Environment to resolve, ignored for flat configs (defaults to 'development') */
+    environment?: string;
+    /** Receives progress messages (defaults to silentLogger, which discards them) */
+    logger?: Logger;
+    /** Stops resolving when aborted, killing provider CLI commands and cancelling SDK requests */
+    signal?: AbortSignal;
+    /**
+     * Additional providers by prefix (e.g., 'myvault://'). Providers with the prefix
+     * of a built-in provider replace it.
+     */
+    providers?: Record<string, SecretProvider>;
+    /** Provider plugins to load in addition to the config file's `$plugins`, resolved from the working directory */
+    plugins?: string[];
+    /** Maximum parallel fetches per provider (defaults to DEFAULT_CONCURRENCY) */
+    concurrency?: number;
+    /** Retry settings, taking precedence over the config file's `$retry` */
+    retry?: Partial<RetryPolicy>;
+    /** Timeouts by provider prefix or `default`, taking precedence over the config file's `$timeout` */
+    timeouts?: TimeoutSettings;
+    /**
+     * Whether providers may prompt and log in interactively (defaults to false,
+     * which makes them throw InteractionRequiredError instead)
+     */
+    interactive?: boolean;
+}
+
+/**
+ * Result of resolve().
+ */
+export interface ResolveResult {
+    /** The environment the values were resolved for */
+    environment: string;
+    /**
+     * Values by variable name, in the order of the config.
+     * Optional variables that failed to resolve and have no default are left out.
+     */
+    values: Record<string, string>;
+}
+
+/**
+ * Resolves the variables of a salakala.json environment in-process, the same way
+ * `salakala generate` does, without writing any files or printing anything by default.
+ *
+ * @param {ResolveOptions} [options] - Where the config is and how to resolve it
+ * @returns {Promise<ResolveResult>} The resolved values
+ * @throws {SalakalaError} Typed errors for missing secrets, credentials, invalid paths and timeouts,
+ *                         usually as the cause of an error naming the variable
+ * @throws {unknown} The signal's abort reason if the signal is aborted
+ */
+export async function resolve(options: ResolveOptions = {}): Promise<ResolveResult> {
+    const configPath = options.config ?? 'salakala.json';
+    const environment = options.environment ?? 'development';
+    const { signal } = options;
+    signal?.throwIfAborted();
+
+    const context = { logger: options.logger ?? silentLogger, signal, interactive: options.interactive ?? false };
+    return runInContext(context, async () => {
+        const manager = new SecretsManager({
+            providers: options.providers,
+            plugins: await loadConfigPlugins(configPath, options.plugins),
+            retry: resolveRetryPolicy(readRetrySettings(configPath), options.retry ?? {}),
+            timeouts: { ...readTimeoutSettings(configPath), ...options.timeouts },
+        });
+        try {
+            const values = await untilAborted(
+                manager.loadSecrets(configPath, environment, { concurrency: options.concurrency }),
+                signal
+            );
+            return { environment, values };
+        } catch (error) {
+            // Failures caused by the abort are reported as the abort itself
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
+            throw error;
+        }
+    });
+}
+
+/**
+ * Waits for a promise, rejecting as soon as the signal is aborted even if the promise
+ * is still pending, like a request to a provider that doesn't support cancelling.
+ *
+ * @param {Promise<T>} promise - The promise to wait for
+ * @param {AbortSignal} [signal] - The signal to watch
+ * @returns {Promise<T>} The result of the promise
+ */
+async function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    // A failure after the abort is no longer reported to anyone
+    promise.catch(() => {});
+    let onAbort!: () => void;
+    const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+    try {
+        return await Promise.race([promise, aborted]);
+    } finally {
+        signal.removeEventListener('abort', onAbort);
+    }
+}
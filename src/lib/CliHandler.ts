@@ -1,5 +1,10 @@
-import { spawn } from "child_process";
+import { spawn, ChildProcess } from "child_process";
 import { appendFileSync } from "fs";
+import { HealthCheck } from "./SecretProvider.js";
+import { assertInteractive } from "./interactive.js";
+import { classifyError, ErrorPatterns, ProviderUnavailableError, ProviderTimeoutError } from "./errors.js";
+import { formatTimeout } from "./timeouts.js";
+import { getLogger, getSignal } from "./context.js";
 
 /**
  * Represents the result of a CLI command execution
@@ -7,7 +12,7 @@ import { appendFileSync } from "fs";
  */
 export class CliResponse {
     /** Final state of the command execution */
-    state: 'ok' | 'try-again' | 'error' | 'catastrophic';
+    state: 'ok' | 'try-again' | 'error' | 'catastrophic' | 'timeout' | 'aborted';
     /** Standard output from the command */
     stdout: string;
     /** Standard error output from the command */
@@ -24,7 +29,7 @@ export class CliResponse {
         stdout: string,
         stderr: string,
         code: number,
-        state: 'ok' | 'try-again' | 'error' | 'catastrophic',
+        state: 'ok' | 'try-again' | 'error' | 'catastrophic' | 'timeout' | 'aborted',
         message?: string,
         error?: Error
     }) {
@@ -35,16 +40,55 @@ export class CliResponse {
         this.message = message;
         this.error = error;
     }
+
+    /**
+     * Creates the error to throw for a failed command. A command that couldn't be started
+     * gives a ProviderUnavailableError and a command that was killed after its timeout
+     * a ProviderTimeoutError. A command killed because the call was aborted gives the abort reason.
+     * Other failures are typed with the given patterns.
+     * @param fallback - Message used when the command gave no error message
+     * @param patterns - Patterns in the CLI's error output that identify the kind of failure
+     * @returns The error
+     */
+    toError(fallback: string, patterns: ErrorPatterns = {}): Error {
+        if (this.state === 'catastrophic') {
+            return new ProviderUnavailableError(this.message || fallback, { cause: this.error });
+        }
+        if (this.state === 'timeout') {
+            return new ProviderTimeoutError(this.message || fallback);
+        }
+        if (this.state === 'aborted') {
+            return this.error ?? new Error(this.message || fallback);
+        }
+        return classifyError(new Error(this.error?.message || this.message || fallback), patterns);
+    }
 }
 
 /**
- * Sanitizes command strings by censoring sensitive session information
- * @param str - The command string to sanitize
- * @returns The sanitized command string
+ * Options whose values are censored when commands are logged
  */
-function censor(str: string) {
-    // Censor things in `--session=""` to prevent logging sensitive data
-    return str.replace(/--session="[^"]*"/g, '--session="****"');
+const SENSITIVE_OPTIONS = ['--session'];
+
+/**
+ * Formats a command and its arguments for logging, censoring the values of sensitive
+ * options given either as `--session=value` or as `--session value`.
+ * Arguments with spaces or quotes are shown quoted.
+ * @param command - The command
+ * @param args - The command arguments
+ * @returns The sanitized command line
+ */
+function censor(command: string, args: string[]) {
+    const shown = args.map((arg, index) => {
+        const name = arg.split('=', 1)[0];
+        if (arg.includes('=') && SENSITIVE_OPTIONS.includes(name)) {
+            return `${name}=****`;
+        }
+        if (index > 0 && SENSITIVE_OPTIONS.includes(args[index - 1])) {
+            return '****';
+        }
+        return arg;
+    });
+    return [command, ...shown].map(arg => arg === '' || /[\s"'`$\\]/.test(arg) ? JSON.stringify(arg) : arg).join(' ');
 }
 
 /**
@@ -60,6 +104,93 @@ function prune(str: string) {
     return str.replaceAll(pruneMessages[0], '').replaceAll(pruneMessages[1], '');
 }
 
+/**
+ * Kills a command together with the processes it started. On Windows taskkill ends
+ * the process tree, elsewhere the command runs in its own process group, which is killed.
+ * @param child - The command's process
+ */
+function killProcessTree(child: ChildProcess) {
+    if (child.pid === undefined) {
+        return;
+    }
+    try {
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(child.pid), '/t', '/f'], { stdio: 'ignore' });
+        } else {
+            process.kill(-child.pid, 'SIGKILL');
+        }
+    } catch {
+        // The process group is already gone, make sure the command itself is too
+        child.kill('SIGKILL');
+    }
+}
+
+/**
+ * Signals passed on to commands running in process groups of their own. Those groups
+ * aren't in the terminal's foreground, so they wouldn't get Ctrl-C or a hangup otherwise.
+ */
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+/**
+ * Commands running in process groups of their own
+ */
+const detachedChildren = new Set<ChildProcess>();
+
+/**
+ * Passes a signal on to the process group of each detached command, then lets it end
+ * salakala as it would have if nothing else listens for it.
+ * @param signal - The received signal
+ */
+function forwardSignal(signal: NodeJS.Signals) {
+    for (const child of detachedChildren) {
+        try {
+            process.kill(-child.pid!, signal);
+        } catch {
+            // The process group is already gone
+        }
+    }
+    if (process.listenerCount(signal) === 1) {
+        stopForwarding();
+        process.kill(process.pid, signal);
+    }
+}
+
+/**
+ * Kills the detached commands that are still running when salakala exits, so they aren't left behind.
+ */
+function killDetachedChildren() {
+    for (const child of detachedChildren) {
+        killProcessTree(child);
+    }
+}
+
+function stopForwarding() {
+    for (const signal of FORWARDED_SIGNALS) {
+        process.removeListener(signal, forwardSignal);
+    }
+    process.removeListener('exit', killDetachedChildren);
+}
+
+/**
+ * Keeps track of a command running in a process group of its own until it closes.
+ * @param child - The command's process
+ */
+function trackDetached(child: ChildProcess) {
+    if (detachedChildren.size === 0) {
+        for (const signal of FORWARDED_SIGNALS) {
+            process.on(signal, forwardSignal);
+        }
+        process.on('exit', killDetachedChildren);
+    }
+    detachedChildren.add(child);
+    child.once('close', () => {
+        detachedChildren.delete(child);
+        if (detachedChildren.size === 0) {
+            stopForwarding();
+        }
+    });
+}
+
 function debug(opts: any, str: string) {
     if(opts.debug) {
         appendFileSync('debug.txt', `${str}\n`);
@@ -72,24 +203,25 @@ function debug(opts: any, str: string) {
  */
 export class CliHandler {
     /**
-     * Escapes a value for safe use in shell commands wrapped in single quotes.
-     * Uses POSIX shell escaping: replace ' with '\'' 
-     * 
-     * @param {string} value - The value to escape
-     * @returns {string} The escaped value (without surrounding quotes)
+     * @param getTimeout - Returns the time limit in milliseconds for commands that aren't interactive,
+     *                     0 for none. Called when each command starts, so it can follow the provider's timeout.
      */
-    escapeShellValue(value: string): string {
-        return value.replace(/'/g, "'\\''");
-    }
+    constructor(private getTimeout: () => number = () => 0) {}
 
     /**
      * Prompts the user to authenticate with a cloud service and runs the specified command if they agree.
      * 
      * @param {string} serviceName - Name of the service (e.g., 'Google Cloud', 'Azure', 'AWS')
-     * @param {string} command - The authentication command to run (e.g., 'gcloud auth application-default login')
+     * @param {string} command - The authentication command to run (e.g., 'gcloud')
+     * @param {string[]} args - The command arguments (e.g., ['auth', 'application-default', 'login'])
      * @returns {Promise<boolean>} True if authentication was attempted, false otherwise
+     * @throws {InteractionRequiredError} In non-interactive mode, instead of prompting
      */
-    async promptForAuthentication(serviceName: string, command: string): Promise<boolean> {
+    async promptForAuthentication(serviceName: string, command: string, args: string[]): Promise<boolean> {
+        assertInteractive(
+            `authenticate with ${serviceName}`,
+            `Run '${[command, ...args].join(' ')}' beforehand or provide credentials through the environment.`
+        );
         try {
             console.log(`\nWould you like to authenticate with ${serviceName} now? (y/N)`);
             const response = await new Promise<string>((resolve) => {
@@ -102,8 +234,8 @@ export class CliHandler {
 
             if (response === 'y' || response === 'yes') {
                 console.log(`\nRunning ${serviceName} authentication...`);
-                const { execSync } = await import('child_process');
-                execSync(command, { stdio: 'inherit' });
+                const { execFileSync } = await import('child_process');
+                execFileSync(command, args, { stdio: 'inherit' });
                 return true;
             }
         } catch (error) {
@@ -114,8 +246,30 @@ export class CliHandler {
     }
 
     /**
-     * Executes a CLI command with configurable options
+     * Checks that a CLI is installed by running it with --version.
+     * 
+     * @param {string} binary - The CLI executable (e.g., 'op', 'bw')
+     * @param {string} description - Human-readable name of the CLI (e.g., '1Password CLI')
+     * @returns {Promise<HealthCheck>} 'ok' with the version, or 'error' if the CLI is missing or fails
+     */
+    async checkInstalled(binary: string, description: string): Promise<HealthCheck> {
+        const response = await this.run(binary, ['--version']);
+        if (response.state === 'ok') {
+            const version = response.stdout.trim().split('\n')[0];
+            return { status: 'ok', detail: /^v?\d/.test(version) ? `${binary} ${version}` : version };
+        }
+        if (response.state === 'catastrophic') {
+            return { status: 'error', detail: `${description} (${binary}) is not installed or not in PATH` };
+        }
+        return { status: 'error', detail: `${binary} --version failed: ${response.stderr.trim() || response.message}` };
+    }
+
+    /**
+     * Executes a CLI command with configurable options.
+     * The command is run directly, without a shell, so arguments are passed as they are
+     * and need no quoting or escaping.
      * @param command - The command to execute
+     * @param args - The command arguments
      * @param options - Configuration options for command execution
      * @param options.env - Additional environment variables
      * @param options.interactive - Whether to pipe input/output to parent process
@@ -129,9 +283,14 @@ export class CliHandler {
      * @param options.passwordPrompt - String pattern indicating a password prompt, after which output should be censored
      * @param options.password - Password to input when passwordPrompt is detected (for non-interactive mode)
      * @param options.suppressStdout - Suppress stdout output (used for tty-controlling commands)
+     * @param options.input - Data written to the command's stdin, which is then closed.
+     *                        Used to hand secret values to a CLI without putting them in the command line.
+     * @param options.timeout - Time limit in milliseconds, after which the command and the processes it started
+     *                          are killed and the response has the 'timeout' state. Defaults to the handler's
+     *                          timeout; interactive commands are never limited, since they wait for the user.
      * @returns Promise<CliResponse> - Resolution of command execution
      */
-    run(command: string, options: {
+    run(command: string, args: string[] = [], options: {
         env?: NodeJS.ProcessEnv;
         interactive?: boolean;
         stdio?: 'pipe' | 'inherit' | Array<'pipe' | 'inherit' | null>;
@@ -144,6 +303,8 @@ export class CliHandler {
         passwordPrompt?: string;
         password?: string;
         suppressStdout?: boolean;
+        input?: string;
+        timeout?: number;
     } = {}): Promise<CliResponse> {
 
         // Cache error value to pass to CliResponse
@@ -156,15 +317,23 @@ export class CliHandler {
         // Password has been sent to the CLI in non-interactive mode
         let passwordSent = false; 
 
-        const textDecoder = new TextDecoder();
+        // A decoder per stream, so characters split between chunks are decoded whole
+        const textDecoders = { stdout: new TextDecoder(), stderr: new TextDecoder() };
         const textEncoder = new TextEncoder();
 
+        const timeout = options.interactive ? 0 : options.timeout ?? this.getTimeout();
+        const signal = getSignal();
+
         return new Promise((resolve, reject) => {
-            console.log(`✨ Running: ${censor(command)}`);
+            const commandLine = censor(command, args);
+            getLogger().info(`✨ Running: ${commandLine}`);
+
+            // A process group of its own lets a timeout or an abort kill everything the command started.
+            // Commands that talk to the user are interactive, so they stay in the terminal's group.
+            const detached = !options.interactive && (timeout > 0 || signal !== undefined) && process.platform !== 'win32';
 
             // Spawn process with inherited TTY settings for proper color support
-            const child = spawn(command, {
-                shell: true,
+            const child = spawn(command, args, {
                 stdio: options.interactive ? ['inherit', 'pipe', 'pipe'] : (options.stdio ?? 'pipe'),
                 env: {
                     ...process.env,
@@ -172,15 +341,37 @@ export class CliHandler {
                     COLORTERM: process.env.COLORTERM,
                     TERM: process.env.TERM,
                     ...options.env
-                }
+                },
+                detached
             });
+            if (detached && child.pid !== undefined) {
+                trackDetached(child);
+            }
+
+            let timedOut = false;
+            const timer = timeout > 0 ? setTimeout(() => {
+                timedOut = true;
+                killProcessTree(child);
+            }, timeout) : undefined;
+
+            const onAbort = () => killProcessTree(child);
+            if (signal?.aborted) {
+                onAbort();
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            if (options.input !== undefined) {
+                // The command may exit without reading its input, which is reported through its exit code
+                child.stdin?.on('error', () => {});
+                child.stdin?.end(options.input);
+            }
 
             let stdout = '', stderr = '';
             let lineAtPasswordPrompt = '';
             let lastLine = '';
 
             function handleStd(data: Buffer, type: 'stdout' | 'stderr') {
-                const prunedData = prune(textDecoder.decode(data));
+                const prunedData = prune(textDecoders[type].decode(data, { stream: true }));
                 let line = prunedData;
 
                 debug(options, `🐛 Handling ${type}: ${line}`);
@@ -274,6 +465,8 @@ export class CliHandler {
             });
 
             child.on('close', (code) => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
                 if (options.debug) {
                     debug(options, `[spawn:close] Command finished with code ${code}`);
                     debug(options, `[spawn:close] stdout: ${stdout}`);
@@ -281,18 +474,23 @@ export class CliHandler {
                 }
                 
                 // Handle different exit scenarios
-                if (code === 0) {
+                if (signal?.aborted) {
+                    const error = signal.reason instanceof Error ? signal.reason : undefined;
+                    resolve(new CliResponse({stdout, stderr, code: code ?? 1, state: 'aborted', message: `Command was aborted: ${commandLine}`, error}));
+                } else if (timedOut) {
+                    resolve(new CliResponse({stdout, stderr, code: code ?? 1, state: 'timeout', message: `Command timed out after ${formatTimeout(timeout)}: ${commandLine}`}));
+                } else if (code === 0) {
                     resolve(new CliResponse({stdout, stderr, code: code || 0, state: 'ok', message: ''}));
                 } else {
                     // Handle specific error cases with descriptive messages
                     if(errorValue && errorValue.message.includes('ENOENT')) {
-                        resolve(new CliResponse({stdout, stderr, code: code || 0, state: 'catastrophic', message: `Command not found: ${command}`, error: errorValue}));
+                        resolve(new CliResponse({stdout, stderr, code: code || 0, state: 'catastrophic', message: `Command not found: ${commandLine}`, error: errorValue}));
                     } else if(errorValue && errorValue.message.includes('EACCES')) {
-                        resolve(new CliResponse({stdout, stderr, code: code || 0, state: 'catastrophic', message: `Command not executable or permission denied: ${command}`, error: errorValue}));
+                        resolve(new CliResponse({stdout, stderr, code: code || 0, state: 'catastrophic', message: `Command not executable or permission denied: ${commandLine}`, error: errorValue}));
                     } else if(errorValue && errorValue.message.includes('ECONNREFUSED')) {
-                        resolve(new CliResponse({stdout, stderr, code: code || 0, state: 'catastrophic', message: `Command refused connection: ${command}`, error: errorValue}));
+                        resolve(new CliResponse({stdout, stderr, code: code || 0, state: 'catastrophic', message: `Command refused connection: ${commandLine}`, error: errorValue}));
                     } else if(errorValue && errorValue.message.includes('ECONNRESET')) {
-                        resolve(new CliResponse({stdout, stderr, code: code || 0, state: 'catastrophic', message: `Command connection reset: ${command}`, error: errorValue}));
+                        resolve(new CliResponse({stdout, stderr, code: code || 0, state: 'catastrophic', message: `Command connection reset: ${commandLine}`, error: errorValue}));
                     } else {
                         resolve(new CliResponse({stdout, stderr, code: code ?? 1, state: 'error', message: errorValue?.message ?? stderr}));
                     }
@@ -1,3 +1,14 @@
+import { InteractionRequiredError } from './interactive.js';
+import { SalakalaError, InvalidPathError, JsonKeyNotFoundError, ProviderTimeoutError } from './errors.js';
+import { DEFAULT_TIMEOUT, SCHEME_SOURCE } from './constants.js';
+import { formatTimeout } from './timeouts.js';
+import { getSignal } from './context.js';
+
+/**
+ * Matches scheme://path[::jsonKey] URIs
+ */
+const URI_PATTERN = new RegExp(`^(${SCHEME_SOURCE})://([^:]+)(?:::(.+))?$`);
+
 /**
  * Path component types for semantic classification
  */
@@ -43,6 +54,21 @@ export abstract class SecretProvider {
      */
     abstract readonly pathComponents: PathComponent[];
 
+    /**
+     * Time limit in milliseconds for each CLI command or SDK request the provider makes, 0 for none.
+     * Interactive logins are not limited. Providers can use a different default,
+     * and SecretsManager applies the timeouts from the config file and command line.
+     */
+    timeout: number = DEFAULT_TIMEOUT;
+
+    /**
+     * Whether writing the same value twice has the same effect as writing it once, so a failed
+     * setSecret can be retried even if the first attempt went through.
+     * true: Writes put a value in place (e.g., AWS Secrets Manager, HashiCorp Vault)
+     * false: A repeated write could create a second item (e.g., 1Password, Bitwarden)
+     */
+    readonly idempotentWrites: boolean = false;
+
     /**
      * Builds a complete provider path from the given components.
      * 
@@ -59,7 +85,12 @@ export abstract class SecretProvider {
      * 
      * @param {string} path - The provider-specific path or identifier for the secret
      * @returns {Promise<string>} The secret value, base64 encoded if binary
-     * @throws {Error} If the secret cannot be retrieved or the path is invalid
+     * @throws {InvalidPathError} If the path doesn't match the provider's path format
+     * @throws {SecretNotFoundError} If the secret or field doesn't exist
+     * @throws {JsonKeyNotFoundError} If the `::jsonKey` doesn't exist in the value
+     * @throws {AuthenticationError} If no credentials are available or they are rejected
+     * @throws {ProviderUnavailableError} If the CLI isn't installed or the service can't be reached
+     * @throws {Error} If the secret cannot be retrieved for another reason
      */
     abstract getSecret(path: string): Promise<string>;
     /**
@@ -83,11 +114,113 @@ export abstract class SecretProvider {
     async deleteSecret(path: string): Promise<void> {
         throw new Error(`Delete operation not implemented for this provider`);
     }
+    /**
+     * Deletes one field of an item, for providers with multiple fields per item.
+     * The item itself is deleted once none of its fields has a value left.
+     * Optional method - without it, field URIs of a multi-field provider can't be deleted.
+     *
+     * @param {string} path - The provider-specific path of the field
+     * @returns {Promise<void>}
+     * @throws {Error} If the field cannot be deleted or the path is invalid
+     */
+    deleteField?(path: string): Promise<void>;
+    /**
+     * Deletes the value a URI reads, for `salakala rm` and `salakala mv`: just the field for
+     * providers with multiple fields per item, since deleteSecret deletes the whole item.
+     *
+     * @param {string} path - The provider-specific path of the value
+     * @returns {Promise<void>}
+     * @throws {InvalidPathError} If the provider can only delete whole items
+     * @throws {Error} If the value cannot be deleted
+     */
+    async deleteValue(path: string): Promise<void> {
+        if (!this.supportsMultipleFields) {
+            return this.deleteSecret(path);
+        }
+        if (!this.deleteField) {
+            throw new InvalidPathError(`Cannot delete '${path}' on its own: this provider can only delete whole items, which would also delete the item's other fields`);
+        }
+        return this.deleteField(path);
+    }
+    /**
+     * Lists the secrets whose URIs start with a prefix, for `salakala ls`.
+     * URIs ending in `/` are containers, like a 1Password vault or item, whose contents
+     * are listed by passing the container URI as the prefix.
+     * Optional method - not all providers may implement this.
+     * 
+     * @param {string} prefix - The URI prefix (e.g., 'op://Development/' or 'awssm://us-east-1/prod-')
+     * @returns {Promise<string[]>} The matching URIs, sorted
+     * @throws {Error} If the prefix lacks what the provider needs to list, like a region, or listing fails
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        throw new Error(`List operation not implemented for this provider`);
+    }
+    /**
+     * Performs one-time preparation before secrets are fetched, such as an interactive login or unlock.
+     * Called once per provider before fetching starts so that concurrent getSecret calls
+     * don't each trigger their own prompt.
+     * Optional method - only providers with interactive authentication implement this.
+     *
+     * @param {string[]} paths - The secret paths that are about to be fetched
+     * @returns {Promise<void>}
+     * @throws {Error} If the login or unlock fails
+     */
+    prepare?(paths: string[]): Promise<void>;
+    /**
+     * Checks that a URI matches this provider's path format without accessing the provider.
+     * The default implementation only checks the general scheme://path[::jsonKey] form;
+     * providers with a stricter path grammar override it.
+     * 
+     * @param {string} path - The secret URI to check
+     * @returns {void}
+     * @throws {InvalidPathError} If the path is not valid for this provider
+     */
+    validatePath(path: string): void {
+        this.parsePath(path);
+    }
+    /**
+     * Checks that a value can be written to a URI without accessing the provider, for planning
+     * writes like a migration before anything is read or written.
+     * The default implementation only checks the path with validatePath; providers that can't
+     * write every path they can read, or that restrict names, override it.
+     * 
+     * @param {string} path - The secret URI to check
+     * @returns {void}
+     * @throws {InvalidPathError} If the provider can't write to the path
+     */
+    validateWritePath(path: string): void {
+        this.validatePath(path);
+    }
+    /**
+     * Checks whether the provider can be used in the current environment, for `salakala doctor`.
+     * Reports the installed CLI version and whether a session or credentials are available,
+     * without reading any secrets or starting an interactive login.
+     * The default implementation reports that no checks are available.
+     * 
+     * @returns {Promise<ProviderHealth>} The results of the checks
+     */
+    async checkHealth(): Promise<ProviderHealth> {
+        return {
+            credentials: { status: 'skipped', detail: 'This provider has no credential check' },
+        };
+    }
+    /**
+     * Checks whether a failed getSecret or setSecret call is worth retrying, e.g. because the
+     * provider throttled the request or the connection dropped.
+     * The default implementation retries nothing; providers that talk to a remote service override it.
+     * 
+     * @param {unknown} error - The error thrown by getSecret or setSecret
+     * @returns {boolean} True if the call may succeed when tried again
+     */
+    isRetryable(error: unknown): boolean {
+        return false;
+    }
     /**
      * Tries to parse a value as a JSON object and return the value of the given key.
      * @param {string} value - The value to parse as a JSON object
      * @param {string} key - The key to return the value of
      * @returns {string} The value of the given key or the original value if parsing fails
+     * @throws {JsonKeyNotFoundError} If the value is a JSON object without the given key
      */
     returnPossibleJsonValue(value: string, key?: string): string {
         try {
@@ -99,7 +232,7 @@ export abstract class SecretProvider {
                 if(result !== undefined) {
                     return result.toString();
                 } else {
-                    throw new Error(`Key ${key} not found in JSON object`);
+                    throw new JsonKeyNotFoundError(`Key ${key} not found in JSON object`);
                 }
             } else {
                 // If no key is provided, return the JSON object as a string
@@ -107,7 +240,7 @@ export abstract class SecretProvider {
             }
         } catch (e) {
             // Re-throw key not found errors, but ignore JSON parsing errors
-            if (e instanceof Error && e.message.includes('Key') && e.message.includes('not found')) {
+            if (e instanceof JsonKeyNotFoundError) {
                 throw e;
             }
             // For JSON parsing errors, return the original value
@@ -118,6 +251,7 @@ export abstract class SecretProvider {
      * Parses a URI into its components.
      * @param {string} uri - The URI to parse
      * @returns {Object} An object containing the parsed URI components
+     * @throws {InvalidPathError} If the URI doesn't have the scheme://path[::jsonKey] form
      */
     parsePath(uri: string): {
         uri: string;
@@ -127,8 +261,7 @@ export abstract class SecretProvider {
         jsonKey?: string;
     } {
         // Given an uri of the form: scheme://path/to/secret[::jsonKey]
-        const regex = /^(\w+):\/\/([^:]+)(?:::(.+))?$/;
-        const match = uri.match(regex);
+        const match = uri.match(URI_PATTERN);
         if (match) {
             return {
                 uri,
@@ -139,7 +272,7 @@ export abstract class SecretProvider {
             };
         }
         else {
-            throw new Error(`Invalid URI: ${uri}`);
+            throw new InvalidPathError(`Invalid URI: ${uri}`);
         }
     }
     /**
@@ -203,8 +336,9 @@ export abstract class SecretProvider {
 
     /**
      * Wraps provider errors with consistent formatting.
-     * Re-throws errors that are from our own validation (contain 'Key', 'JSON', or 'empty').
-     * Wraps external provider errors with context.
+     * Path, JSON key and non-interactive mode errors are re-thrown unchanged.
+     * Other errors are wrapped with context, keeping the class of typed errors
+     * so callers can still tell, for example, a missing secret from a failed login.
      * 
      * @param {unknown} error - The error to wrap
      * @param {string} operation - Operation being performed (e.g., 'read', 'write', 'delete')
@@ -212,17 +346,26 @@ export abstract class SecretProvider {
      * @returns {never} Always throws
      */
     protected wrapProviderError(error: unknown, operation: string, providerName: string): never {
-        if (error instanceof Error) {
-            // Re-throw our own validation errors unchanged
-            if (error.message.includes('Key') || 
-                error.message.includes('JSON') || 
-                error.message.includes('empty')) {
-                throw error;
-            }
-            // Wrap provider errors with context
-            throw new Error(`Failed to ${operation} ${providerName} secret: ${error.message}`);
+        if (error instanceof InvalidPathError || error instanceof JsonKeyNotFoundError || error instanceof InteractionRequiredError) {
+            throw error;
         }
-        throw new Error(`Failed to ${operation} ${providerName} secret: Unknown error`);
+        const message = `Failed to ${operation} ${providerName} secret: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        if (error instanceof SalakalaError) {
+            const ErrorClass = error.constructor as new (message: string, options?: ErrorOptions) => SalakalaError;
+            throw new ErrorClass(message, { cause: error });
+        }
+        throw new Error(message, { cause: error });
+    }
+
+    /**
+     * Picks the URIs that start with a listing prefix, sorted and without duplicates.
+     * 
+     * @param {string} prefix - The prefix given to listSecrets
+     * @param {string[]} uris - All URIs found at the level the prefix points to
+     * @returns {string[]} The matching URIs
+     */
+    protected matchingUris(prefix: string, uris: string[]): string[] {
+        return Array.from(new Set(uris.filter(uri => uri.startsWith(prefix)))).sort((a, b) => a.localeCompare(b));
     }
 
     /**
@@ -232,12 +375,12 @@ export abstract class SecretProvider {
      * @param {RegExp} pattern - Regex pattern to match against
      * @param {string} expectedFormat - Human-readable description of expected format for error messages
      * @returns {RegExpMatchArray} The regex match array
-     * @throws {Error} If the path doesn't match the expected format
+     * @throws {InvalidPathError} If the path doesn't match the expected format
      */
     protected parsePathWithRegex(path: string, pattern: RegExp, expectedFormat: string): RegExpMatchArray {
         const match = path.match(pattern);
         if (!match) {
-            throw new Error(`Invalid path format. Expected: ${expectedFormat}`);
+            throw new InvalidPathError(`Invalid path format. Expected: ${expectedFormat}`);
         }
         return match;
     }
@@ -256,14 +399,87 @@ export abstract class SecretProvider {
         }
         return cache.get(key)!;
     }
+
+    /**
+     * Runs an SDK request with the provider's timeout. The request gets an AbortSignal that is
+     * aborted when the time is up or the library call is aborted, and the returned promise
+     * rejects then even if the SDK ignores it.
+     * 
+     * @param {string} description - What the request does, for the error message (e.g., 'Reading secret db-password')
+     * @param {(signal: AbortSignal) => Promise<T>} request - Makes the request, passing the signal to the SDK
+     * @returns {Promise<T>} The result of the request
+     * @throws {ProviderTimeoutError} If the request doesn't finish in time
+     * @throws {unknown} The abort reason of the call's signal, if it is aborted
+     */
+    protected async withTimeout<T>(description: string, request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        const callSignal = getSignal();
+        callSignal?.throwIfAborted();
+        const controller = new AbortController();
+        if (this.timeout === 0 && !callSignal) {
+            return request(controller.signal);
+        }
+        const onAbort = () => controller.abort(callSignal!.reason);
+        callSignal?.addEventListener('abort', onAbort, { once: true });
+        const timer = this.timeout > 0
+            ? setTimeout(() => controller.abort(new ProviderTimeoutError(`${description} timed out after ${formatTimeout(this.timeout)}`)), this.timeout)
+            : undefined;
+        const stopped = new Promise<never>((_, reject) => {
+            controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        });
+        try {
+            return await Promise.race([request(controller.signal), stopped]);
+        } finally {
+            clearTimeout(timer);
+            callSignal?.removeEventListener('abort', onAbort);
+        }
+    }
+}
+
+/**
+ * Result of a single environment check, as reported by `salakala doctor`.
+ */
+export interface HealthCheck {
+    /**
+     * 'warning' means salakala can still continue, e.g. with an interactive login;
+     * 'skipped' means the check could not or should not be run
+     */
+    status: 'ok' | 'warning' | 'error' | 'skipped';
+    /** Version, account or the reason for the status */
+    detail: string;
+}
+
+/**
+ * Results of a provider's environment checks.
+ */
+export interface ProviderHealth {
+    /** Whether the CLI the provider runs is installed, left out for providers that use an SDK */
+    cli?: HealthCheck;
+    /** Whether a session or credentials are available */
+    credentials: HealthCheck;
+}
+
+/**
+ * Object form of a variable in the configuration, for variables that need more than a URI.
+ */
+export interface SecretEntry {
+    /** Secret URI or plain value. May be left out when a default is given. */
+    uri?: string;
+    /** If true, a value that fails to resolve falls back to the default or is left out */
+    optional?: boolean;
+    /** Value used when the variable has no URI or an optional secret fails to resolve */
+    default?: string;
+    /** Human-readable description of the variable */
+    description?: string;
+    /** Opposite of optional; `required: false` is the same as `optional: true` */
+    required?: boolean;
 }
 
 /**
  * Configuration mapping for secrets.
- * Maps environment variable names to secret paths/identifiers.
+ * Maps environment variable names to secret paths/identifiers, or to entry objects.
  */
 export interface SecretConfig {
-    [key: string]: string;
+    [key: string]: string | SecretEntry;
 }
 
 /**
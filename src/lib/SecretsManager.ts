@@ -1,14 +1,20 @@
-import { SecretConfig } from "./SecretProvider.js";
+import { SecretConfig, SecretEntry } from "./SecretProvider.js";
 import { readFileSync } from "fs";
-import { OnePasswordProvider } from "./providers/1Password.js";
-import { GoogleCloudSecretsProvider } from "./providers/GoogleCloudSecrets.js";
-import { AWSSecretsManagerProvider } from "./providers/AWSSecretsManager.js";
-import { BitwardenProvider } from "./providers/Bitwarden.js";
-import { AzureKeyVaultProvider } from "./providers/AzureKeyVault.js";
-import { LastPassProvider } from "./providers/LastPass.js";
-import { KeePassProvider } from "./providers/KeePass.js";
+import { ProviderPlugin, BUILTIN_PROVIDERS, isValidScheme } from "./plugins.js";
 import { SecretProvider } from "./SecretProvider.js";
-import { EMOJI } from "./constants.js";
+import { EMOJI, DEFAULT_CONCURRENCY, SCHEME_SOURCE } from "./constants.js";
+import { isVariableMap, normalizeSecretEntry, isOptionalEntry, omitSettings } from "./configEntries.js";
+import { resolveEnvironment } from "./environments.js";
+import { parseTemplate, renderTemplate, orderTemplates, hasTemplateEscape, TemplateReference } from "./templates.js";
+import { RetryPolicy, DEFAULT_RETRY_POLICY, withRetries } from "./retry.js";
+import { TimeoutSettings, applyTimeouts } from "./timeouts.js";
+import { InvalidPathError, ProviderTimeoutError } from "./errors.js";
+import { getLogger } from "./context.js";
+
+/**
+ * Splits a secret URI into the URI without the ::jsonKey and the key
+ */
+const JSON_KEY_PATTERN = new RegExp(`^(${SCHEME_SOURCE}://[^:]+)::(.+)$`);
 
 /**
  * Main secrets management class that coordinates multiple secret providers.
@@ -21,6 +27,11 @@ export class SecretsManager {
      */
     private providers: Map<string, SecretProvider>;
 
+    /**
+     * Human-readable names of the providers, keyed by prefix.
+     */
+    private names = new Map<string, string>();
+
     /**
      * Gets the providers map for use in sync operations.
      * 
@@ -29,21 +40,54 @@ export class SecretsManager {
     getProviders(): Map<string, SecretProvider> {
         return this.providers;
     }
+
+    /**
+     * Gets the human-readable name of a provider.
+     * 
+     * @param {string} prefix - The provider prefix (e.g., 'op://')
+     * @returns {string} The provider's display name, or the prefix for providers without one
+     */
+    getProviderName(prefix: string): string {
+        return this.names.get(prefix) ?? prefix;
+    }
     
     /**
-     * Initializes a new SecretsManager with all supported secret providers.
+     * Initializes a new SecretsManager with the built-in providers and the given plugins.
      * Each provider is mapped to its corresponding URL-like prefix for routing.
+     * 
+     * @param {object} [options] - Optional parameters
+     * @param {ProviderPlugin[]} [options.plugins] - Providers loaded from plugins, added alongside the built-in ones
+     * @param {RetryPolicy} [options.retry] - How transient provider failures are retried (defaults to DEFAULT_RETRY_POLICY)
+     * @param {TimeoutSettings} [options.timeouts] - Timeouts that replace the providers' default timeouts
+     * @param {Record<string, SecretProvider>} [options.providers] - Additional providers by prefix (e.g., 'myvault://'),
+     *                                                             replacing built-in providers with the same prefix
+     * @throws {Error} If a provider prefix is malformed, a plugin uses the prefix of another provider,
+     *                 or the timeouts name a provider prefix that doesn't exist
      */
-    constructor() {
-        this.providers = new Map<string, SecretProvider>([
-            ['op://', new OnePasswordProvider()],
-            ['gcsm://', new GoogleCloudSecretsProvider()],
-            ['awssm://', new AWSSecretsManagerProvider()],
-            ['bw://', new BitwardenProvider()],
-            ['azurekv://', new AzureKeyVaultProvider()],
-            ['lp://', new LastPassProvider()],
-            ['kp://', new KeePassProvider()],
-        ]);
+    constructor(options: {
+        retry?: RetryPolicy,
+        timeouts?: TimeoutSettings,
+        providers?: Record<string, SecretProvider>,
+        plugins?: ProviderPlugin[]
+    } = {}) {
+        this.providers = new Map<string, SecretProvider>();
+        for (const plugin of [...BUILTIN_PROVIDERS, ...options.plugins ?? []]) {
+            if (this.providers.has(plugin.scheme)) {
+                throw new Error(`Provider plugin ${plugin.displayName} uses the prefix ${plugin.scheme}, which ${this.getProviderName(plugin.scheme)} already uses`);
+            }
+            this.providers.set(plugin.scheme, plugin.create());
+            this.names.set(plugin.scheme, plugin.displayName);
+        }
+        for (const [prefix, provider] of Object.entries(options.providers ?? {})) {
+            if (!isValidScheme(prefix)) {
+                throw new Error(`Invalid provider prefix '${prefix}', expected a scheme followed by :// (e.g., 'myvault://')`);
+            }
+            this.providers.set(prefix, provider);
+        }
+        applyTimeouts(this.providers, options.timeouts ?? {});
+        for (const [prefix, provider] of this.providers) {
+            this.providers.set(prefix, withRetries(provider, options.retry ?? DEFAULT_RETRY_POLICY));
+        }
     }
 
     /**
@@ -66,25 +110,168 @@ export class SecretsManager {
     }
 
     /**
-     * Loads secrets from a configuration file and retrieves their values from appropriate providers.
-     * Supports both flat configurations and environment-specific configurations.
+     * Finds the provider prefix a secret path starts with.
+     * 
+     * @param {string} secretPath - The secret path
+     * @returns {string | undefined} The matching prefix, or undefined for plain values
+     * @private
+     */
+    private findPrefix(secretPath: string): string | undefined {
+        return Array.from(this.providers.keys()).find(p => secretPath.startsWith(p));
+    }
+
+    /**
+     * Finds the provider that handles a secret URI or URI prefix.
+     * 
+     * @param {string} uri - The secret URI or prefix (e.g., 'op://Development/')
+     * @returns {{ prefix: string, provider: SecretProvider }} The provider and its prefix
+     * @throws {Error} If no provider handles the URI
+     */
+    getProviderFor(uri: string): { prefix: string, provider: SecretProvider } {
+        const prefix = this.findPrefix(uri);
+        if (!prefix) {
+            const known = Array.from(this.providers.keys()).join(', ');
+            throw new Error(`No provider found for '${uri}'. Known prefixes: ${known}`);
+        }
+        return { prefix, provider: this.providers.get(prefix)! };
+    }
+
+    /**
+     * Lists the secret URIs that start with a prefix, preparing the provider (e.g., logging in) first.
+     * 
+     * @param {string} prefix - The URI prefix (e.g., 'op://Development/')
+     * @returns {Promise<string[]>} The matching URIs, sorted; URIs ending in `/` are containers
+     * @throws {Error} If no provider handles the prefix, or the provider can't list it
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        const { provider } = this.getProviderFor(prefix);
+        await provider.prepare?.([prefix]);
+        return provider.listSecrets(prefix);
+    }
+
+    /**
+     * Reads one secret, preparing its provider first.
+     * 
+     * @param {string} uri - The secret URI, optionally with a ::jsonKey
+     * @returns {Promise<string>} The secret value
+     * @throws {Error} If no provider handles the URI, or the secret can't be read
+     */
+    async getSecret(uri: string): Promise<string> {
+        const { provider } = this.getProviderFor(uri);
+        await provider.prepare?.([uri]);
+        return provider.getSecret(uri);
+    }
+
+    /**
+     * Writes one secret, preparing its provider first.
+     * 
+     * @param {string} uri - The secret URI
+     * @param {string} value - The value to write
+     * @returns {Promise<void>}
+     * @throws {InvalidPathError} If the URI has a ::jsonKey, which can't be written on its own
+     * @throws {Error} If no provider handles the URI, or the secret can't be written
+     */
+    async setSecret(uri: string, value: string): Promise<void> {
+        const { provider } = this.getProviderFor(uri);
+        if (this.splitJsonKey(uri).jsonKey !== undefined) {
+            throw new InvalidPathError(`Cannot write '${uri}': a ::jsonKey selects part of a value and can only be read`);
+        }
+        await provider.prepare?.([uri]);
+        await provider.setSecret(uri, value);
+    }
+
+    /**
+     * Deletes one secret, preparing its provider first.
+     * For providers with multiple fields per item only the field is deleted, and the item
+     * along with it if no other field has a value.
+     * 
+     * @param {string} uri - The secret URI
+     * @returns {Promise<void>}
+     * @throws {InvalidPathError} If the URI has a ::jsonKey, since the whole secret would be deleted,
+     *                            or the provider can only delete whole items
+     * @throws {Error} If no provider handles the URI, or the secret can't be deleted
+     */
+    async deleteSecret(uri: string): Promise<void> {
+        const { provider } = this.getProviderFor(uri);
+        if (this.splitJsonKey(uri).jsonKey !== undefined) {
+            throw new InvalidPathError(`Cannot delete '${uri}': a ::jsonKey selects part of a value, remove the key to delete the whole secret`);
+        }
+        await provider.prepare?.([uri]);
+        await provider.deleteValue(uri);
+    }
+
+    /**
+     * Splits a secret path into the base secret path and the optional JSON key.
+     * 
+     * @param {string} secretPath - The secret path (e.g. op://vault/item/field::key)
+     * @returns {{ basePath: string, jsonKey?: string }} The base path and JSON key
+     * @private
+     */
+    private splitJsonKey(secretPath: string): { basePath: string, jsonKey?: string } {
+        const match = secretPath.match(JSON_KEY_PATTERN);
+        if (!match) {
+            return { basePath: secretPath };
+        }
+        return { basePath: match[1], jsonKey: match[2] };
+    }
+
+    /**
+     * Runs an async function over a list of items with at most `limit` calls in flight at once.
+     * No new calls are started once one has failed, including in other runs that share the state.
+     * 
+     * @param {T[]} items - The items to process
+     * @param {number} limit - Maximum number of concurrent calls
+     * @param {(item: T) => Promise<void>} fn - The function to run for each item
+     * @param {{ failed: boolean }} [state] - Failure state shared between runs
+     * @returns {Promise<void>} Resolves when all items are processed, rejects on the first failure
+     * @private
+     */
+    private async runWithConcurrency<T>(
+        items: T[],
+        limit: number,
+        fn: (item: T) => Promise<void>,
+        state: { failed: boolean } = { failed: false }
+    ): Promise<void> {
+        let next = 0;
+        const worker = async () => {
+            while (next < items.length && !state.failed) {
+                const item = items[next++];
+                try {
+                    await fn(item);
+                } catch (error: unknown) {
+                    state.failed = true;
+                    throw error;
+                }
+            }
+        };
+        const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+        await Promise.all(workers);
+    }
+
+    /**
+     * Reads the secret configuration for an environment from a configuration file.
+     * Supports flat configs, environment-specific configs and src/dst sync configs (src is used).
+     * Environments that use `$extends` include the variables of their parent environments.
+     * Variables are returned in their object form, with environment variable references in the
+     * URIs substituted. Optional variables whose URI references an undefined variable fall back
+     * to their default, or are left out if they have none.
      * 
      * @param {string} configPath - Path to the JSON configuration file
      * @param {string} [environment='development'] - Environment name for environment-specific configs
-     * @returns {Promise<Record<string, string>>} Object mapping environment variables to their secret values
-     * @throws {Error} If the config file is invalid, environment not found, or secret retrieval fails
+     * @returns {Record<string, SecretEntry>} Object mapping environment variables to their entries
+     * @throws {Error} If the config file is invalid, environment not found, or a referenced variable is not defined
      */
-    async loadSecrets(configPath: string, environment: string = 'development'): Promise<Record<string, string>> {
+    getSecretConfig(configPath: string, environment: string = 'development'): Record<string, SecretEntry> {
         const configContent = readFileSync(configPath, 'utf-8');
-        const config = JSON.parse(configContent);
+        const config = omitSettings(JSON.parse(configContent));
         
         // Determine if this is a flat config or environment-based config
-        const isFlatConfig = Object.values(config).every(value => typeof value === 'string');
+        const isFlatConfig = isVariableMap(config);
         
         // Get the appropriate config based on structure
         let rawConfig: any = isFlatConfig 
             ? config 
-            : (config[environment] || null);
+            : resolveEnvironment(config, environment);
 
         if (!isFlatConfig && !rawConfig) {
             throw new Error(`Environment '${environment}' not found in config file. Available environments: ${Object.keys(config).join(', ')}`);
@@ -95,39 +282,229 @@ export class SecretsManager {
             ? rawConfig.src
             : rawConfig;
 
-        // Group secrets by provider prefix
-        const secretsByProvider = new Map<string, Map<string, string>>();
-        const secrets: Record<string, string> = {};
-
-        for (const [envVar, secretPath] of Object.entries(secretsConfig)) {
+        const resolved: Record<string, SecretEntry> = {};
+        for (const [envVar, value] of Object.entries(secretsConfig)) {
+            const entry = normalizeSecretEntry(envVar, value);
+            if (entry.uri === undefined) {
+                resolved[envVar] = entry;
+                continue;
+            }
             // Substitute environment variables in the secret path
-            const resolvedPath = this.substituteVariables(secretPath);
-            const prefix = Array.from(this.providers.keys()).find(p => resolvedPath.startsWith(p));
+            try {
+                resolved[envVar] = { ...entry, uri: this.substituteVariables(entry.uri) };
+            } catch (error) {
+                if (!isOptionalEntry(entry)) {
+                    throw error;
+                }
+                this.warnOptionalFallback(envVar, entry, error);
+                if (entry.default !== undefined) {
+                    resolved[envVar] = { ...entry, uri: undefined };
+                }
+            }
+        }
+        return resolved;
+    }
+
+    /**
+     * Logs that an optional variable could not be resolved and what happens instead.
+     * 
+     * @param {string} envVar - The variable name
+     * @param {SecretEntry} entry - The variable entry
+     * @param {unknown} error - The error that occurred while resolving the variable
+     * @private
+     */
+    private warnOptionalFallback(envVar: string, entry: SecretEntry, error: unknown): void {
+        const reason = error instanceof Error ? error.message : String(error);
+        const action = entry.default !== undefined ? 'using default value' : 'leaving it out';
+        getLogger().warn(`${EMOJI.WARNING} Optional ${envVar} could not be resolved, ${action}: ${reason}`);
+    }
+
+    /**
+     * Loads secrets from a configuration file and retrieves their values from appropriate providers.
+     * Supports both flat configurations and environment-specific configurations.
+     * 
+     * Providers are queried in parallel. Within a provider, at most `options.concurrency` secrets
+     * are fetched at once. Providers with interactive authentication are prepared (logged in or
+     * unlocked) one after another before any fetching starts, so each prompt appears only once.
+     * 
+     * Each underlying secret is fetched only once per call, even when several variables read
+     * different `::jsonKey` fields from it.
+     * 
+     * Variables marked optional that fail to resolve fall back to their default value,
+     * or are left out of the result if they have none.
+     * 
+     * Values can be templates that combine other variables and inline secret URIs, e.g.
+     * `postgres://{{ DB_USER }}:{{ op://vault/db/password }}@host/db`. Templates are rendered
+     * after fetching, in dependency order, and reference cycles are reported as errors. `{{ name }}`
+     * is only a reference if `name` is a variable of the config; `\{{` is a literal `{{`.
+     * 
+     * @param {string} configPath - Path to the JSON configuration file
+     * @param {string} [environment='development'] - Environment name for environment-specific configs
+     * @param {object} [options] - Optional parameters
+     * @param {number} [options.concurrency] - Maximum parallel fetches per provider (defaults to DEFAULT_CONCURRENCY)
+     * @returns {Promise<Record<string, string>>} Object mapping environment variables to their secret values
+     * @throws {Error} If the config file is invalid, environment not found, or secret retrieval fails
+     */
+    async loadSecrets(
+        configPath: string,
+        environment: string = 'development',
+        options: { concurrency?: number } = {}
+    ): Promise<Record<string, string>> {
+        const secretsConfig = this.getSecretConfig(configPath, environment);
+
+        // Group secrets by provider prefix. Each fetch is either for a variable or, when envVar
+        // is null, for a URI used inline in a template value.
+        const secretsByProvider = new Map<string, { envVar: string | null, path: string }[]>();
+        const values = new Map<string, string>();
+        const templates = new Map<string, TemplateReference[]>();
+        const isVariable = (name: string) => Object.hasOwn(secretsConfig, name);
+
+        const addFetch = (prefix: string, envVar: string | null, path: string) => {
+            if (!secretsByProvider.has(prefix)) {
+                secretsByProvider.set(prefix, []);
+            }
+            secretsByProvider.get(prefix)!.push({ envVar, path });
+        };
+
+        for (const [envVar, entry] of Object.entries(secretsConfig)) {
+            if (entry.uri === undefined) {
+                // No URI, use the default value
+                values.set(envVar, entry.default!);
+                continue;
+            }
+            const resolvedPath = entry.uri;
+
+            const references = parseTemplate(resolvedPath, isVariable);
+            if (references.length > 0 || hasTemplateEscape(resolvedPath)) {
+                templates.set(envVar, references);
+                for (const reference of references) {
+                    if (reference.kind === 'variable') {
+                        continue;
+                    }
+                    const prefix = this.findPrefix(reference.target);
+                    if (!prefix) {
+                        throw new Error(`Value of ${envVar} references '${reference.target}', which has no matching provider`);
+                    }
+                    addFetch(prefix, null, reference.target);
+                }
+                continue;
+            }
+
+            const prefix = this.findPrefix(resolvedPath);
             if (!prefix) {
                 // If no provider prefix is found, treat it as a regular value
-                secrets[envVar] = resolvedPath;
+                values.set(envVar, resolvedPath);
                 continue;
             }
-            
-            if (!secretsByProvider.has(prefix)) {
-                secretsByProvider.set(prefix, new Map());
-            }
-            secretsByProvider.get(prefix)!.set(envVar, resolvedPath);
+            addFetch(prefix, envVar, resolvedPath);
         }
 
-        // Process all providers sequentially
+        // Check for reference cycles before fetching anything
+        const templateOrder = orderTemplates(new Map(Array.from(templates, ([envVar, references]) => [
+            envVar,
+            references.filter(r => r.kind === 'variable' && templates.has(r.target)).map(r => r.target)
+        ])));
+
+        // Prepare providers one at a time so interactive prompts don't overlap
         for (const [prefix, secretGroup] of secretsByProvider) {
             const provider = this.providers.get(prefix)!;
-            for (const [envVar, secretPath] of secretGroup.entries()) {
+            try {
+                await provider.prepare?.(secretGroup.map(item => item.path));
+            } catch (error: unknown) {
+                if (error instanceof ProviderTimeoutError) {
+                    const variables = secretGroup.map(({ envVar, path }) => `${envVar ?? 'template value'} (${path})`).join(', ');
+                    throw new ProviderTimeoutError(`Timed out preparing ${prefix} to fetch ${variables}:\n- ${error.message}`, { cause: error });
+                }
+                throw error;
+            }
+        }
+
+        // Fetch from all providers in parallel, limiting concurrency within each provider.
+        // Base secrets are cached for the duration of this call, keyed on the path without the JSON key.
+        const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+        const fetched = new Map<string, Promise<string>>();
+        const inlineValues = new Map<string, string>();
+        const inlineErrors = new Map<string, unknown>();
+        // A failure stops the fetches of every provider, so no more prompts are opened for a run that fails anyway
+        const fetchState = { failed: false };
+        await Promise.all(Array.from(secretsByProvider, ([prefix, secretGroup]) => {
+            const provider = this.providers.get(prefix)!;
+            return this.runWithConcurrency(secretGroup, concurrency, async ({ envVar, path: secretPath }) => {
                 try {
-                    console.info(`${EMOJI.FETCHING} Fetching ${envVar} from ${secretPath}`);
-                    const secretValue = await provider.getSecret(secretPath);
-                    secrets[envVar] = secretValue;
+                    getLogger().info(`${EMOJI.FETCHING} Fetching ${envVar ?? 'template value'} from ${secretPath}`);
+                    const { basePath, jsonKey } = this.splitJsonKey(secretPath);
+                    if (!fetched.has(basePath)) {
+                        fetched.set(basePath, provider.getSecret(basePath));
+                    }
+                    const baseValue = await fetched.get(basePath)!;
+                    const secretValue = jsonKey
+                        ? provider.returnPossibleJsonValue(baseValue, jsonKey)
+                        : baseValue;
+                    if (envVar === null) {
+                        inlineValues.set(secretPath, secretValue);
+                    } else {
+                        values.set(envVar, secretValue);
+                    }
                 } catch (error: unknown) {
+                    if (envVar === null) {
+                        // Reported by the template variables that use it
+                        inlineErrors.set(secretPath, error);
+                        return;
+                    }
+                    const entry = secretsConfig[envVar];
+                    if (isOptionalEntry(entry)) {
+                        this.warnOptionalFallback(envVar, entry, error);
+                        if (entry.default !== undefined) {
+                            values.set(envVar, entry.default);
+                        }
+                        return;
+                    }
                     const err = error instanceof Error ? error.message : String(error);
+                    if (error instanceof ProviderTimeoutError) {
+                        throw new ProviderTimeoutError(`Timed out getting value for ${envVar} using ${secretPath}:\n- ${err}`, { cause: error });
+                    }
                     // If an error occurs, throw it immediately
-                    throw new Error(`Failed to get value for ${envVar} using ${secretPath}:\n- ${err}`);
+                    throw new Error(`Failed to get value for ${envVar} using ${secretPath}:\n- ${err}`, { cause: error });
+                }
+            }, fetchState);
+        }));
+
+        // Render template values once everything they reference is available
+        for (const envVar of templateOrder) {
+            const entry = secretsConfig[envVar];
+            try {
+                values.set(envVar, renderTemplate(entry.uri!, isVariable, (reference) => {
+                    if (reference.kind === 'uri') {
+                        if (inlineErrors.has(reference.target)) {
+                            const err = inlineErrors.get(reference.target);
+                            throw new Error(`${reference.target}: ${err instanceof Error ? err.message : String(err)}`, { cause: err });
+                        }
+                        return inlineValues.get(reference.target)!;
+                    }
+                    if (!values.has(reference.target)) {
+                        throw new Error(`Referenced variable ${reference.target} has no value`);
+                    }
+                    return values.get(reference.target)!;
+                }));
+            } catch (error: unknown) {
+                if (isOptionalEntry(entry)) {
+                    this.warnOptionalFallback(envVar, entry, error);
+                    if (entry.default !== undefined) {
+                        values.set(envVar, entry.default);
+                    }
+                    continue;
                 }
+                const err = error instanceof Error ? error.message : String(error);
+                throw new Error(`Failed to get value for ${envVar} using ${entry.uri}:\n- ${err}`, { cause: error });
+            }
+        }
+
+        // Return the values in the order they appear in the config
+        const secrets: Record<string, string> = {};
+        for (const envVar of Object.keys(secretsConfig)) {
+            // Optional variables that failed to resolve without a default are left out
+            if (values.has(envVar)) {
+                secrets[envVar] = values.get(envVar)!;
             }
         }
 
@@ -1,13 +1,18 @@
 import { readFileSync } from 'fs';
-import { SecretProvider } from './SecretProvider.js';
+import { SecretProvider, SecretConfig } from './SecretProvider.js';
 import { select } from '@inquirer/prompts';
 import { EMOJI } from './constants.js';
+import { getLogger } from './context.js';
+import { normalizeSecretEntry, isOptionalEntry } from './configEntries.js';
+import { resolveEnvironment } from './environments.js';
+import { assertInteractive } from './interactive.js';
+import { InvalidPathError } from './errors.js';
 
 /**
  * Configuration structure for sync operations
  */
 export interface SyncConfig {
-    src: Record<string, string>;
+    src: SecretConfig;
     dst: Record<string, string | string[]>;
 }
 
@@ -57,6 +62,7 @@ export class SyncManager {
     /**
      * Loads sync configuration from a file.
      * Supports both flat configs and environment-nested configs.
+     * Environments that use `$extends` include the src and dst entries of their parents.
      * 
      * @param {string} configPath - Path to the configuration file
      * @param {string} [environment] - Environment name for nested configs
@@ -71,8 +77,11 @@ export class SyncManager {
             return config as SyncConfig;
         }
 
-        if (environment && config[environment] && this.isSyncConfig(config[environment])) {
-            return config[environment] as SyncConfig;
+        if (environment) {
+            const resolved = resolveEnvironment(config, environment);
+            if (resolved && this.isSyncConfig(resolved)) {
+                return resolved as SyncConfig;
+            }
         }
 
         return null;
@@ -97,6 +106,7 @@ export class SyncManager {
      * @param {string} sourceValue - New value from source
      * @param {SecretProvider} destProvider - Destination provider for fetching current value
      * @returns {Promise<'overwrite' | 'skip' | 'overwrite-all' | 'quit'>} User's choice
+     * @throws {InteractionRequiredError} In non-interactive mode, instead of prompting
      */
     private async promptConflict(
         secretName: string,
@@ -104,6 +114,10 @@ export class SyncManager {
         sourceValue: string,
         destProvider: SecretProvider
     ): Promise<'overwrite' | 'skip' | 'overwrite-all' | 'quit'> {
+        assertInteractive(
+            `decide what to do with '${secretName}', which already exists at '${destination}'`,
+            'Pass --yes to overwrite existing secrets.'
+        );
         const action = await select({
             message: `Secret '${secretName}' already exists at '${destination}'. What would you like to do?`,
             choices: [
@@ -156,6 +170,7 @@ export class SyncManager {
      * @param {boolean} [dryRun=false] - If true, only show what would be synced
      * @param {boolean} [skipPrompts=false] - If true, skip conflict prompts and overwrite
      * @returns {Promise<SyncResult[]>} Array of sync results
+     * @throws {InteractionRequiredError} If a destination secret exists and prompts are disabled
      */
     async sync(
         syncConfig: SyncConfig,
@@ -191,7 +206,17 @@ export class SyncManager {
                 continue;
             }
 
-            const sourcePath = syncConfig.src[secretName];
+            const sourceEntry = normalizeSecretEntry(secretName, syncConfig.src[secretName]);
+            const sourcePath = sourceEntry.uri;
+            if (sourcePath === undefined) {
+                results.push({
+                    secretName,
+                    destination: 'N/A',
+                    success: false,
+                    error: `Secret '${secretName}' has no source URI to sync from`
+                });
+                continue;
+            }
             const sourceProvider = this.getProviderForPath(sourcePath);
 
             if (!sourceProvider) {
@@ -206,9 +231,20 @@ export class SyncManager {
 
             let sourceValue: string;
             try {
-                console.log(`${EMOJI.FETCHING} Fetching ${secretName} from ${sourcePath}`);
+                getLogger().info(`${EMOJI.FETCHING} Fetching ${secretName} from ${sourcePath}`);
                 sourceValue = await sourceProvider.getSecret(sourcePath);
             } catch (error) {
+                if (isOptionalEntry(sourceEntry)) {
+                    // Optional secrets that can't be read are not synced
+                    getLogger().info(`${EMOJI.SKIPPED} Skipping optional ${secretName}: ${error instanceof Error ? error.message : String(error)}`);
+                    results.push({
+                        secretName,
+                        destination: 'N/A',
+                        success: true,
+                        skipped: true
+                    });
+                    continue;
+                }
                 results.push({
                     secretName,
                     destination: 'N/A',
@@ -236,7 +272,7 @@ export class SyncManager {
                 }
 
                 if (dryRun) {
-                    console.log(`[DRY RUN] Would sync ${secretName} to ${destination}`);
+                    getLogger().info(`[DRY RUN] Would sync ${secretName} to ${destination}`);
                     results.push({
                         secretName,
                         destination,
@@ -251,12 +287,12 @@ export class SyncManager {
                     const choice = await this.promptConflict(secretName, destination, sourceValue, destProvider);
                     
                     if (choice === 'quit') {
-                        console.log('Sync operation cancelled by user');
+                        getLogger().info('Sync operation cancelled by user');
                         return results;
                     }
                     
                     if (choice === 'skip') {
-                        console.log(`${EMOJI.SKIPPED} Skipping ${secretName} → ${destination}`);
+                        getLogger().info(`${EMOJI.SKIPPED} Skipping ${secretName} → ${destination}`);
                         results.push({
                             secretName,
                             destination,
@@ -272,14 +308,14 @@ export class SyncManager {
                 }
 
                 try {
-                    console.log(`${EMOJI.UPDATING} Writing ${secretName} to ${destination}`);
+                    getLogger().info(`${EMOJI.UPDATING} Writing ${secretName} to ${destination}`);
                     await destProvider.setSecret(destination, sourceValue);
                     results.push({
                         secretName,
                         destination,
                         success: true
                     });
-                    console.log(`${EMOJI.SUCCESS} Successfully synced ${secretName} to ${destination}`);
+                    getLogger().info(`${EMOJI.SUCCESS} Successfully synced ${secretName} to ${destination}`);
                 } catch (error) {
                     results.push({
                         secretName,
@@ -287,7 +323,7 @@ export class SyncManager {
                         success: false,
                         error: `Failed to write to destination: ${error instanceof Error ? error.message : String(error)}`
                     });
-                    console.error(`❌ Failed to sync ${secretName} to ${destination}: ${error instanceof Error ? error.message : String(error)}`);
+                    getLogger().error(`❌ Failed to sync ${secretName} to ${destination}: ${error instanceof Error ? error.message : String(error)}`);
                 }
             }
         }
@@ -295,6 +331,81 @@ export class SyncManager {
         return results;
     }
 
+    /**
+     * Copies one secret to another URI, in the same or another provider, with the same
+     * conflict handling as sync. The source URI is used as the secret's name in prompts and results.
+     * 
+     * @param {string} source - URI to copy from, optionally with a ::jsonKey
+     * @param {string} destination - URI to write to
+     * @param {boolean} [dryRun=false] - If true, only show what would be copied
+     * @param {boolean} [skipPrompts=false] - If true, overwrite an existing destination without asking
+     * @returns {Promise<SyncResult[]>} The result of the copy, empty if the user quit
+     * @throws {InvalidPathError} If the destination has a ::jsonKey
+     * @throws {Error} If the destination is the source itself
+     * @throws {InteractionRequiredError} If the destination exists and prompts are disabled
+     */
+    async copy(source: string, destination: string, dryRun: boolean = false, skipPrompts: boolean = false): Promise<SyncResult[]> {
+        if (destination.includes('::')) {
+            throw new InvalidPathError(`Cannot write to '${destination}': a ::jsonKey selects part of a value and can only be read`);
+        }
+        if (source === destination) {
+            throw new Error(`Source and destination are the same secret: ${source}`);
+        }
+        return this.sync({ src: { [source]: source }, dst: { [source]: destination } }, undefined, dryRun, skipPrompts);
+    }
+
+    /**
+     * Moves one secret: copies it like copy, reads both values back to check that the
+     * destination has the source's value, and only then deletes the source.
+     * For providers with multiple fields per item only the source field is deleted, and the
+     * item along with it if no other field has a value.
+     * If the check or the deletion fails, the source is kept and the result is marked failed.
+     * 
+     * @param {string} source - URI to move
+     * @param {string} destination - URI to move it to
+     * @param {boolean} [dryRun=false] - If true, only show what would be moved
+     * @param {boolean} [skipPrompts=false] - If true, overwrite an existing destination without asking
+     * @returns {Promise<SyncResult[]>} The result of the move, empty if the user quit
+     * @throws {InvalidPathError} If either URI has a ::jsonKey, or the source provider can only delete whole items
+     * @throws {Error} If the destination is the source itself
+     * @throws {InteractionRequiredError} If the destination exists and prompts are disabled
+     */
+    async move(source: string, destination: string, dryRun: boolean = false, skipPrompts: boolean = false): Promise<SyncResult[]> {
+        if (source.includes('::')) {
+            throw new InvalidPathError(`Cannot move '${source}': a ::jsonKey selects part of a value, and the whole secret would be deleted`);
+        }
+        const sourceProvider = this.getProviderForPath(source);
+        if (sourceProvider?.supportsMultipleFields && !sourceProvider.deleteField) {
+            throw new InvalidPathError(`Cannot move '${source}': its provider can only delete whole items, which would also delete the item's other fields`);
+        }
+        const results = await this.copy(source, destination, dryRun, skipPrompts);
+        const [result] = results;
+        if (!result?.success || result.skipped) {
+            return results;
+        }
+        if (dryRun) {
+            getLogger().info(`[DRY RUN] Would delete ${source} after checking the copy`);
+            return results;
+        }
+
+        const destProvider = this.getProviderForPath(destination)!;
+        try {
+            getLogger().info(`${EMOJI.FETCHING} Checking ${destination} against ${source}`);
+            const [expected, written] = await Promise.all([sourceProvider!.getSecret(source), destProvider.getSecret(destination)]);
+            if (written !== expected) {
+                throw new Error(`${destination} doesn't have the value of ${source}`);
+            }
+            getLogger().info(`${EMOJI.DELETING} Deleting ${source}`);
+            await sourceProvider!.deleteValue(source);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            result.success = false;
+            result.error = `Copied, but the source was kept: ${reason}`;
+            getLogger().error(`❌ Failed to move ${source} to ${destination}: ${reason}`);
+        }
+        return results;
+    }
+
     /**
      * Prints a summary of sync results.
      * 
@@ -306,18 +417,18 @@ export class SyncManager {
         const skipped = results.filter(r => r.skipped).length;
         const total = results.length;
 
-        console.log('\n' + '='.repeat(50));
-        console.log('Sync Summary:');
-        console.log(`  Total operations: ${total}`);
-        console.log(`  ${EMOJI.SUCCESS} Successful: ${successful}`);
-        console.log(`  ${EMOJI.SKIPPED} Skipped: ${skipped}`);
-        console.log(`  ${EMOJI.ERROR} Failed: ${failed}`);
-        console.log('='.repeat(50));
+        getLogger().info('\n' + '='.repeat(50));
+        getLogger().info('Sync Summary:');
+        getLogger().info(`  Total operations: ${total}`);
+        getLogger().info(`  ${EMOJI.SUCCESS} Successful: ${successful}`);
+        getLogger().info(`  ${EMOJI.SKIPPED} Skipped: ${skipped}`);
+        getLogger().info(`  ${EMOJI.ERROR} Failed: ${failed}`);
+        getLogger().info('='.repeat(50));
 
         if (failed > 0) {
-            console.log('\nFailed operations:');
+            getLogger().info('\nFailed operations:');
             results.filter(r => !r.success).forEach(r => {
-                console.log(`  - ${r.secretName} → ${r.destination}: ${r.error}`);
+                getLogger().info(`  - ${r.secretName} → ${r.destination}: ${r.error}`);
             });
         }
     }
@@ -0,0 +1,104 @@
+import { SecretEntry } from './SecretProvider.js';
+import { RETRY_KEY } from './retry.js';
+import { TIMEOUT_KEY } from './timeouts.js';
+import { PLUGINS_KEY } from './plugins.js';
+
+/**
+ * Top-level config keys that hold settings rather than variables or environments.
+ */
+export const SETTINGS_KEYS = [RETRY_KEY, TIMEOUT_KEY, PLUGINS_KEY];
+
+/**
+ * Keys allowed in the object form of a variable.
+ */
+const SECRET_ENTRY_KEYS = ['uri', 'optional', 'default', 'description', 'required'];
+
+/**
+ * Checks whether a config value is a variable entry object rather than an environment
+ * or a src/dst block. An entry only has the known entry keys and a string uri or default.
+ *
+ * @param {unknown} value - The config value to check
+ * @returns {boolean} True if the value is a variable entry
+ */
+export function isSecretEntry(value: unknown): value is SecretEntry {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return false;
+    }
+    const entry = value as Record<string, unknown>;
+    const keys = Object.keys(entry);
+    return keys.length > 0 &&
+        keys.every(key => SECRET_ENTRY_KEYS.includes(key)) &&
+        (typeof entry.uri === 'string' || typeof entry.default === 'string');
+}
+
+/**
+ * Checks whether an object maps variable names to URIs or entries,
+ * i.e. it is a flat config or a single environment rather than a map of environments.
+ *
+ * @param {Record<string, unknown>} config - The object to check
+ * @returns {boolean} True if every value is a string or a variable entry
+ */
+export function isVariableMap(config: Record<string, unknown>): boolean {
+    return Object.values(config).every(value => typeof value === 'string' || isSecretEntry(value));
+}
+
+/**
+ * Converts a config value to its object form and validates it.
+ *
+ * @param {string} envVar - The variable name, for error messages
+ * @param {unknown} value - The config value (a URI string or an entry object)
+ * @returns {SecretEntry} The entry
+ * @throws {Error} If the value is not a string or a valid entry
+ */
+export function normalizeSecretEntry(envVar: string, value: unknown): SecretEntry {
+    if (typeof value === 'string') {
+        return { uri: value };
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error(`Invalid config for '${envVar}': expected a string or an object with a "uri"`);
+    }
+
+    const entry = value as Record<string, unknown>;
+    const unknownKeys = Object.keys(entry).filter(key => !SECRET_ENTRY_KEYS.includes(key));
+    if (unknownKeys.length > 0) {
+        throw new Error(`Invalid config for '${envVar}': unknown key(s) ${unknownKeys.join(', ')}. Allowed keys: ${SECRET_ENTRY_KEYS.join(', ')}`);
+    }
+    for (const key of ['uri', 'default', 'description']) {
+        if (entry[key] !== undefined && typeof entry[key] !== 'string') {
+            throw new Error(`Invalid config for '${envVar}': "${key}" must be a string`);
+        }
+    }
+    for (const key of ['optional', 'required']) {
+        if (entry[key] !== undefined && typeof entry[key] !== 'boolean') {
+            throw new Error(`Invalid config for '${envVar}': "${key}" must be true or false`);
+        }
+    }
+    if (entry.uri === undefined && entry.default === undefined) {
+        throw new Error(`Invalid config for '${envVar}': either "uri" or "default" is required`);
+    }
+    if (entry.optional === true && entry.required === true) {
+        throw new Error(`Invalid config for '${envVar}': "optional" and "required" can't both be true`);
+    }
+
+    return entry as SecretEntry;
+}
+
+/**
+ * Checks whether a variable may fall back to its default or be left out when it fails to resolve.
+ *
+ * @param {SecretEntry} entry - The variable entry
+ * @returns {boolean} True if the entry is optional
+ */
+export function isOptionalEntry(entry: SecretEntry): boolean {
+    return entry.optional === true || entry.required === false;
+}
+
+/**
+ * Removes the top-level settings keys from a parsed config, leaving only variables or environments.
+ *
+ * @param {Record<string, any>} config - The parsed config file
+ * @returns {Record<string, any>} The config without settings keys
+ */
+export function omitSettings(config: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(config).filter(([key]) => !SETTINGS_KEYS.includes(key)));
+}
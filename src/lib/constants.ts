@@ -16,5 +16,45 @@ export const EMOJI = {
     ERROR: '❌',
     SKIPPED: '⏭️',
     WARNING: '⚠️',
+    RETRYING: '🔁',
 } as const;
 
+
+/**
+ * Regular expression source of a URI scheme, the part of a secret URI before `://`.
+ * Besides letters and digits, schemes may contain `+`, `.` and `-` as in RFC 3986, and `_`.
+ * Every pattern that matches secret URIs is built from it, so plugin schemes work everywhere.
+ */
+export const SCHEME_SOURCE = '[A-Za-z][\\w+.-]*';
+
+/**
+ * Default maximum number of secrets fetched in parallel from a single provider
+ */
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Default time limit in milliseconds for a single provider CLI command or SDK request
+ */
+export const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Exit codes of the salakala CLI, apart from the exit code of the command started by `salakala run`
+ */
+export const EXIT_CODES = {
+    /** Any error without a more specific exit code */
+    ERROR: 1,
+    /** A prompt or interactive login was needed, but salakala runs in non-interactive mode */
+    INTERACTION_REQUIRED: 2,
+    /** A secret or field doesn't exist */
+    SECRET_NOT_FOUND: 3,
+    /** Credentials are missing or were rejected */
+    AUTHENTICATION: 4,
+    /** A secret URI doesn't match the path format of its provider */
+    INVALID_PATH: 5,
+    /** A `::jsonKey` doesn't exist in the value of a secret */
+    JSON_KEY_NOT_FOUND: 6,
+    /** A provider CLI isn't installed or a provider service can't be reached */
+    PROVIDER_UNAVAILABLE: 7,
+    /** A provider CLI command or SDK request didn't finish in time */
+    TIMEOUT: 8,
+} as const;
@@ -0,0 +1,96 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Receives the progress messages salakala writes while it works, like "Fetching X from Y".
+ * Messages are single lines of text that may start with an emoji.
+ */
+export interface Logger {
+    /** Progress of the operation, like fetching, writing and logging in */
+    info(message: string): void;
+    /** Something that didn't stop the operation, like a retry or an optional variable that fell back */
+    warn(message: string): void;
+    /** A failure, usually followed by a thrown error */
+    error(message: string): void;
+}
+
+/**
+ * Writes messages to the console. Used by the CLI, and whenever no other logger is set.
+ * console is looked up on every call, so redirecting console.log also redirects these messages.
+ */
+export const consoleLogger: Logger = {
+    info: (message) => console.log(message),
+    warn: (message) => console.log(message),
+    error: (message) => console.error(message),
+};
+
+/**
+ * Writes all messages to stderr, for commands whose stdout is not salakala's own, like `salakala run`.
+ */
+export const stderrLogger: Logger = {
+    info: (message) => console.error(message),
+    warn: (message) => console.error(message),
+    error: (message) => console.error(message),
+};
+
+/**
+ * Discards all messages. The default logger of the library API.
+ */
+export const silentLogger: Logger = {
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+};
+
+/**
+ * Settings that apply to everything done within one library call.
+ */
+export interface CallContext {
+    /** Where progress messages go */
+    logger: Logger;
+    /** Aborts pending provider commands and requests when signaled */
+    signal?: AbortSignal;
+    /** False disables prompts and interactive logins, as in non-interactive mode */
+    interactive?: boolean;
+}
+
+const storage = new AsyncLocalStorage<CallContext>();
+
+/**
+ * Runs a function with the given logger, abort signal and interactivity.
+ * Everything the function does, including provider CLI commands and SDK requests
+ * started from it, uses them instead of the defaults of the CLI.
+ *
+ * @param {CallContext} context - The settings to use
+ * @param {() => Promise<T>} fn - The function to run
+ * @returns {Promise<T>} The result of the function
+ */
+export function runInContext<T>(context: CallContext, fn: () => Promise<T>): Promise<T> {
+    return storage.run(context, fn);
+}
+
+/**
+ * Gets the logger of the current call.
+ *
+ * @returns {Logger} The logger passed to runInContext, or consoleLogger outside of it
+ */
+export function getLogger(): Logger {
+    return storage.getStore()?.logger ?? consoleLogger;
+}
+
+/**
+ * Gets the abort signal of the current call.
+ *
+ * @returns {AbortSignal | undefined} The signal passed to runInContext, if any
+ */
+export function getSignal(): AbortSignal | undefined {
+    return storage.getStore()?.signal;
+}
+
+/**
+ * Checks whether the current call has disabled prompts.
+ *
+ * @returns {boolean} True if runInContext was given `interactive: false`
+ */
+export function isInteractionDisabled(): boolean {
+    return storage.getStore()?.interactive === false;
+}
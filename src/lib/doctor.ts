@@ -0,0 +1,167 @@
+import { SecretProvider, SecretEntry, HealthCheck, ProviderHealth } from './SecretProvider.js';
+import { parseTemplate } from './templates.js';
+import { BUILTIN_PROVIDERS } from './plugins.js';
+
+/**
+ * Health report for one provider used by a configuration.
+ */
+export interface ProviderReport {
+    /** URI prefix of the provider (e.g., 'op://') */
+    prefix: string;
+    /** Human-readable provider name */
+    name: string;
+    /** Whether the provider's CLI is installed, left out for providers that use an SDK */
+    cli?: HealthCheck;
+    /** Whether a session or credentials are available */
+    credentials: HealthCheck;
+    /** Whether the first secret of the provider in the configuration resolves */
+    probe: HealthCheck & { uri: string };
+}
+
+/**
+ * Collects the secret URIs of a configuration per provider, including URIs used inline in templates.
+ *
+ * @param {Record<string, SecretEntry>} config - The resolved configuration entries
+ * @param {Map<string, SecretProvider>} providers - Map of provider prefixes to provider instances
+ * @returns {Map<string, string[]>} Map of provider prefixes to URIs, in config order
+ */
+export function collectProviderUris(config: Record<string, SecretEntry>, providers: Map<string, SecretProvider>): Map<string, string[]> {
+    const urisByProvider = new Map<string, string[]>();
+    const findPrefix = (uri: string) => Array.from(providers.keys()).find(prefix => uri.startsWith(prefix));
+
+    const add = (uri: string) => {
+        const prefix = findPrefix(uri);
+        if (!prefix) {
+            return;
+        }
+        if (!urisByProvider.has(prefix)) {
+            urisByProvider.set(prefix, []);
+        }
+        urisByProvider.get(prefix)!.push(uri);
+    };
+
+    for (const entry of Object.values(config)) {
+        if (entry.uri === undefined) {
+            continue;
+        }
+        const references = parseTemplate(entry.uri, name => Object.hasOwn(config, name));
+        if (references.length === 0) {
+            add(entry.uri);
+        }
+        for (const reference of references) {
+            if (reference.kind === 'uri') {
+                add(reference.target);
+            }
+        }
+    }
+    return urisByProvider;
+}
+
+/**
+ * Checks each provider used by a configuration: whether its CLI is installed,
+ * whether credentials are available, and whether one of its secrets resolves.
+ *
+ * The probe is skipped when the checks show that reading a secret would fail
+ * or start an interactive login. Secret values are never included in the report.
+ *
+ * @param {Record<string, SecretEntry>} config - The resolved configuration entries
+ * @param {Map<string, SecretProvider>} providers - Map of provider prefixes to provider instances
+ * @param {(prefix: string) => string} [getName] - Gives the display name of a provider (defaults to the built-in providers' names)
+ * @returns {Promise<ProviderReport[]>} One report per provider, in the order the providers first appear in the config
+ */
+export async function runDoctor(
+    config: Record<string, SecretEntry>,
+    providers: Map<string, SecretProvider>,
+    getName: (prefix: string) => string = (prefix) => BUILTIN_PROVIDERS.find(p => p.scheme === prefix)?.displayName ?? prefix
+): Promise<ProviderReport[]> {
+    const reports: ProviderReport[] = [];
+
+    // Check providers one at a time so their CLI output doesn't interleave
+    for (const [prefix, uris] of collectProviderUris(config, providers)) {
+        const provider = providers.get(prefix)!;
+        let health: ProviderHealth;
+        try {
+            health = await provider.checkHealth();
+        } catch (error: unknown) {
+            health = { credentials: { status: 'error', detail: error instanceof Error ? error.message : String(error) } };
+        }
+
+        reports.push({
+            prefix,
+            name: getName(prefix),
+            ...health,
+            probe: { uri: uris[0], ...await probeSecret(provider, uris[0], health) },
+        });
+    }
+    return reports;
+}
+
+/**
+ * Reads a secret to check that it resolves, unless the health checks show it can't be read without help.
+ *
+ * @param {SecretProvider} provider - The provider of the secret
+ * @param {string} uri - The secret URI
+ * @param {ProviderHealth} health - The provider's health check results
+ * @returns {Promise<HealthCheck>} The result of the probe
+ */
+async function probeSecret(provider: SecretProvider, uri: string, health: ProviderHealth): Promise<HealthCheck> {
+    if (health.cli?.status === 'error') {
+        return { status: 'skipped', detail: 'The CLI is not available' };
+    }
+    if (health.credentials.status === 'error') {
+        return { status: 'skipped', detail: 'No usable credentials' };
+    }
+    if (health.credentials.status === 'warning') {
+        return { status: 'skipped', detail: 'Reading a secret needs an interactive login' };
+    }
+
+    try {
+        const { scheme, path, jsonKey } = provider.parsePath(uri);
+        const value = await provider.getSecret(`${scheme}://${path}`);
+        if (jsonKey) {
+            provider.returnPossibleJsonValue(value, jsonKey);
+        }
+        return { status: 'ok', detail: 'Resolved' };
+    } catch (error: unknown) {
+        return { status: 'error', detail: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+/**
+ * Checks whether any check in the reports failed.
+ *
+ * @param {ProviderReport[]} reports - The provider reports
+ * @returns {boolean} True if at least one check has the 'error' status
+ */
+export function hasFailures(reports: ProviderReport[]): boolean {
+    return reports.some(report => [report.cli, report.credentials, report.probe].some(check => check?.status === 'error'));
+}
+
+/**
+ * Formats provider reports as a plain-text table with one row per check.
+ * Only the first line of multi-line details is shown.
+ *
+ * @param {ProviderReport[]} reports - The provider reports
+ * @returns {string} The table, ending with a newline
+ */
+export function formatDoctorTable(reports: ProviderReport[]): string {
+    const rows: string[][] = [['Provider', 'Check', 'Status', 'Details']];
+    for (const report of reports) {
+        const checks: [string, HealthCheck][] = [];
+        if (report.cli) {
+            checks.push(['CLI', report.cli]);
+        }
+        checks.push(['Credentials', report.credentials]);
+        checks.push(['Probe', { ...report.probe, detail: `${report.probe.uri}: ${report.probe.detail}` }]);
+
+        checks.forEach(([check, result], index) => {
+            const provider = index === 0 ? `${report.name} (${report.prefix})` : '';
+            rows.push([provider, check, result.status, result.detail.split('\n')[0]]);
+        });
+    }
+
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    return rows
+        .map(row => row.map((cell, column) => column === row.length - 1 ? cell : cell.padEnd(widths[column])).join('  '))
+        .join('\n') + '\n';
+}
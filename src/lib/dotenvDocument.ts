@@ -0,0 +1,150 @@
+import { escapeEnvValue } from './envEscape.js';
+
+/**
+ * Comment line that starts the variables salakala writes into a .env file
+ */
+export const BLOCK_BEGIN = '# salakala:begin';
+
+/**
+ * Comment line that ends the variables salakala writes into a .env file
+ */
+export const BLOCK_END = '# salakala:end';
+
+/**
+ * One line of a .env file, or several for an assignment with a multi-line quoted value.
+ */
+export interface DotenvLine {
+    /** The original text, without the final line break */
+    text: string;
+    /** The variable name if the line is an assignment */
+    key?: string;
+}
+
+/**
+ * A .env file split into lines that can be written back exactly as they were read.
+ */
+export interface DotenvDocument {
+    lines: DotenvLine[];
+    /** Whether the file ends with a line break */
+    finalNewline: boolean;
+    /** Whether lines end with \r\n, used for the lines that are added */
+    crlf: boolean;
+}
+
+/**
+ * Finds where a quoted value ends.
+ *
+ * @param {string} text - The rest of the file, starting after the opening quote
+ * @param {string} quote - The opening quote character
+ * @returns {number} Index of the closing quote, or -1 if the value is never closed
+ */
+function findClosingQuote(text: string, quote: string): number {
+    for (let i = 0; i < text.length; i++) {
+        // Backslash escapes only apply inside double quotes, as in parseEnvContent
+        if (quote === '"' && text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Parses a .env file into lines, keeping comments, blank lines, unparseable lines and the
+ * exact quoting of values. Multi-line quoted values are kept together with their assignment.
+ *
+ * @param {string} content - The file content
+ * @returns {DotenvDocument} The parsed document
+ */
+export function parseDotenv(content: string): DotenvDocument {
+    const finalNewline = content.endsWith('\n');
+    const rawLines = content === '' ? [] : (finalNewline ? content.slice(0, -1) : content).split('\n');
+    const document: DotenvDocument = { lines: [], finalNewline, crlf: rawLines[0]?.endsWith('\r') ?? false };
+
+    for (let i = 0; i < rawLines.length; i++) {
+        const text = rawLines[i];
+        // The \r of a CRLF line ending is kept in text, but isn't part of the value
+        const match = text.replace(/\r$/, '').match(/^\s*(?:export\s+)?([^\s#=][^=]*?)\s*=(.*)$/);
+        if (!match) {
+            document.lines.push({ text });
+            continue;
+        }
+
+        const [, key, value] = match;
+        const quote = value[0];
+        if (quote !== '"' && quote !== "'") {
+            document.lines.push({ text, key });
+            continue;
+        }
+
+        // A quoted value continues on the following lines until its closing quote
+        let rest = value.slice(1);
+        let end = i;
+        while (findClosingQuote(rest, quote) === -1 && end + 1 < rawLines.length) {
+            end++;
+            rest += '\n' + rawLines[end];
+        }
+        document.lines.push({ text: rawLines.slice(i, end + 1).join('\n'), key });
+        i = end;
+    }
+    return document;
+}
+
+/**
+ * Turns a parsed document back into file content.
+ *
+ * @param {DotenvDocument} document - The document
+ * @returns {string} The file content
+ */
+export function formatDotenv(document: DotenvDocument): string {
+    const content = document.lines.map(line => line.text).join('\n');
+    return document.finalNewline && document.lines.length > 0 ? content + '\n' : content;
+}
+
+/**
+ * Writes values into an existing .env file, between `# salakala:begin` and `# salakala:end`.
+ * Only the lines inside the block are replaced; everything else in the file is kept as it is.
+ * A file without the block, like one written by an older version, gets one in place of the first
+ * assignment of any of the variables, and the other assignments of those variables are removed.
+ *
+ * @param {string} content - The existing file content, empty for a new file
+ * @param {Record<string, string>} values - The values by variable name
+ * @returns {string} The new file content
+ * @throws {Error} If the file has a begin marker without an end marker
+ */
+export function mergeDotenv(content: string, values: Record<string, string>): string {
+    const document = parseDotenv(content);
+    const lineEnd = document.crlf ? '\r' : '';
+    const block: DotenvLine[] = [
+        BLOCK_BEGIN,
+        ...Object.entries(values).map(([key, value]) => `${key}=${escapeEnvValue(value)}`),
+        BLOCK_END,
+    ].map(text => ({ text: text + lineEnd }));
+
+    const isMarker = (line: DotenvLine, marker: string) => line.key === undefined && line.text.trim() === marker;
+    const begin = document.lines.findIndex(line => isMarker(line, BLOCK_BEGIN));
+    if (begin !== -1) {
+        const end = document.lines.findIndex((line, i) => i > begin && isMarker(line, BLOCK_END));
+        if (end === -1) {
+            throw new Error(`Found '${BLOCK_BEGIN}' without a matching '${BLOCK_END}'`);
+        }
+        document.lines.splice(begin, end - begin + 1, ...block);
+    } else {
+        const isManaged = (line: DotenvLine) => line.key !== undefined && Object.hasOwn(values, line.key);
+        const first = document.lines.findIndex(isManaged);
+        const kept = document.lines.filter(line => !isManaged(line));
+        if (first !== -1) {
+            // Nothing before the first assignment is removed, so it is at the same index in kept
+            kept.splice(first, 0, ...block);
+        } else {
+            if (kept.length > 0 && kept[kept.length - 1].text.trim() !== '') {
+                kept.push({ text: lineEnd });
+            }
+            kept.push(...block);
+        }
+        document.lines = kept;
+    }
+    document.finalNewline = true;
+    return formatDotenv(document);
+}
@@ -32,4 +32,49 @@ export function escapeEnvValue(value: string): string {
     }
     
     return value;
-} 
\ No newline at end of file
+}
+
+/**
+ * Escapes a value for use in a POSIX shell, wrapped in single quotes.
+ * Nothing is special inside single quotes except the quote itself, which is closed, escaped and reopened.
+ * 
+ * @param {string} value - The value to escape
+ * @returns {string} The quoted value
+ */
+export function escapeShellValue(value: string): string {
+    return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Escapes a value for use in the fish shell, wrapped in single quotes.
+ * Inside fish single quotes only backslash and the single quote need escaping.
+ * 
+ * @param {string} value - The value to escape
+ * @returns {string} The quoted value
+ */
+export function escapeFishValue(value: string): string {
+    return `'${value.replace(/[\\']/g, '\\$&')}'`;
+}
+
+/**
+ * Escapes a value for use in PowerShell, wrapped in single quotes.
+ * Single quotes are doubled, including the typographic quotes PowerShell also treats as single quotes.
+ * 
+ * @param {string} value - The value to escape
+ * @returns {string} The quoted value
+ */
+export function escapePowerShellValue(value: string): string {
+    return `'${value.replace(/['\u2018\u2019\u201A\u201B]/g, '$&$&')}'`;
+}
+
+/**
+ * Escapes a value as a YAML double-quoted scalar.
+ * JSON string escapes are valid in YAML; non-printable characters JSON leaves as-is are escaped as well.
+ * 
+ * @param {string} value - The value to escape
+ * @returns {string} The quoted value
+ */
+export function escapeYamlValue(value: string): string {
+    return JSON.stringify(value)
+        .replace(/[\u007f-\u009f\u2028\u2029\ufeff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
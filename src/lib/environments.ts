@@ -0,0 +1,106 @@
+import { isSecretEntry } from './configEntries.js';
+
+/**
+ * Key an environment uses to inherit variables from one or more other environments.
+ */
+export const EXTENDS_KEY = '$extends';
+
+type EnvironmentBlock = Record<string, any>;
+
+/**
+ * Checks whether a value is the src or dst map of a sync block, rather than a variable named src or dst.
+ *
+ * @param {unknown} value - The value of the src or dst key
+ * @returns {boolean} True if the value is a map of variables
+ */
+function isSyncMap(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !isSecretEntry(value);
+}
+
+/**
+ * Checks whether an environment block has the src/dst structure used for syncing.
+ * An environment that extends a sync environment may override only one of the two.
+ *
+ * @param {EnvironmentBlock} block - The environment block
+ * @returns {boolean} True if the block has a src or dst map
+ */
+function isSyncBlock(block: EnvironmentBlock): boolean {
+    return isSyncMap(block.src) || isSyncMap(block.dst);
+}
+
+/**
+ * Merges a child environment block over a parent block.
+ * Sync blocks merge their src and dst maps separately. When only one side is a sync block,
+ * the variables of the other side are merged into its src map.
+ *
+ * @param {EnvironmentBlock} parent - The inherited block
+ * @param {EnvironmentBlock} child - The block whose values take precedence
+ * @returns {EnvironmentBlock} The merged block
+ */
+function mergeBlocks(parent: EnvironmentBlock, child: EnvironmentBlock): EnvironmentBlock {
+    const parentIsSync = isSyncBlock(parent);
+    const childIsSync = isSyncBlock(child);
+    if (!parentIsSync && !childIsSync) {
+        return { ...parent, ...child };
+    }
+    return {
+        src: { ...(parentIsSync ? parent.src : parent), ...(childIsSync ? child.src : child) },
+        dst: { ...(parentIsSync ? parent.dst : {}), ...(childIsSync ? child.dst : {}) },
+    };
+}
+
+/**
+ * Reads the parent environment names of an environment block.
+ *
+ * @param {string} environment - Name of the environment, for error messages
+ * @param {EnvironmentBlock} block - The environment block
+ * @returns {string[]} The parent environment names, in order of increasing precedence
+ * @throws {Error} If the $extends value is not a string or a list of strings
+ */
+function getParents(environment: string, block: EnvironmentBlock): string[] {
+    const value = block[EXTENDS_KEY];
+    if (value === undefined) {
+        return [];
+    }
+    const parents = Array.isArray(value) ? value : [value];
+    if (parents.some(parent => typeof parent !== 'string')) {
+        throw new Error(`Invalid ${EXTENDS_KEY} in environment '${environment}': expected an environment name or a list of environment names`);
+    }
+    return parents;
+}
+
+/**
+ * Resolves an environment of a multi-environment config, including the variables it inherits
+ * through `$extends`. Parents are applied in the order they are listed, so later parents take
+ * precedence over earlier ones, and the environment's own values take precedence over all of them.
+ *
+ * @param {Record<string, any>} config - The parsed multi-environment config
+ * @param {string} environment - Name of the environment to resolve
+ * @returns {Record<string, any> | null} The merged environment block without the $extends key,
+ *                                       or null if the environment doesn't exist
+ * @throws {Error} If a parent environment doesn't exist or the inheritance chain has a cycle
+ */
+export function resolveEnvironment(config: Record<string, any>, environment: string): Record<string, any> | null {
+    const resolve = (name: string, chain: string[]): EnvironmentBlock => {
+        if (chain.includes(name)) {
+            throw new Error(`Circular ${EXTENDS_KEY} in config file: ${[...chain, name].join(' -> ')}`);
+        }
+        const block = config[name];
+        if (typeof block !== 'object' || block === null || Array.isArray(block)) {
+            throw new Error(`Environment '${chain[chain.length - 1]}' extends '${name}', which is not defined in the config file`);
+        }
+
+        let merged: EnvironmentBlock = {};
+        for (const parent of getParents(name, block)) {
+            merged = mergeBlocks(merged, resolve(parent, [...chain, name]));
+        }
+        const { [EXTENDS_KEY]: _, ...own } = block;
+        return mergeBlocks(merged, own);
+    };
+
+    const block = config[environment];
+    if (typeof block !== 'object' || block === null || Array.isArray(block)) {
+        return null;
+    }
+    return resolve(environment, []);
+}
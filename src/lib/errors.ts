@@ -0,0 +1,124 @@
+/**
+ * Base class of the errors salakala throws for failures that callers may want to handle differently.
+ * Failures that don't fit one of the subclasses are thrown as plain Errors.
+ * Wrapping errors keep the original one as their `cause`.
+ */
+export class SalakalaError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The secret, item, entry or field doesn't exist in the provider.
+ */
+export class SecretNotFoundError extends SalakalaError {}
+
+/**
+ * The provider rejected the credentials, or no credentials or session are available.
+ */
+export class AuthenticationError extends SalakalaError {}
+
+/**
+ * A secret URI doesn't match the path format of its provider.
+ */
+export class InvalidPathError extends SalakalaError {}
+
+/**
+ * A `::jsonKey` doesn't exist in the JSON value of a secret.
+ */
+export class JsonKeyNotFoundError extends SalakalaError {}
+
+/**
+ * The provider's CLI isn't installed or can't be started, or its service can't be reached.
+ */
+export class ProviderUnavailableError extends SalakalaError {}
+
+/**
+ * A provider CLI command or SDK request didn't finish within the provider's timeout.
+ */
+export class ProviderTimeoutError extends SalakalaError {}
+
+/**
+ * Patterns that identify the kind of failure from a provider's errors.
+ * They are matched against "name: message", so SDK error names like
+ * `ResourceNotFoundException` can be matched as well as CLI error output.
+ */
+export interface ErrorPatterns {
+    /** Matches errors saying that the secret doesn't exist */
+    notFound?: RegExp;
+    /** Matches errors about missing or rejected credentials */
+    authentication?: RegExp;
+    /** Matches errors saying that the service can't be reached */
+    unavailable?: RegExp;
+    /**
+     * Matches transient errors, like throttling and dropped connections, that are worth retrying.
+     * The HTTP status of SDK errors is appended to the text as "(Status 429)".
+     */
+    retryable?: RegExp;
+}
+
+/**
+ * Converts an error from a provider's SDK or CLI to the matching typed error, using the first pattern that matches.
+ * The typed error has the same message and the original error as its cause.
+ *
+ * @param {T} error - The error from the provider
+ * @param {ErrorPatterns} patterns - The provider's error patterns
+ * @returns {T | SalakalaError} A SecretNotFoundError, AuthenticationError or ProviderUnavailableError,
+ *                              or the original error if it is already typed or no pattern matches
+ */
+export function classifyError<T>(error: T, patterns: ErrorPatterns): T | SalakalaError {
+    if (!(error instanceof Error) || error instanceof SalakalaError) {
+        return error;
+    }
+    const text = `${error.name}: ${error.message}`;
+    if (patterns.notFound?.test(text)) {
+        return new SecretNotFoundError(error.message, { cause: error });
+    }
+    if (patterns.authentication?.test(text)) {
+        return new AuthenticationError(error.message, { cause: error });
+    }
+    if (patterns.unavailable?.test(text)) {
+        return new ProviderUnavailableError(error.message, { cause: error });
+    }
+    return error;
+}
+
+/**
+ * Describes an error for matching against retryable patterns: "name: message",
+ * followed by the HTTP status if the error carries one like the Azure and Vault clients' errors do.
+ *
+ * @param {Error} error - The error to describe
+ * @returns {string} The text to match
+ */
+function describeForRetry(error: Error): string {
+    const { statusCode, response } = error as { statusCode?: unknown, response?: { statusCode?: unknown } };
+    const status = statusCode ?? response?.statusCode;
+    return typeof status === 'number' ? `${error.name}: ${error.message} (Status ${status})` : `${error.name}: ${error.message}`;
+}
+
+/**
+ * Checks whether a provider error is transient, using the provider's retryable pattern.
+ * The error and its causes are all matched, so wrapped SDK and CLI errors are recognized.
+ * Typed errors other than ProviderUnavailableError, like a missing secret or rejected
+ * credentials, are never retried.
+ *
+ * @param {unknown} error - The error from the provider
+ * @param {ErrorPatterns} patterns - The provider's error patterns
+ * @returns {boolean} True if the failed operation may succeed when tried again
+ */
+export function isRetryableError(error: unknown, patterns: ErrorPatterns): boolean {
+    if (!patterns.retryable) {
+        return false;
+    }
+    for (let current = error; current instanceof Error; current = current.cause) {
+        if (current instanceof SalakalaError && !(current instanceof ProviderUnavailableError)) {
+            return false;
+        }
+        if (patterns.retryable.test(describeForRetry(current))) {
+            return true;
+        }
+    }
+    return false;
+}
@@ -0,0 +1,67 @@
+import { SalakalaError } from './errors.js';
+import { isInteractionDisabled } from './context.js';
+
+/**
+ * Thrown instead of prompting when salakala runs in non-interactive mode.
+ * The CLI exits with EXIT_CODES.INTERACTION_REQUIRED when it sees this error.
+ */
+export class InteractionRequiredError extends SalakalaError {}
+
+/**
+ * Whether non-interactive mode was enabled explicitly, e.g. with --non-interactive.
+ */
+let forcedNonInteractive = false;
+
+/**
+ * Enables or disables non-interactive mode explicitly.
+ * When disabled, non-interactive mode is still used if CI is set or stdin isn't a terminal.
+ *
+ * @param {boolean} enabled - Whether prompts should be replaced by errors
+ */
+export function setNonInteractive(enabled: boolean): void {
+    forcedNonInteractive = enabled;
+}
+
+/**
+ * Gets the reason salakala can't prompt, if any.
+ *
+ * @returns {string | null} Why prompts are disabled, or null if prompting is allowed
+ */
+function nonInteractiveReason(): string | null {
+    if (forcedNonInteractive) {
+        return '--non-interactive is set';
+    }
+    if (isInteractionDisabled()) {
+        return 'prompts are disabled for this call';
+    }
+    if (process.env.CI && process.env.CI !== 'false' && process.env.CI !== '0') {
+        return 'the CI environment variable is set';
+    }
+    if (!process.stdin.isTTY) {
+        return 'stdin is not a terminal';
+    }
+    return null;
+}
+
+/**
+ * Checks whether salakala runs in non-interactive mode, where prompts are replaced by errors.
+ *
+ * @returns {boolean} True if --non-interactive is set, the library call disabled prompts, CI is set, or stdin isn't a terminal
+ */
+export function isNonInteractive(): boolean {
+    return nonInteractiveReason() !== null;
+}
+
+/**
+ * Throws if salakala can't prompt the user. Called before every prompt and interactive login.
+ *
+ * @param {string} action - What the prompt is for, completing "Cannot ..." (e.g., 'select an environment')
+ * @param {string} hint - How to avoid the prompt (e.g., 'Pass the environment with --env.')
+ * @throws {InteractionRequiredError} If salakala runs in non-interactive mode
+ */
+export function assertInteractive(action: string, hint: string): void {
+    const reason = nonInteractiveReason();
+    if (reason) {
+        throw new InteractionRequiredError(`Cannot ${action} in non-interactive mode (${reason}). ${hint}`);
+    }
+}
@@ -0,0 +1,195 @@
+/**
+ * Position of a value or key in a JSON document (1-based).
+ */
+export interface SourceLocation {
+    line: number;
+    column: number;
+}
+
+/**
+ * A property of a JSON object, with the location of its key.
+ */
+export interface JsonProperty {
+    key: string;
+    location: SourceLocation;
+    value: JsonNode;
+}
+
+/**
+ * A parsed JSON value with its location. Objects keep every property in document order,
+ * including duplicate keys that JSON.parse would silently collapse.
+ */
+export type JsonNode = SourceLocation & (
+    | { type: 'object', properties: JsonProperty[] }
+    | { type: 'array', items: JsonNode[] }
+    | { type: 'string', value: string }
+    | { type: 'number', value: number }
+    | { type: 'boolean', value: boolean }
+    | { type: 'null', value: null }
+);
+
+/**
+ * Error thrown for malformed JSON, with the location where parsing failed.
+ */
+export class JsonSyntaxError extends Error {
+    constructor(message: string, public readonly location: SourceLocation) {
+        super(message);
+        this.name = 'JsonSyntaxError';
+    }
+}
+
+/**
+ * Parses a JSON document into nodes that remember where each value and key appears.
+ *
+ * @param {string} text - The JSON document
+ * @returns {JsonNode} The root node
+ * @throws {JsonSyntaxError} If the document is not valid JSON
+ */
+export function parseJsonSource(text: string): JsonNode {
+    let index = 0;
+    let line = 1;
+    let column = 1;
+
+    const location = (): SourceLocation => ({ line, column });
+
+    const fail = (message: string): never => {
+        throw new JsonSyntaxError(message, location());
+    };
+
+    const advance = (count: number = 1) => {
+        for (let i = 0; i < count; i++) {
+            if (text[index] === '\n') {
+                line++;
+                column = 1;
+            } else {
+                column++;
+            }
+            index++;
+        }
+    };
+
+    const skipWhitespace = () => {
+        while (index < text.length && /[ \t\r\n]/.test(text[index])) {
+            advance();
+        }
+    };
+
+    const expect = (char: string) => {
+        if (text[index] !== char) {
+            fail(index < text.length ? `Expected '${char}' but found '${text[index]}'` : `Expected '${char}' but reached end of file`);
+        }
+        advance();
+    };
+
+    const parseString = (): string => {
+        const start = index;
+        expect('"');
+        while (index < text.length && text[index] !== '"') {
+            if (text[index] === '\n') {
+                fail('Unterminated string');
+            }
+            advance(text[index] === '\\' ? 2 : 1);
+        }
+        expect('"');
+        try {
+            return JSON.parse(text.slice(start, index));
+        } catch {
+            return fail('Invalid escape sequence in string');
+        }
+    };
+
+    const parseValue = (): JsonNode => {
+        skipWhitespace();
+        const start = location();
+        const char = text[index];
+
+        if (char === '{') {
+            advance();
+            const properties: JsonProperty[] = [];
+            skipWhitespace();
+            if (text[index] === '}') {
+                advance();
+                return { ...start, type: 'object', properties };
+            }
+            while (true) {
+                skipWhitespace();
+                const keyLocation = location();
+                if (text[index] !== '"') {
+                    fail('Expected a property name in double quotes');
+                }
+                const key = parseString();
+                skipWhitespace();
+                expect(':');
+                properties.push({ key, location: keyLocation, value: parseValue() });
+                skipWhitespace();
+                if (text[index] === ',') {
+                    advance();
+                    continue;
+                }
+                expect('}');
+                return { ...start, type: 'object', properties };
+            }
+        }
+
+        if (char === '[') {
+            advance();
+            const items: JsonNode[] = [];
+            skipWhitespace();
+            if (text[index] === ']') {
+                advance();
+                return { ...start, type: 'array', items };
+            }
+            while (true) {
+                items.push(parseValue());
+                skipWhitespace();
+                if (text[index] === ',') {
+                    advance();
+                    continue;
+                }
+                expect(']');
+                return { ...start, type: 'array', items };
+            }
+        }
+
+        if (char === '"') {
+            return { ...start, type: 'string', value: parseString() };
+        }
+
+        const literal = text.slice(index).match(/^(true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/);
+        if (!literal) {
+            return fail(index < text.length ? `Unexpected character '${char}'` : 'Unexpected end of file');
+        }
+        advance(literal[0].length);
+        if (literal[0] === 'true' || literal[0] === 'false') {
+            return { ...start, type: 'boolean', value: literal[0] === 'true' };
+        }
+        if (literal[0] === 'null') {
+            return { ...start, type: 'null', value: null };
+        }
+        return { ...start, type: 'number', value: Number(literal[0]) };
+    };
+
+    const root = parseValue();
+    skipWhitespace();
+    if (index < text.length) {
+        fail(`Unexpected content after the end of the document`);
+    }
+    return root;
+}
+
+/**
+ * Converts a node back into a plain value. For duplicate keys the last value wins, as with JSON.parse.
+ *
+ * @param {JsonNode} node - The node to convert
+ * @returns {any} The plain JavaScript value
+ */
+export function toPlainValue(node: JsonNode): any {
+    switch (node.type) {
+        case 'object':
+            return Object.fromEntries(node.properties.map(property => [property.key, toPlainValue(property.value)]));
+        case 'array':
+            return node.items.map(toPlainValue);
+        default:
+            return node.value;
+    }
+}
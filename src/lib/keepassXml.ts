@@ -0,0 +1,263 @@
+import { randomBytes } from 'crypto';
+import { SecretNotFoundError } from './errors.js';
+
+/**
+ * An element of an XML document. Attributes and text are kept as they were written,
+ * so the parts that aren't changed are written back unchanged.
+ */
+interface XmlElement {
+    name: string;
+    attributes: string;
+    children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+/**
+ * Matches declarations, comments, CDATA sections, tags and text
+ */
+const TOKEN_PATTERN = /<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<(\/?)([\w:.-]+)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|[^<]+/g;
+
+/**
+ * Attributes KeePass entries always have, which are cleared rather than removed
+ */
+const STANDARD_ATTRIBUTES = ['Title', 'UserName', 'Password', 'URL', 'Notes'];
+
+/**
+ * Seconds from 0001-01-01, where KDBX 4 times start, to the Unix epoch
+ */
+const KDBX_EPOCH_OFFSET = 62135596800;
+
+/**
+ * Parses an XML document into a tree whose root is a nameless element holding the top-level nodes.
+ *
+ * @param {string} xml - The document
+ * @returns {XmlElement} The document root
+ * @throws {Error} If the tags don't nest
+ */
+function parseXml(xml: string): XmlElement {
+    const document: XmlElement = { name: '', attributes: '', children: [] };
+    const stack = [document];
+    for (const [token, closing, name, attributes, selfClosing] of xml.matchAll(TOKEN_PATTERN)) {
+        const parent = stack[stack.length - 1];
+        if (name === undefined) {
+            parent.children.push(token);
+        } else if (closing) {
+            if (parent.name !== name) {
+                throw new Error(`Invalid XML: unexpected </${name}>`);
+            }
+            stack.pop();
+        } else {
+            const element: XmlElement = { name, attributes, children: [] };
+            parent.children.push(element);
+            if (!selfClosing) {
+                stack.push(element);
+            }
+        }
+    }
+    if (stack.length > 1) {
+        throw new Error(`Invalid XML: <${stack[stack.length - 1].name}> is not closed`);
+    }
+    return document;
+}
+
+/**
+ * Writes a tree back as XML.
+ */
+function serializeXml(node: XmlNode): string {
+    if (typeof node === 'string') {
+        return node;
+    }
+    const content = node.children.map(serializeXml).join('');
+    if (!node.name) {
+        return content;
+    }
+    return content ? `<${node.name}${node.attributes}>${content}</${node.name}>` : `<${node.name}${node.attributes}/>`;
+}
+
+/**
+ * Escapes text for XML. Carriage returns are written as references, since XML parsers
+ * turn line breaks written as they are into \n.
+ */
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#13;');
+}
+
+/**
+ * Gets the text of an element, with references and CDATA sections decoded.
+ */
+function textOf(element: XmlElement | undefined): string {
+    if (!element) {
+        return '';
+    }
+    return element.children.filter((child): child is string => typeof child === 'string').map(text => {
+        if (text.startsWith('<![CDATA[')) {
+            return text.slice('<![CDATA['.length, -']]>'.length);
+        }
+        return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, ref: string) => {
+            if (ref[0] === '#') {
+                return String.fromCodePoint(ref[1].toLowerCase() === 'x' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10));
+            }
+            return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[ref.toLowerCase()]!;
+        });
+    }).join('');
+}
+
+function child(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find((node): node is XmlElement => typeof node !== 'string' && node.name === name);
+}
+
+function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter((node): node is XmlElement => typeof node !== 'string' && node.name === name);
+}
+
+function textElement(name: string, text: string, attributes = ''): XmlElement {
+    return { name, attributes, children: text ? [escapeXml(text)] : [] };
+}
+
+/**
+ * Finds the String element holding an entry attribute.
+ */
+function findAttribute(entry: XmlElement, attribute: string): XmlElement | undefined {
+    return childrenNamed(entry, 'String').find(string => textOf(child(string, 'Key')) === attribute);
+}
+
+/**
+ * Gets the value of an entry attribute, or an empty string if the entry doesn't have it.
+ */
+function valueOf(entry: XmlElement, attribute: string): string {
+    const string = findAttribute(entry, attribute);
+    return string ? textOf(child(string, 'Value')) : '';
+}
+
+/**
+ * Reads a KeePass XML time, written either as ISO 8601 or, in KDBX 4, as base64 encoded
+ * seconds since 0001-01-01.
+ */
+function parseTime(text: string): number {
+    if (/^\d{4}-/.test(text)) {
+        return Date.parse(text);
+    }
+    const bytes = Buffer.alloc(8);
+    Buffer.from(text, 'base64').copy(bytes);
+    return (Number(bytes.readBigUInt64LE()) - KDBX_EPOCH_OFFSET) * 1000;
+}
+
+function formatTime(time: number): string {
+    return new Date(time).toISOString().replace(/\.\d+Z$/, 'Z');
+}
+
+/**
+ * Builds the UUID, name and times of a new group or entry.
+ */
+function newItem(name: 'Group' | 'Entry', now: number): XmlElement {
+    const time = formatTime(now);
+    return {
+        name,
+        attributes: '',
+        children: [
+            textElement('UUID', randomBytes(16).toString('base64')),
+            {
+                name: 'Times',
+                attributes: '',
+                children: ['CreationTime', 'LastModificationTime', 'LastAccessTime', 'LocationChanged'].map(field => textElement(field, time)),
+            },
+        ],
+    };
+}
+
+/**
+ * Makes a database holding a single entry of an exported KeePass database, with one of its
+ * attributes set or removed, to be merged back into the database with keepassxc-cli merge.
+ *
+ * The entry and the groups on its path keep their UUIDs, which is how the merge finds them,
+ * and the entry's modification time is moved forward so that the merge takes the new version
+ * and keeps the old one in the entry's history. Other entries, groups and deleted objects are
+ * left out, so the merge doesn't touch them and only that entry's values are written out.
+ * A missing entry and missing groups are created.
+ *
+ * @param {string} xml - The database exported with keepassxc-cli export --format xml
+ * @param {string} entryPath - Path of the entry, like Web/GitHub
+ * @param {string} attribute - Name of the attribute to change
+ * @param {string | null} value - The new value, or null to remove the attribute
+ * @param {number} [now=Date.now()] - Current time in milliseconds
+ * @returns {{ xml: string, hasValues: boolean }} The database to merge, and whether the entry
+ *                                                has values besides its title afterwards
+ * @throws {SecretNotFoundError} If an attribute of a missing entry is removed
+ * @throws {Error} If the export is not a KeePass XML document
+ */
+export function buildEntryUpdate(
+    xml: string,
+    entryPath: string,
+    attribute: string,
+    value: string | null,
+    now: number = Date.now()
+): { xml: string, hasValues: boolean } {
+    const document = parseXml(xml);
+    const keePassFile = child(document, 'KeePassFile');
+    const root = keePassFile && child(keePassFile, 'Root');
+    const rootGroup = root && child(root, 'Group');
+    if (!root || !rootGroup) {
+        throw new Error('Invalid KeePass XML export: no root group');
+    }
+
+    // Keep only the branch down to the entry
+    root.children = root.children.filter(node => node === rootGroup || typeof node === 'string');
+    let group = rootGroup;
+    const names = entryPath.split('/').filter(Boolean);
+    const title = names.pop()!;
+    for (const name of names) {
+        let next: XmlElement | undefined = childrenNamed(group, 'Group').find(candidate => textOf(child(candidate, 'Name')) === name);
+        group.children = group.children.filter(node => typeof node === 'string' || (node.name !== 'Group' && node.name !== 'Entry'));
+        if (!next) {
+            if (value === null) {
+                throw new SecretNotFoundError(`Entry '${entryPath}' not found`);
+            }
+            next = newItem('Group', now);
+            next.children.splice(1, 0, textElement('Name', name));
+        }
+        group.children.push(next);
+        group = next;
+    }
+
+    let entry = childrenNamed(group, 'Entry').find(candidate => valueOf(candidate, 'Title') === title);
+    group.children = group.children.filter(node => typeof node === 'string' || (node.name !== 'Group' && node.name !== 'Entry'));
+    if (!entry) {
+        if (value === null) {
+            throw new SecretNotFoundError(`Entry '${entryPath}' not found`);
+        }
+        entry = newItem('Entry', now);
+        entry.children.push({ name: 'String', attributes: '', children: [textElement('Key', 'Title'), textElement('Value', title)] });
+    } else {
+        // The merge only takes the entry if it's newer, also when it was written within the same second
+        const times = child(entry, 'Times');
+        const modified = times && child(times, 'LastModificationTime');
+        if (modified) {
+            const next = Math.max(now, parseTime(textOf(modified)) + 1000);
+            modified.children = [formatTime(next)];
+        }
+    }
+    group.children.push(entry);
+
+    const string = findAttribute(entry, attribute);
+    if (value === null && !STANDARD_ATTRIBUTES.includes(attribute)) {
+        if (!string) {
+            throw new SecretNotFoundError(`Entry '${entryPath}' has no attribute '${attribute}'`);
+        }
+        entry.children = entry.children.filter(node => node !== string);
+    } else if (string) {
+        const current = child(string, 'Value');
+        string.children = string.children.filter(node => node !== current);
+        string.children.push(textElement('Value', value ?? '', current?.attributes ?? ''));
+    } else {
+        // Values other than the standard ones are secrets, so KeePass keeps them protected in memory
+        const protect = attribute === 'Password' || !STANDARD_ATTRIBUTES.includes(attribute);
+        const valueAttributes = protect ? ' ProtectInMemory="True"' : '';
+        entry.children.push({ name: 'String', attributes: '', children: [textElement('Key', attribute), textElement('Value', value ?? '', valueAttributes)] });
+    }
+
+    const hasValues = childrenNamed(entry, 'String').some(string =>
+        textOf(child(string, 'Key')) !== 'Title' && textOf(child(string, 'Value')) !== ''
+    );
+    return { xml: serializeXml(document), hasValues };
+}
@@ -0,0 +1,312 @@
+import { SecretConfig } from './SecretProvider.js';
+import { escapeYamlValue } from './envEscape.js';
+import { normalizeSecretEntry } from './configEntries.js';
+import { SCHEME_SOURCE } from './constants.js';
+
+type YamlValue = string | number | boolean | YamlValue[] | { [key: string]: YamlValue | undefined };
+
+/**
+ * Options for generated Kubernetes manifests.
+ */
+export interface ManifestOptions {
+    /** metadata.name of the generated resource */
+    name: string;
+    /** metadata.namespace of the generated resources (omitted if not set) */
+    namespace?: string;
+}
+
+/**
+ * Options for ExternalSecret conversion.
+ */
+export interface ExternalSecretOptions extends ManifestOptions {
+    /** How often external-secrets refreshes the values (e.g. '1h') */
+    refreshInterval?: string;
+}
+
+/**
+ * Result of converting a secret config into external-secrets resources.
+ */
+export interface ExternalSecretConversion {
+    /** Multi-document YAML with the SecretStore and ExternalSecret resources */
+    manifest: string;
+    /** Variables that have no external-secrets equivalent, with the reason they were skipped */
+    skipped: { envVar: string, reason: string }[];
+}
+
+const EXTERNAL_SECRETS_API_VERSION = 'external-secrets.io/v1';
+
+/**
+ * Formats a scalar as YAML, quoting strings unless they are unambiguous plain scalars.
+ *
+ * @param {string | number | boolean} value - The scalar to format
+ * @returns {string} The YAML scalar
+ */
+function yamlScalar(value: string | number | boolean): string {
+    if (typeof value !== 'string') {
+        return String(value);
+    }
+    const plain = /^[A-Za-z_][A-Za-z0-9_.\/-]*$/.test(value) &&
+        !/^(true|false|yes|no|on|off|null|y|n)$/i.test(value);
+    return plain ? value : escapeYamlValue(value);
+}
+
+/**
+ * Serializes a value as block-style YAML lines.
+ * Undefined object properties are left out.
+ *
+ * @param {YamlValue} value - The value to serialize (an object or array)
+ * @param {number} [indent=0] - Indentation of the block in spaces
+ * @returns {string[]} The YAML lines
+ */
+function toYaml(value: YamlValue, indent: number = 0): string[] {
+    const pad = ' '.repeat(indent);
+    const lines: string[] = [];
+
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            if (typeof item === 'object') {
+                const itemLines = toYaml(item, indent + 2);
+                // Put the first line of the item after the dash
+                lines.push(`${pad}- ${itemLines[0].trimStart()}`, ...itemLines.slice(1));
+            } else {
+                lines.push(`${pad}- ${yamlScalar(item)}`);
+            }
+        }
+        return lines;
+    }
+
+    if (typeof value !== 'object') {
+        return [`${pad}${yamlScalar(value)}`];
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+        if (child === undefined) {
+            continue;
+        }
+        if (typeof child === 'object') {
+            const childLines = toYaml(child, indent + 2);
+            if (childLines.length === 0) {
+                lines.push(`${pad}${yamlScalar(key)}: ${Array.isArray(child) ? '[]' : '{}'}`);
+            } else {
+                lines.push(`${pad}${yamlScalar(key)}:`, ...childLines);
+            }
+        } else {
+            lines.push(`${pad}${yamlScalar(key)}: ${yamlScalar(child)}`);
+        }
+    }
+    return lines;
+}
+
+/**
+ * Validates a Kubernetes resource name (DNS subdomain).
+ *
+ * @param {string} name - The resource name
+ * @param {string} what - What is being named, for the error message
+ * @throws {Error} If the name is not a valid DNS subdomain
+ */
+function assertResourceName(name: string, what: string): void {
+    if (!/^[a-z0-9]([-a-z0-9.]{0,251}[a-z0-9])?$/.test(name)) {
+        throw new Error(`Invalid ${what} '${name}'. Must be lowercase alphanumeric characters, '-' or '.', and start and end with an alphanumeric character`);
+    }
+}
+
+/**
+ * Validates the name and namespace options for a manifest.
+ *
+ * @param {Partial<ManifestOptions>} options - The manifest options
+ * @returns {ManifestOptions} The validated options
+ * @throws {Error} If the name is missing or the name or namespace is invalid
+ */
+function validateManifestOptions(options: Partial<ManifestOptions>): ManifestOptions {
+    if (!options.name) {
+        throw new Error('A resource name is required for Kubernetes manifests (use --name)');
+    }
+    assertResourceName(options.name, 'resource name');
+    if (options.namespace) {
+        assertResourceName(options.namespace, 'namespace');
+    }
+    return { name: options.name, namespace: options.namespace };
+}
+
+/**
+ * Builds a Kubernetes v1 Secret manifest with base64-encoded values.
+ *
+ * @param {Record<string, string>} values - Map of variable names to values
+ * @param {Partial<ManifestOptions>} options - Name and namespace of the Secret
+ * @returns {string} The Secret manifest as YAML
+ * @throws {Error} If the name is missing, or a name, namespace or key is invalid
+ */
+export function buildSecretManifest(values: Record<string, string>, options: Partial<ManifestOptions>): string {
+    const { name, namespace } = validateManifestOptions(options);
+
+    const data: Record<string, string> = {};
+    for (const [key, value] of Object.entries(values)) {
+        if (!/^[-._a-zA-Z0-9]+$/.test(key)) {
+            throw new Error(`Variable name '${key}' is not a valid Kubernetes Secret key. Keys may only contain alphanumeric characters, '-', '_' or '.'`);
+        }
+        data[key] = Buffer.from(value, 'utf-8').toString('base64');
+    }
+
+    return toYaml({
+        apiVersion: 'v1',
+        kind: 'Secret',
+        metadata: { name, namespace },
+        type: 'Opaque',
+        data,
+    }).join('\n') + '\n';
+}
+
+/**
+ * Turns a salakala JSON key path (e.g. servers[0].host) into the dotted path
+ * external-secrets uses for remoteRef.property (servers.0.host).
+ *
+ * @param {string} jsonKey - The salakala JSON key
+ * @returns {string} The property path
+ */
+function toPropertyPath(jsonKey: string): string {
+    return jsonKey.replace(/\[(\d+)\]/g, '.$1');
+}
+
+/**
+ * Makes a string usable as part of a Kubernetes resource name.
+ *
+ * @param {string} value - The string to sanitize
+ * @returns {string} Lowercased string with invalid characters replaced by '-'
+ */
+function toNamePart(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Matches scheme://path[::jsonKey] URIs
+ */
+const URI_PATTERN = new RegExp(`^(${SCHEME_SOURCE})://([^:]+)(?:::(.+))?$`);
+
+/**
+ * Maps a secret URI to an external-secrets SecretStore provider and remoteRef.
+ *
+ * @param {string} uri - The secret URI
+ * @returns {{ storeName: string, provider: YamlValue, remoteRef: Record<string, string | undefined> } | string}
+ *          The mapping, or the reason the URI can't be mapped
+ */
+function mapUri(uri: string): { storeName: string, provider: YamlValue, remoteRef: Record<string, string | undefined> } | string {
+    const match = uri.match(URI_PATTERN);
+    if (!match) {
+        return 'not a secret URI';
+    }
+    const [, scheme, path, jsonKey] = match;
+    const property = jsonKey ? toPropertyPath(jsonKey) : undefined;
+
+    switch (scheme) {
+        case 'awssm': {
+            const aws = path.match(/^([^\/]+)\/(.+)$/);
+            if (!aws) {
+                return 'invalid path, expected awssm://region/secret-name';
+            }
+            const [, region, secretId] = aws;
+            return {
+                storeName: `aws-${toNamePart(region)}`,
+                provider: { aws: { service: 'SecretsManager', region } },
+                remoteRef: { key: secretId, property },
+            };
+        }
+        case 'gcsm': {
+            const gcp = path.match(/^projects\/([^\/]+)\/secrets\/([^\/]+)\/versions\/(.+)$/);
+            if (!gcp) {
+                return 'invalid path, expected gcsm://projects/PROJECT_ID/secrets/SECRET_ID/versions/VERSION';
+            }
+            const [, projectID, secretId, version] = gcp;
+            return {
+                storeName: `gcp-${toNamePart(projectID)}`,
+                provider: { gcpsm: { projectID } },
+                remoteRef: { key: secretId, version: version === 'latest' ? undefined : version, property },
+            };
+        }
+        case 'azurekv': {
+            const azure = path.match(/^([^\/]+)\/(.+)$/);
+            if (!azure) {
+                return 'invalid path, expected azurekv://vault-name.vault.azure.net/secret-name';
+            }
+            const [, vaultHost, secretName] = azure;
+            return {
+                storeName: `azure-${toNamePart(vaultHost.split('.')[0])}`,
+                provider: { azurekv: { vaultUrl: `https://${vaultHost}` } },
+                remoteRef: { key: secretName, property },
+            };
+        }
+        default:
+            return `${scheme}:// has no external-secrets mapping`;
+    }
+}
+
+/**
+ * Converts a secret config into external-secrets SecretStore and ExternalSecret resources.
+ * Only awssm://, gcsm:// and azurekv:// URIs can be mapped; other entries are reported as skipped.
+ * Nothing is fetched from the providers.
+ *
+ * One SecretStore is created per AWS region, GCP project and Azure Key Vault. The stores
+ * contain no authentication settings, which have to be added for the target cluster.
+ *
+ * @param {SecretConfig} config - Map of variable names to secret URIs or entries
+ * @param {ExternalSecretOptions} options - Name and namespace of the ExternalSecret and target Secret
+ * @returns {ExternalSecretConversion} The YAML manifest and the skipped variables
+ * @throws {Error} If the options are invalid or no variable can be converted
+ */
+export function convertToExternalSecrets(config: SecretConfig, options: ExternalSecretOptions): ExternalSecretConversion {
+    const { name, namespace } = validateManifestOptions(options);
+
+    const stores = new Map<string, YamlValue>();
+    const data: { secretKey: string, storeName: string, remoteRef: Record<string, string | undefined> }[] = [];
+    const skipped: { envVar: string, reason: string }[] = [];
+
+    for (const [envVar, value] of Object.entries(config)) {
+        const { uri } = normalizeSecretEntry(envVar, value);
+        if (uri === undefined) {
+            skipped.push({ envVar, reason: 'no URI, only a default value' });
+            continue;
+        }
+        const mapped = mapUri(uri);
+        if (typeof mapped === 'string') {
+            skipped.push({ envVar, reason: mapped });
+            continue;
+        }
+        stores.set(mapped.storeName, mapped.provider);
+        data.push({ secretKey: envVar, storeName: mapped.storeName, remoteRef: mapped.remoteRef });
+    }
+
+    if (data.length === 0) {
+        throw new Error('No variables could be converted. Only awssm://, gcsm:// and azurekv:// URIs are supported');
+    }
+
+    const [defaultStore] = stores.keys();
+    const documents = Array.from(stores, ([storeName, provider]) => toYaml({
+        apiVersion: EXTERNAL_SECRETS_API_VERSION,
+        kind: 'SecretStore',
+        metadata: { name: storeName, namespace },
+        spec: { provider },
+    }));
+
+    documents.push(toYaml({
+        apiVersion: EXTERNAL_SECRETS_API_VERSION,
+        kind: 'ExternalSecret',
+        metadata: { name, namespace },
+        spec: {
+            refreshInterval: options.refreshInterval ?? '1h',
+            secretStoreRef: { name: defaultStore, kind: 'SecretStore' },
+            target: { name, creationPolicy: 'Owner' },
+            data: data.map(entry => ({
+                secretKey: entry.secretKey,
+                // Entries from other stores than the default one name their store explicitly
+                sourceRef: entry.storeName === defaultStore
+                    ? undefined
+                    : { storeRef: { name: entry.storeName, kind: 'SecretStore' } },
+                remoteRef: entry.remoteRef,
+            })),
+        },
+    }));
+
+    return {
+        manifest: documents.map(lines => lines.join('\n')).join('\n---\n') + '\n',
+        skipped,
+    };
+}
@@ -0,0 +1,291 @@
+import { copyFileSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { SecretEntry, SecretProvider, PathComponentType } from './SecretProvider.js';
+import { isOptionalEntry, isSecretEntry, isVariableMap, omitSettings } from './configEntries.js';
+import { parseTemplate } from './templates.js';
+import { InvalidPathError } from './errors.js';
+import { SecretsManager } from './SecretsManager.js';
+import { EMOJI } from './constants.js';
+import { getLogger } from './context.js';
+
+/**
+ * Marks the components in a path built by buildPath, so the path can be turned into a pattern.
+ */
+const MARKER = '\u0000';
+
+/**
+ * One variable that is copied to the target provider.
+ */
+export interface MigrationStep {
+    /** The variable name */
+    envVar: string;
+    /** The URI the value is read from, including its ::jsonKey */
+    source: string;
+    /** The URI the variable will use, with ::envVar if the value is bundled */
+    target: string;
+    /** Whether the value is stored in the JSON bundle instead of a secret of its own */
+    bundled: boolean;
+    /** Whether failing to read the value leaves the variable as it is instead of stopping the migration */
+    optional: boolean;
+}
+
+/**
+ * What a migration copies and which variables it leaves alone.
+ */
+export interface MigrationPlan {
+    steps: MigrationStep[];
+    /** URI of the JSON secret that the values read with ::jsonKey are bundled into, if there are any */
+    bundleUri?: string;
+    /** Variables that are left unchanged, with the reason */
+    skipped: { envVar: string, reason: string }[];
+}
+
+/**
+ * Escapes a string for use in a regular expression.
+ *
+ * @param {string} value - The literal text
+ * @returns {string} The escaped text
+ */
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Gets the component that names each secret of a provider that stores one value per secret.
+ *
+ * @param {SecretProvider} provider - The target provider
+ * @returns {string} The component name (e.g., 'secret')
+ * @throws {Error} If the provider has no item component
+ */
+function getItemComponent(provider: SecretProvider): string {
+    const item = provider.pathComponents.find(component => component.type === PathComponentType.Item);
+    if (!item) {
+        throw new Error('The target provider has no item path component to name the migrated secrets with');
+    }
+    return item.name;
+}
+
+/**
+ * Works out the path components of a migration target, e.g. folder and item of bw://folder/item,
+ * or the region of awssm://us-east-1. For providers that support multiple fields the target
+ * names the item the fields are written to, for the others the part before the secret name.
+ * The provider's buildPath output is matched against the target, trying optional components
+ * first, so the same works for every provider.
+ *
+ * @param {SecretProvider} provider - The target provider
+ * @param {string} target - The --to URI
+ * @returns {Record<string, string>} The components to pass to buildPath
+ * @throws {InvalidPathError} If the target doesn't fit the provider's paths
+ */
+export function resolveTargetComponents(provider: SecretProvider, target: string): Record<string, string> {
+    const normalized = target.replace(/\/+$/, '');
+    const optional = provider.pathComponents.filter(component => !component.required);
+    // Subsets of the optional components, largest first
+    const subsets = Array.from({ length: 2 ** optional.length }, (_, mask) => optional.filter((_, i) => mask & (1 << i)))
+        .sort((a, b) => b.length - a.length);
+
+    let expected = '';
+    for (const included of subsets) {
+        const names = provider.pathComponents
+            .filter(component => component.required || included.includes(component))
+            .map(component => component.name);
+        const placeholders = Object.fromEntries(names.map(name => [name, `${MARKER}${name}${MARKER}`]));
+        const fieldMarker = `${MARKER}field${MARKER}`;
+        const path = provider.buildPath(placeholders, { fieldName: fieldMarker });
+
+        // The target is the part of the path before the field or secret name
+        const end = path.indexOf(provider.supportsMultipleFields ? fieldMarker : placeholders[getItemComponent(provider)]);
+        if (end === -1) {
+            continue;
+        }
+        const parts = path.slice(0, end).replace(/\/$/, '').split(new RegExp(`(${MARKER}\\w+${MARKER})`));
+        // Text after the last component, like the /secrets of gcsm://projects/<project>/secrets, may be left out
+        const trailing = parts.pop() ?? '';
+        expected ||= parts.map(part => part.startsWith(MARKER) ? `<${part.slice(1, -1)}>` : part).join('');
+
+        const groups = parts.map((part, i) => {
+            if (!part.startsWith(MARKER)) {
+                return escapeRegExp(part);
+            }
+            return i === parts.length - 1 && trailing ? '(.+?)' : '(.+)';
+        });
+        const pattern = new RegExp(`^${groups.join('')}(?:${escapeRegExp(trailing)})?$`);
+        const match = normalized.match(pattern);
+        if (match) {
+            const matched = parts.filter(part => part.startsWith(MARKER)).map(part => part.slice(1, -1));
+            return Object.fromEntries(matched.map((name, i) => [name, match[i + 1]]));
+        }
+    }
+    throw new InvalidPathError(`Cannot migrate to '${target}': expected a target like ${expected || 'scheme://path'}`);
+}
+
+/**
+ * Plans copying the secrets of an environment to the target provider. Each variable gets a secret,
+ * or a field for providers that support multiple fields, named after the variable. Values read with
+ * a ::jsonKey are bundled into one JSON secret keyed by variable name, so the variables keep reading
+ * a single key of a JSON value.
+ *
+ * @param {Record<string, SecretEntry>} config - The variables of the environment
+ * @param {SecretProvider} provider - The target provider
+ * @param {Record<string, string>} components - The target's path components from resolveTargetComponents
+ * @param {(uri: string) => boolean} isSecretUri - Checks whether a value is a URI of a registered provider
+ * @param {string} bundleName - Name of the JSON bundle secret or field
+ * @returns {MigrationPlan} The plan
+ * @throws {InvalidPathError} If the provider can't write to a target, like a name Azure Key Vault doesn't allow
+ * @throws {Error} If two variables would be written to the same URI
+ */
+export function planMigration(
+    config: Record<string, SecretEntry>,
+    provider: SecretProvider,
+    components: Record<string, string>,
+    isSecretUri: (uri: string) => boolean,
+    bundleName: string
+): MigrationPlan {
+    const buildUri = (name: string) => provider.supportsMultipleFields
+        ? provider.buildPath(components, { fieldName: name })
+        : provider.buildPath({ ...components, [getItemComponent(provider)]: name });
+
+    const plan: MigrationPlan = { steps: [], skipped: [] };
+    for (const [envVar, entry] of Object.entries(config)) {
+        if (entry.uri === undefined) {
+            continue;
+        }
+        if (parseTemplate(entry.uri, name => Object.hasOwn(config, name)).some(reference => reference.kind === 'uri')) {
+            plan.skipped.push({ envVar, reason: 'secrets referenced in templates are not migrated' });
+            continue;
+        }
+        if (!isSecretUri(entry.uri)) {
+            continue;
+        }
+        const optional = isOptionalEntry(entry);
+        if (entry.uri.includes('::')) {
+            plan.bundleUri ??= buildUri(bundleName);
+            plan.steps.push({ envVar, source: entry.uri, target: `${plan.bundleUri}::${envVar}`, bundled: true, optional });
+        } else {
+            plan.steps.push({ envVar, source: entry.uri, target: buildUri(envVar), bundled: false, optional });
+        }
+    }
+
+    const written = plan.steps.filter(step => !step.bundled).map(step => step.target);
+    if (plan.bundleUri) {
+        written.push(plan.bundleUri);
+    }
+    const duplicate = written.find((uri, i) => written.indexOf(uri) !== i);
+    if (duplicate) {
+        throw new Error(`More than one value would be written to ${duplicate}. Choose another name with --bundle.`);
+    }
+    for (const uri of written) {
+        provider.validateWritePath(uri);
+    }
+    return plan;
+}
+
+/**
+ * Copies the values of a migration plan. Every value is read before anything is written,
+ * so a required value that can't be read stops the migration without leaving partial copies.
+ * The values are then written one at a time without a rollback: if a write fails, the
+ * copies written before it are kept, and the error lists them.
+ *
+ * @param {MigrationPlan} plan - The plan from planMigration
+ * @param {SecretsManager} manager - Routes the reads and writes to the providers
+ * @returns {Promise<MigrationStep[]>} The steps that were copied; optional variables that couldn't be read are left out
+ * @throws {Error} If a required value can't be read, or a value can't be written
+ */
+export async function runMigration(plan: MigrationPlan, manager: SecretsManager): Promise<MigrationStep[]> {
+    const values = new Map<MigrationStep, string>();
+    for (const step of plan.steps) {
+        try {
+            getLogger().info(`${EMOJI.FETCHING} Fetching ${step.envVar} from ${step.source}`);
+            values.set(step, await manager.getSecret(step.source));
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            if (!step.optional) {
+                throw new Error(`Failed to read ${step.envVar}, nothing was written: ${reason}`, { cause: error });
+            }
+            getLogger().warn(`${EMOJI.SKIPPED} Leaving optional ${step.envVar} unchanged: ${reason}`);
+        }
+    }
+
+    const written: string[] = [];
+    const write = async (uri: string, value: string) => {
+        try {
+            await manager.setSecret(uri, value);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            const kept = written.length > 0 ? `these copies were kept: ${written.join(', ')}` : 'nothing else was written';
+            throw new Error(`Failed to write ${uri}, ${kept}: ${reason}`, { cause: error });
+        }
+        written.push(uri);
+    };
+
+    const bundle: Record<string, string> = {};
+    for (const [step, value] of values) {
+        if (step.bundled) {
+            bundle[step.envVar] = value;
+            continue;
+        }
+        getLogger().info(`${EMOJI.UPDATING} Writing ${step.envVar} to ${step.target}`);
+        await write(step.target, value);
+    }
+    if (plan.bundleUri && Object.keys(bundle).length > 0) {
+        getLogger().info(`${EMOJI.UPDATING} Writing ${Object.keys(bundle).join(', ')} as JSON to ${plan.bundleUri}`);
+        await write(plan.bundleUri, JSON.stringify(bundle));
+    }
+    return Array.from(values.keys());
+}
+
+/**
+ * Points the variables of an environment at new URIs. Variables inherited with `$extends`
+ * are added to the environment itself, and object entries keep their other settings.
+ *
+ * @param {string} content - The config file content
+ * @param {string} environment - The environment, ignored for flat configs
+ * @param {Record<string, SecretEntry>} entries - The entries with their new URIs, by variable name
+ * @returns {string} The new config file content
+ * @throws {Error} If the environment is not in the config
+ */
+export function rewriteConfig(content: string, environment: string, entries: Record<string, SecretEntry>): string {
+    const config = JSON.parse(content);
+    let variables = isVariableMap(omitSettings(config)) ? config : config[environment];
+    if (typeof variables !== 'object' || variables === null) {
+        throw new Error(`Environment '${environment}' not found in config file`);
+    }
+    if ('src' in variables && 'dst' in variables) {
+        variables = variables.src;
+    }
+    for (const [envVar, entry] of Object.entries(entries)) {
+        const current = variables[envVar];
+        variables[envVar] = isSecretEntry(current) || Object.keys(entry).length > 1 ? { ...current, ...entry } : entry.uri;
+    }
+    return JSON.stringify(config, null, 2) + '\n';
+}
+
+/**
+ * Copies a config file next to itself before it is rewritten, as file.bak, or file.bak.2
+ * and so on if an earlier backup exists.
+ *
+ * @param {string} configPath - Path to the configuration file
+ * @returns {string} Path of the backup
+ */
+export function backupConfig(configPath: string): string {
+    let backupPath = `${configPath}.bak`;
+    for (let i = 2; existsSync(backupPath); i++) {
+        backupPath = `${configPath}.bak.${i}`;
+    }
+    copyFileSync(configPath, backupPath);
+    return backupPath;
+}
+
+/**
+ * Writes the rewritten config after backing up the old one.
+ *
+ * @param {string} configPath - Path to the configuration file
+ * @param {string} environment - The environment that was migrated
+ * @param {Record<string, SecretEntry>} entries - The entries with their new URIs, by variable name
+ * @returns {string} Path of the backup
+ */
+export function saveMigratedConfig(configPath: string, environment: string, entries: Record<string, SecretEntry>): string {
+    const content = rewriteConfig(readFileSync(configPath, 'utf-8'), environment, entries);
+    const backupPath = backupConfig(configPath);
+    writeFileSync(configPath, content);
+    return backupPath;
+}
@@ -0,0 +1,182 @@
+import {
+    escapeEnvValue,
+    escapeShellValue,
+    escapeFishValue,
+    escapePowerShellValue,
+    escapeYamlValue
+} from './envEscape.js';
+import { buildSecretManifest } from './kubernetes.js';
+
+/**
+ * Extra options passed to output formats that need them.
+ */
+export interface OutputFormatOptions {
+    /** Resource name, used by the k8s-secret format */
+    name?: string;
+    /** Resource namespace, used by the k8s-secret format */
+    namespace?: string;
+}
+
+/**
+ * Serializer that turns resolved secrets into a specific output format.
+ */
+export interface OutputFormat {
+    /** Name used to select the format on the command line */
+    name: string;
+    /** Short human-readable description shown in help output */
+    description: string;
+    /**
+     * Serializes the values into the output format.
+     *
+     * @param {Record<string, string>} values - Map of variable names to values
+     * @param {OutputFormatOptions} [options] - Format-specific options
+     * @returns {string} The serialized output, ending with a newline
+     * @throws {Error} If a name or value cannot be represented in this format
+     */
+    serialize(values: Record<string, string>, options?: OutputFormatOptions): string;
+}
+
+/**
+ * Throws if a variable name can't be used as a shell variable name.
+ *
+ * @param {string} name - The variable name
+ * @param {string} formatName - The format being written, for the error message
+ * @throws {Error} If the name is not a valid identifier
+ */
+function assertIdentifier(name: string, formatName: string): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new Error(`Variable name '${name}' is not a valid identifier for the ${formatName} format`);
+    }
+}
+
+/**
+ * Joins lines into output text with a trailing newline.
+ *
+ * @param {string[]} lines - The lines to join
+ * @returns {string} The joined output
+ */
+function toLines(lines: string[]): string {
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+const dotenv: OutputFormat = {
+    name: 'dotenv',
+    description: '.env file (KEY=value)',
+    serialize: (values) => toLines(
+        Object.entries(values).map(([key, value]) => `${key}=${escapeEnvValue(value)}`)
+    ),
+};
+
+const json: OutputFormat = {
+    name: 'json',
+    description: 'JSON object',
+    serialize: (values) => JSON.stringify(values, null, 2) + '\n',
+};
+
+const yaml: OutputFormat = {
+    name: 'yaml',
+    description: 'YAML mapping',
+    serialize: (values) => toLines(
+        Object.entries(values).map(([key, value]) => {
+            const yamlKey = /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? key : escapeYamlValue(key);
+            return `${yamlKey}: ${escapeYamlValue(value)}`;
+        })
+    ),
+};
+
+const shell: OutputFormat = {
+    name: 'shell',
+    description: 'POSIX shell export statements, for eval "$(salakala --format shell)"',
+    serialize: (values) => toLines(
+        Object.entries(values).map(([key, value]) => {
+            assertIdentifier(key, 'shell');
+            return `export ${key}=${escapeShellValue(value)}`;
+        })
+    ),
+};
+
+const fish: OutputFormat = {
+    name: 'fish',
+    description: 'fish shell set -gx statements',
+    serialize: (values) => toLines(
+        Object.entries(values).map(([key, value]) => {
+            assertIdentifier(key, 'fish');
+            return `set -gx ${key} ${escapeFishValue(value)}`;
+        })
+    ),
+};
+
+const powershell: OutputFormat = {
+    name: 'powershell',
+    description: 'PowerShell $env: assignments',
+    serialize: (values) => toLines(
+        Object.entries(values).map(([key, value]) => {
+            assertIdentifier(key, 'powershell');
+            return `$env:${key} = ${escapePowerShellValue(value)}`;
+        })
+    ),
+};
+
+const docker: OutputFormat = {
+    name: 'docker',
+    description: 'Docker --env-file (KEY=value, no quoting)',
+    serialize: (values) => toLines(
+        Object.entries(values).map(([key, value]) => {
+            // Docker reads env-file values verbatim up to the end of the line
+            if (/[\r\n]/.test(value)) {
+                throw new Error(`Value of '${key}' contains a newline, which the docker env-file format cannot represent`);
+            }
+            if (key.includes('=') || /\s/.test(key) || key.startsWith('#') || key === '') {
+                throw new Error(`Variable name '${key}' cannot be represented in the docker env-file format`);
+            }
+            return `${key}=${value}`;
+        })
+    ),
+};
+
+const k8sSecret: OutputFormat = {
+    name: 'k8s-secret',
+    description: 'Kubernetes v1 Secret manifest (requires --name)',
+    serialize: (values, options = {}) => buildSecretManifest(values, options),
+};
+
+/**
+ * Registered output formats, keyed by name.
+ * Additional formats can be registered with registerOutputFormat.
+ */
+const outputFormats = new Map<string, OutputFormat>(
+    [dotenv, json, yaml, shell, fish, powershell, docker, k8sSecret].map(format => [format.name, format])
+);
+
+/**
+ * Registers an output format, replacing any existing format with the same name.
+ *
+ * @param {OutputFormat} format - The format to register
+ */
+export function registerOutputFormat(format: OutputFormat): void {
+    outputFormats.set(format.name, format);
+}
+
+/**
+ * Gets a registered output format by name.
+ *
+ * @param {string} name - The format name
+ * @returns {OutputFormat} The output format
+ * @throws {Error} If no format with the given name is registered
+ */
+export function getOutputFormat(name: string): OutputFormat {
+    const format = outputFormats.get(name);
+    if (!format) {
+        throw new Error(`Unknown output format '${name}'. Available formats: ${getOutputFormatNames().join(', ')}`);
+    }
+    return format;
+}
+
+/**
+ * Lists the names of all registered output formats.
+ *
+ * @returns {string[]} The format names
+ */
+export function getOutputFormatNames(): string[] {
+    return Array.from(outputFormats.keys());
+}
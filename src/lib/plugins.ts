@@ -0,0 +1,173 @@
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { SecretProvider } from './SecretProvider.js';
+import { SCHEME_SOURCE } from './constants.js';
+import { OnePasswordProvider } from './providers/1Password.js';
+import { GoogleCloudSecretsProvider } from './providers/GoogleCloudSecrets.js';
+import { AWSSecretsManagerProvider } from './providers/AWSSecretsManager.js';
+import { BitwardenProvider } from './providers/Bitwarden.js';
+import { AzureKeyVaultProvider } from './providers/AzureKeyVault.js';
+import { LastPassProvider } from './providers/LastPass.js';
+import { KeePassProvider } from './providers/KeePass.js';
+import { HashiCorpVaultProvider } from './providers/HashiCorpVault.js';
+
+/**
+ * A provider that SecretsManager routes secret URIs to.
+ */
+export interface ProviderPlugin {
+    /** URI prefix of the provider's secrets (e.g., 'op://') */
+    scheme: string;
+    /** Human-readable name (e.g., '1Password') */
+    displayName: string;
+    /** Creates the provider instance */
+    create(): SecretProvider;
+}
+
+/**
+ * The providers that are always available, in the order they are listed to the user.
+ */
+export const BUILTIN_PROVIDERS: ProviderPlugin[] = [
+    { scheme: 'op://', displayName: '1Password', create: () => new OnePasswordProvider() },
+    { scheme: 'gcsm://', displayName: 'Google Cloud Secret Manager', create: () => new GoogleCloudSecretsProvider() },
+    { scheme: 'awssm://', displayName: 'AWS Secrets Manager', create: () => new AWSSecretsManagerProvider() },
+    { scheme: 'bw://', displayName: 'Bitwarden', create: () => new BitwardenProvider() },
+    { scheme: 'azurekv://', displayName: 'Azure Key Vault', create: () => new AzureKeyVaultProvider() },
+    { scheme: 'lp://', displayName: 'LastPass', create: () => new LastPassProvider() },
+    { scheme: 'kp://', displayName: 'KeePass', create: () => new KeePassProvider() },
+    { scheme: 'vault://', displayName: 'HashiCorp Vault', create: () => new HashiCorpVaultProvider() },
+];
+
+/**
+ * Top-level config key of the provider plugin list
+ */
+export const PLUGINS_KEY = '$plugins';
+
+/**
+ * Format of provider URI prefixes: a scheme followed by ://
+ */
+const SCHEME_PATTERN = new RegExp(`^${SCHEME_SOURCE}://$`);
+
+/**
+ * Checks whether a string is a valid provider URI prefix, like 'myvault://'.
+ *
+ * @param {string} scheme - The prefix to check
+ * @returns {boolean} True if it is a scheme followed by ://
+ */
+export function isValidScheme(scheme: string): boolean {
+    return SCHEME_PATTERN.test(scheme);
+}
+
+/**
+ * Validates the `$plugins` setting of a config file, a list of npm module names and file paths.
+ *
+ * @param {unknown} value - The value of the `$plugins` key
+ * @returns {string[]} The plugin module specifiers
+ * @throws {Error} If the value isn't an array of non-empty strings
+ */
+export function parsePluginSettings(value: unknown): string[] {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item === '')) {
+        throw new Error(`Invalid ${PLUGINS_KEY}: expected an array of npm module names or file paths`);
+    }
+    return value;
+}
+
+/**
+ * Reads the `$plugins` setting of a config file.
+ *
+ * @param {string} configPath - Path to the JSON configuration file
+ * @returns {string[]} The plugin module specifiers, empty if the file has none
+ * @throws {Error} If the file can't be read or the setting is invalid
+ */
+export function readPluginSettings(configPath: string): string[] {
+    const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+    return config?.[PLUGINS_KEY] === undefined ? [] : parsePluginSettings(config[PLUGINS_KEY]);
+}
+
+/**
+ * Finds the file of a plugin module. Paths are resolved against the base directory,
+ * and npm modules are looked up from its node_modules like require.resolve does.
+ *
+ * @param {string} specifier - The npm module name or file path
+ * @param {string} baseDir - Directory that relative paths and modules are resolved from
+ * @returns {string} URL of the module file, for import()
+ * @throws {Error} If the module can't be found
+ */
+function resolvePluginUrl(specifier: string, baseDir: string): string {
+    if (specifier.startsWith('.') || isAbsolute(specifier)) {
+        return pathToFileURL(resolve(baseDir, specifier)).href;
+    }
+    try {
+        return pathToFileURL(createRequire(join(baseDir, 'package.json')).resolve(specifier)).href;
+    } catch (error) {
+        throw new Error(`Cannot find provider plugin '${specifier}' from ${baseDir}`, { cause: error });
+    }
+}
+
+/**
+ * Checks that an export of a plugin module is a provider class with its scheme and
+ * display name as the static `scheme` and `displayName` properties.
+ *
+ * @param {unknown} value - The exported value
+ * @param {string} specifier - The plugin module, for error messages
+ * @returns {ProviderPlugin} The provider
+ * @throws {Error} If the export isn't a provider class or its scheme or name is missing
+ */
+function toProviderPlugin(value: unknown, specifier: string): ProviderPlugin {
+    // Plugins may extend the SecretProvider of their own salakala installation, so instanceof can't be used
+    const providerClass = value as { new(): SecretProvider, scheme?: unknown, displayName?: unknown };
+    if (typeof providerClass !== 'function' || typeof providerClass.prototype?.getSecret !== 'function') {
+        throw new Error(`Provider plugin '${specifier}' must export a SecretProvider subclass as its default export`);
+    }
+    const { scheme, displayName } = providerClass;
+    if (typeof scheme !== 'string' || !isValidScheme(scheme)) {
+        throw new Error(`Provider plugin '${specifier}' must set a static scheme like 'myvault://', got ${JSON.stringify(scheme)}`);
+    }
+    if (typeof displayName !== 'string' || displayName === '') {
+        throw new Error(`Provider plugin '${specifier}' must set a static displayName`);
+    }
+    return { scheme, displayName, create: () => new providerClass() };
+}
+
+/**
+ * Loads provider plugins. Each module's default export is a SecretProvider subclass,
+ * or an array of them, with static `scheme` and `displayName` properties.
+ *
+ * @param {string[]} specifiers - npm module names and file paths
+ * @param {string} baseDir - Directory that relative paths and modules are resolved from
+ * @returns {Promise<ProviderPlugin[]>} The providers, in the order they were listed
+ * @throws {Error} If a module can't be loaded or doesn't export providers
+ */
+export async function loadProviderPlugins(specifiers: string[], baseDir: string): Promise<ProviderPlugin[]> {
+    const plugins: ProviderPlugin[] = [];
+    for (const specifier of specifiers) {
+        const url = resolvePluginUrl(specifier, baseDir);
+        let module: { default?: unknown };
+        try {
+            module = await import(url);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to load provider plugin '${specifier}': ${reason}`, { cause: error });
+        }
+        const exported = Array.isArray(module.default) ? module.default : [module.default];
+        plugins.push(...exported.map(value => toProviderPlugin(value, specifier)));
+    }
+    return plugins;
+}
+
+/**
+ * Loads the provider plugins of a config file and those given by the caller.
+ * The config's plugins are resolved from the config file's directory.
+ *
+ * @param {string | undefined} configPath - Path to the configuration file, if there is one
+ * @param {string[]} specifiers - Additional plugins, resolved from the working directory
+ * @returns {Promise<ProviderPlugin[]>} The providers of the config file followed by the additional ones
+ * @throws {Error} If the setting is invalid or a plugin can't be loaded
+ */
+export async function loadConfigPlugins(configPath: string | undefined, specifiers: string[] = []): Promise<ProviderPlugin[]> {
+    const configPlugins = configPath
+        ? await loadProviderPlugins(readPluginSettings(configPath), dirname(resolve(configPath)))
+        : [];
+    return [...configPlugins, ...await loadProviderPlugins(specifiers, process.cwd())];
+}
@@ -1,6 +1,39 @@
-import { SecretProvider, PathComponentType } from '../SecretProvider.js';
+import { SecretProvider, PathComponentType, ProviderHealth } from '../SecretProvider.js';
 import { CliHandler } from '../CliHandler.js';
 import { EMOJI } from '../constants.js';
+import { getLogger } from '../context.js';
+import { assertInteractive } from '../interactive.js';
+import { SalakalaError, AuthenticationError, InvalidPathError, SecretNotFoundError, isRetryableError, ErrorPatterns } from '../errors.js';
+
+/**
+ * Patterns in op error messages that identify the kind of failure
+ */
+const OP_ERRORS: ErrorPatterns = {
+    notFound: /isn't an item|isn't a field|isn't a vault|could not find|no item found|not found/i,
+    authentication: /not currently signed in|not signed in|session expired|authenticat|unauthorized|incorrect password|invalid token/i,
+    unavailable: /connection refused|no such host|network is unreachable|i\/o timeout/i,
+    retryable: /connection reset|i\/o timeout|timed out|too many requests|rate limit|\b(429|502|503|504)\b/i,
+};
+
+type OnePasswordSection = {
+    id: string;
+    label?: string;
+}
+
+type OnePasswordItem = {
+    id?: string;
+    title?: string;
+    category?: string;
+    sections?: OnePasswordSection[];
+    fields?: {
+        id?: string;
+        type: string;
+        purpose?: string;
+        label?: string;
+        value?: string;
+        section?: OnePasswordSection;
+    }[];
+}
 
 /**
  * Provider for accessing secrets stored in 1Password using the 1Password CLI (op).
@@ -23,11 +56,16 @@ export class OnePasswordProvider extends SecretProvider {
     ];
 
     private sessionToken: string | null = null;
+    /**
+     * Pending or completed interactive signin, shared so concurrent reads prompt only once.
+     * @private
+     */
+    private signInRequest: Promise<string> | null = null;
     private cli: CliHandler;
 
     constructor() {
         super();
-        this.cli = new CliHandler();
+        this.cli = new CliHandler(() => this.timeout);
         // Use service account token if available
         if (process.env.OP_SERVICE_ACCOUNT_TOKEN) {
             this.sessionToken = process.env.OP_SERVICE_ACCOUNT_TOKEN;
@@ -44,6 +82,30 @@ export class OnePasswordProvider extends SecretProvider {
         return `op://${vault}/${item}/${fieldName}`;
     }
 
+    /**
+     * Checks that a path has the op://vault-name/item-name/[section-name/]field-name[::jsonKey] form.
+     * 
+     * @param {string} path - The 1Password secret reference path
+     * @returns {void}
+     * @throws {InvalidPathError} If the path is invalid
+     */
+    validatePath(path: string): void {
+        const { pathParts } = this.parsePath(path);
+        if (pathParts.length < 3 || pathParts.length > 4 || pathParts.some(part => part === '')) {
+            throw new InvalidPathError('Invalid path format. Expected: op://vault-name/item-name/[section-name/]field-name[::jsonKey]');
+        }
+    }
+
+    /**
+     * Retries op failures caused by rate limiting, server errors and network timeouts.
+     * 
+     * @param {unknown} error - The error thrown by getSecret or setSecret
+     * @returns {boolean} True if the error matches the retryable patterns
+     */
+    isRetryable(error: unknown): boolean {
+        return isRetryableError(error, OP_ERRORS);
+    }
+
     /**
      * Retrieves a secret value from 1Password using the CLI.
      * 
@@ -57,7 +119,7 @@ export class OnePasswordProvider extends SecretProvider {
     async getSecret(path: string): Promise<string> {
         // Format: op://vault-name/item-name/[section-name/]field-name[::jsonKey]
         if (!path.startsWith('op://')) {
-            throw new Error('Invalid 1Password secret path');
+            throw new InvalidPathError('Invalid 1Password secret path');
         }
 
         // Parse the path to separate the 1Password reference from any JSON key
@@ -81,22 +143,15 @@ export class OnePasswordProvider extends SecretProvider {
 
             return secretValue;
         } catch (error: unknown) {
-            // Only attempt interactive signin if not using service account token
-            if (!process.env.OP_SERVICE_ACCOUNT_TOKEN) {
+            // Only attempt interactive signin if not using service account token,
+            // and not when the secret is known to be missing or the CLI can't run
+            const signInMayHelp = !(error instanceof SalakalaError) || error instanceof AuthenticationError;
+            if (!process.env.OP_SERVICE_ACCOUNT_TOKEN && signInMayHelp) {
                 try {
-                    console.log(`${EMOJI.LOGIN} 1Password needs to login. You are interacting with 1Password CLI now.`);
-                    const loginResponse = await this.cli.run('op signin --raw', {
-                        interactive: true,
-                        passwordPrompt: 'Enter the password for',
-                        suppressStdout: true,
-                    });
-                    if (loginResponse.state !== 'ok') {
-                        throw new Error(loginResponse.error?.message || loginResponse.message || 'Unable to run op signin');
-                    }
-                    this.sessionToken = loginResponse.stdout.trim();
+                    const sessionToken = await this.signIn();
 
                     // Retry with the new session token
-                    const secretValue = await this.getSecretValue(opPath, this.sessionToken);
+                    const secretValue = await this.getSecretValue(opPath, sessionToken);
 
                     // If there's a JSON key, parse and extract the value
                     if (parsedPath.jsonKey) {
@@ -114,6 +169,81 @@ export class OnePasswordProvider extends SecretProvider {
         }
     }
 
+    /**
+     * Signs in to 1Password interactively and caches the session token.
+     * Only one signin runs per provider instance; concurrent callers share it.
+     * 
+     * @returns {Promise<string>} The session token
+     * @throws {Error} If the signin fails
+     * @private
+     */
+    private signIn(): Promise<string> {
+        if (!this.signInRequest) {
+            this.signInRequest = (async () => {
+                assertInteractive('sign in to 1Password', "Set OP_SERVICE_ACCOUNT_TOKEN or run 'op signin' beforehand.");
+                getLogger().info(`${EMOJI.LOGIN} 1Password needs to login. You are interacting with 1Password CLI now.`);
+                const loginResponse = await this.cli.run('op', ['signin', '--raw'], {
+                    interactive: true,
+                    passwordPrompt: 'Enter the password for',
+                    suppressStdout: true,
+                });
+                if (loginResponse.state !== 'ok') {
+                    throw loginResponse.toError('Unable to run op signin', OP_ERRORS);
+                }
+                this.sessionToken = loginResponse.stdout.trim();
+                return this.sessionToken;
+            })();
+            // Allow another attempt if this one failed
+            this.signInRequest.catch(() => { this.signInRequest = null; });
+        }
+        return this.signInRequest;
+    }
+
+    /**
+     * Makes sure the 1Password CLI is signed in before secrets are fetched.
+     * Skipped when a service account token or session token is available,
+     * or when the CLI is already signed in (e.g. through the desktop app integration).
+     * 
+     * @returns {Promise<void>}
+     * @throws {Error} If the signin fails
+     */
+    async prepare(): Promise<void> {
+        if (this.sessionToken) {
+            return;
+        }
+        const whoamiResponse = await this.cli.run('op', ['whoami']);
+        if (whoamiResponse.state === 'catastrophic') {
+            throw whoamiResponse.toError('Unable to run op whoami');
+        }
+        if (whoamiResponse.state !== 'ok') {
+            await this.signIn();
+        }
+    }
+
+    /**
+     * Checks that the 1Password CLI is installed and whether it is signed in,
+     * either with OP_SERVICE_ACCOUNT_TOKEN or an existing session.
+     * 
+     * @returns {Promise<ProviderHealth>} The results of the checks
+     */
+    async checkHealth(): Promise<ProviderHealth> {
+        const cli = await this.cli.checkInstalled('op', '1Password CLI');
+        if (cli.status !== 'ok') {
+            return { cli, credentials: { status: 'skipped', detail: 'The 1Password CLI is not available' } };
+        }
+        const whoamiResponse = await this.cli.run('op', ['whoami']);
+        if (whoamiResponse.state === 'ok') {
+            const account = whoamiResponse.stdout.match(/Email:\s*(\S+)/)?.[1];
+            const method = process.env.OP_SERVICE_ACCOUNT_TOKEN ? 'with OP_SERVICE_ACCOUNT_TOKEN' : (account ? `as ${account}` : '');
+            return { cli, credentials: { status: 'ok', detail: `Signed in ${method}`.trim() } };
+        }
+        if (process.env.OP_SERVICE_ACCOUNT_TOKEN) {
+            const reason = whoamiResponse.stderr.trim() || whoamiResponse.message;
+            return { cli, credentials: { status: 'error', detail: `OP_SERVICE_ACCOUNT_TOKEN is set but op whoami failed: ${reason}` } };
+        }
+        return { cli, credentials: { status: 'warning', detail: 'Not signed in, salakala will run op signin interactively' } };
+    }
+
     /**
      * Internal helper method to execute the 1Password CLI command and retrieve the secret value.
      * 
@@ -124,17 +254,16 @@ export class OnePasswordProvider extends SecretProvider {
      * @private
      */
     private async getSecretValue(path: string, sessionToken?: string): Promise<string> {
-        const command = `op read "${path}"`;
         const envVars = sessionToken ? { OP_SESSION: sessionToken } : undefined;
 
-        const response = await this.cli.run(command, { env: envVars });
+        const response = await this.cli.run('op', ['read', path], { env: envVars });
         if (response.state !== 'ok') {
-            throw new Error(response.error?.message || response.message || 'Unable to read secret');
+            throw response.toError('Unable to read secret', OP_ERRORS);
         }
 
         const value = response.stdout.trim();
         if (!value) {
-            throw new Error(`No value found for secret at path '${path}'`);
+            throw new SecretNotFoundError(`No value found for secret at path '${path}'`);
         }
 
         return value;
@@ -152,61 +281,169 @@ export class OnePasswordProvider extends SecretProvider {
      * @throws {Error} If the path is invalid or secret cannot be written
      */
     async setSecret(path: string, value: string): Promise<void> {
+        const { vaultName, itemName, fieldName, sectionName } = this.parseFieldPath(path);
+
+        try {
+            const envVars = this.sessionToken ? { OP_SESSION: this.sessionToken } : undefined;
+            
+            const checkResponse = await this.cli.run('op', ['item', 'get', itemName, `--vault=${vaultName}`, '--format=json'], { env: envVars });
+            
+            // The item is handed to op as a JSON template on stdin so the value never appears in the command line
+            if (checkResponse.state === 'ok') {
+                const item: OnePasswordItem = JSON.parse(checkResponse.stdout);
+                this.setItemField(item, fieldName, value, sectionName);
+                const editResponse = await this.cli.run('op', ['item', 'edit', item.id!, `--vault=${vaultName}`], {
+                    env: envVars,
+                    input: JSON.stringify(item),
+                });
+                if (editResponse.state !== 'ok') {
+                    throw editResponse.toError('Failed to update 1Password item', OP_ERRORS);
+                }
+            } else {
+                const item: OnePasswordItem = { title: itemName, category: 'LOGIN', fields: [] };
+                this.setItemField(item, fieldName, value, sectionName);
+                const createResponse = await this.cli.run('op', ['item', 'create', `--vault=${vaultName}`], {
+                    env: envVars,
+                    input: JSON.stringify(item),
+                });
+                if (createResponse.state !== 'ok') {
+                    throw createResponse.toError('Failed to create 1Password item', OP_ERRORS);
+                }
+            }
+        } catch (error: unknown) {
+            this.wrapProviderError(error, 'write', '1Password');
+        }
+    }
+
+    /**
+     * Splits a field path into the vault, item, section and field names.
+     * 
+     * @param {string} path - Path like op://vault-name/item-name/[section-name/]field-name
+     * @returns The names, with sectionName undefined for fields outside a section
+     * @throws {InvalidPathError} If the path doesn't name a field
+     * @private
+     */
+    private parseFieldPath(path: string): { vaultName: string, itemName: string, fieldName: string, sectionName?: string } {
         if (!path.startsWith('op://')) {
-            throw new Error('Invalid 1Password secret path');
+            throw new InvalidPathError('Invalid 1Password secret path');
         }
 
-        const parsedPath = this.parsePath(path);
-        const pathParts = parsedPath.pathParts;
+        const pathParts = this.parsePath(path).pathParts;
 
         if (pathParts.length < 2) {
-            throw new Error('1Password path must include at least vault and item name');
+            throw new InvalidPathError('1Password path must include at least vault and item name');
+        }
+        if (pathParts.length === 2) {
+            throw new InvalidPathError('1Password path must include a field name');
         }
 
-        const vaultName = pathParts[0];
-        const itemName = pathParts[1];
-        let fieldName: string;
-        let sectionName: string | undefined;
+        return {
+            vaultName: pathParts[0],
+            itemName: pathParts[1],
+            fieldName: pathParts[pathParts.length - 1],
+            sectionName: pathParts.length > 3 ? pathParts.slice(2, -1).join('.') : undefined,
+        };
+    }
 
-        if (pathParts.length === 2) {
-            throw new Error('1Password path must include a field name');
-        } else if (pathParts.length === 3) {
-            fieldName = pathParts[2];
-        } else {
-            sectionName = pathParts.slice(2, -1).join('.');
-            fieldName = pathParts[pathParts.length - 1];
+    /**
+     * Finds a field of an item template by its label and section label.
+     * 
+     * @param {OnePasswordItem} item - The item, as returned by `op item get --format=json`
+     * @param {string} fieldName - The field label
+     * @param {string} [sectionName] - The section label, for fields inside a section
+     * @returns The field, or undefined if the item doesn't have it
+     * @private
+     */
+    private findItemField(item: OnePasswordItem, fieldName: string, sectionName?: string) {
+        return item.fields?.find(f => f.label === fieldName && (sectionName ? f.section?.label === sectionName : !f.section?.label));
+    }
+
+    /**
+     * Sets a field in an item template, adding the field and its section if they don't exist.
+     * New username and password fields outside a section become the item's built-in login fields.
+     * 
+     * @param {OnePasswordItem} item - The item, as returned by `op item get --format=json`
+     * @param {string} fieldName - The field label
+     * @param {string} value - The field value
+     * @param {string} [sectionName] - The section label, for fields inside a section
+     * @private
+     */
+    private setItemField(item: OnePasswordItem, fieldName: string, value: string, sectionName?: string): void {
+        item.fields = item.fields ?? [];
+        const field = this.findItemField(item, fieldName, sectionName);
+        if (field) {
+            field.value = value;
+            return;
+        }
+
+        let section: OnePasswordSection | undefined;
+        if (sectionName) {
+            item.sections = item.sections ?? [];
+            section = item.sections.find(s => s.label === sectionName);
+            if (!section) {
+                section = { id: sectionName, label: sectionName };
+                item.sections.push(section);
+            }
         }
 
+        const purpose = !section && (fieldName === 'username' || fieldName === 'password') ? fieldName.toUpperCase() : undefined;
+        item.fields.push({
+            label: fieldName,
+            type: purpose === 'USERNAME' ? 'STRING' : 'CONCEALED',
+            value,
+            ...(purpose ? { id: fieldName, purpose } : {}),
+            ...(section ? { section: { id: section.id } } : {}),
+        });
+    }
+
+    /**
+     * Deletes one field of a 1Password item, or the whole item if no other field has a value.
+     * The built-in username and password fields can't be removed from an item, so they are emptied.
+     * 
+     * @param {string} path - The 1Password secret reference path
+     *                        Format: op://vault-name/item-name/[section-name/]field-name
+     * @returns {Promise<void>}
+     * @throws {Error} If the path is invalid, the field doesn't exist or it cannot be deleted
+     */
+    async deleteField(path: string): Promise<void> {
+        const { vaultName, itemName, fieldName, sectionName } = this.parseFieldPath(path);
+        let otherValues: boolean;
+
         try {
             const envVars = this.sessionToken ? { OP_SESSION: this.sessionToken } : undefined;
-            
-            const checkCommand = `op item get "${itemName}" --vault="${vaultName}" --format=json`;
-            const checkResponse = await this.cli.run(checkCommand, { env: envVars });
-            
-            if (checkResponse.state === 'ok') {
-                const fieldPath = sectionName ? `${sectionName}.${fieldName}` : fieldName;
-                const escapedValue = this.cli.escapeShellValue(value);
-                const editCommand = `op item edit "${itemName}" --vault="${vaultName}" '${fieldPath}=${escapedValue}'`;
+            const getResponse = await this.cli.run('op', ['item', 'get', itemName, `--vault=${vaultName}`, '--format=json'], { env: envVars });
+            if (getResponse.state !== 'ok') {
+                throw getResponse.toError('Failed to read 1Password item', OP_ERRORS);
+            }
 
-                const editResponse = await this.cli.run(editCommand, { env: envVars });
-                if (editResponse.state !== 'ok') {
-                    throw new Error(editResponse.error?.message || editResponse.message || 'Failed to update 1Password item');
-                }
+            const item: OnePasswordItem = JSON.parse(getResponse.stdout);
+            const field = this.findItemField(item, fieldName, sectionName);
+            if (!field) {
+                throw new SecretNotFoundError(`No field '${fieldName}' in 1Password item ${itemName}`);
+            }
+            if (field.purpose) {
+                field.value = '';
             } else {
-                const escapedValue = this.cli.escapeShellValue(value);
-                const fieldSpec = sectionName 
-                    ? `${sectionName}.${fieldName}[password]=${escapedValue}`
-                    : `${fieldName}[password]=${escapedValue}`;
-                
-                const createCommand = `op item create --category=login --title="${itemName}" --vault="${vaultName}" '${fieldSpec}'`;
-
-                const createResponse = await this.cli.run(createCommand, { env: envVars });
-                if (createResponse.state !== 'ok') {
-                    throw new Error(createResponse.error?.message || createResponse.message || 'Failed to create 1Password item');
+                item.fields = item.fields!.filter(f => f !== field);
+            }
+
+            otherValues = item.fields!.some(f => f.value);
+            if (otherValues) {
+                getLogger().info(`${EMOJI.DELETING} Deleting field ${fieldName} of 1Password item ${itemName}...`);
+                const editResponse = await this.cli.run('op', ['item', 'edit', item.id!, `--vault=${vaultName}`], {
+                    env: envVars,
+                    input: JSON.stringify(item),
+                });
+                if (editResponse.state !== 'ok') {
+                    throw editResponse.toError('Failed to update 1Password item', OP_ERRORS);
                 }
             }
         } catch (error: unknown) {
-            this.wrapProviderError(error, 'write', '1Password');
+            this.wrapProviderError(error, 'delete', '1Password');
+        }
+
+        if (!otherValues) {
+            await this.deleteSecret(path);
         }
     }
 
@@ -222,30 +459,68 @@ export class OnePasswordProvider extends SecretProvider {
      */
     async deleteSecret(path: string): Promise<void> {
         if (!path.startsWith('op://')) {
-            throw new Error('Invalid 1Password secret path');
+            throw new InvalidPathError('Invalid 1Password secret path');
         }
 
         const parsedPath = this.parsePath(path);
         const pathParts = parsedPath.pathParts;
 
         if (pathParts.length < 2) {
-            throw new Error('1Password path must include at least vault and item name');
+            throw new InvalidPathError('1Password path must include at least vault and item name');
         }
 
         const vaultName = pathParts[0];
         const itemName = pathParts[1];
 
         try {
-            console.log(`${EMOJI.DELETING} Deleting 1Password item ${itemName}...`);
+            getLogger().info(`${EMOJI.DELETING} Deleting 1Password item ${itemName}...`);
             const envVars = this.sessionToken ? { OP_SESSION: this.sessionToken } : undefined;
-            const deleteCommand = `op item delete "${itemName}" --vault="${vaultName}"`;
-
-            const deleteResponse = await this.cli.run(deleteCommand, { env: envVars });
+            const deleteResponse = await this.cli.run('op', ['item', 'delete', itemName, `--vault=${vaultName}`], { env: envVars });
             if (deleteResponse.state !== 'ok') {
-                throw new Error(deleteResponse.error?.message || deleteResponse.message || 'Failed to delete 1Password item');
+                throw deleteResponse.toError('Failed to delete 1Password item', OP_ERRORS);
             }
         } catch (error: unknown) {
             this.wrapProviderError(error, 'delete', '1Password');
         }
     }
+
+    /**
+     * Lists 1Password vaults, items or fields, depending on how much of the path the prefix has:
+     * op:// lists vaults, op://vault/ lists its items and op://vault/item/ lists the item's fields.
+     * Vaults and items are listed as containers ending in `/`.
+     * 
+     * @param {string} prefix - The URI prefix (e.g., 'op://Development/API')
+     * @returns {Promise<string[]>} The matching URIs
+     * @throws {Error} If op fails or the item doesn't exist
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        const [vaultName, itemName, ...rest] = prefix.slice('op://'.length).split('/');
+        const envVars = this.sessionToken ? { OP_SESSION: this.sessionToken } : undefined;
+
+        const runJson = async <T>(args: string[]): Promise<T> => {
+            const response = await this.cli.run('op', [...args, '--format=json'], { env: envVars });
+            if (response.state !== 'ok') {
+                throw response.toError(`Unable to run op ${args.slice(0, 2).join(' ')}`, OP_ERRORS);
+            }
+            return JSON.parse(response.stdout);
+        };
+
+        try {
+            if (itemName === undefined) {
+                const vaults = await runJson<{ name: string }[]>(['vault', 'list']);
+                return this.matchingUris(prefix, vaults.map(vault => `op://${vault.name}/`));
+            }
+            if (rest.length === 0) {
+                const items = await runJson<OnePasswordItem[]>(['item', 'list', `--vault=${vaultName}`]);
+                return this.matchingUris(prefix, items.map(item => `op://${vaultName}/${item.title}/`));
+            }
+            const item = await runJson<OnePasswordItem>(['item', 'get', itemName, `--vault=${vaultName}`]);
+            const fields = (item.fields ?? []).filter(field => field.label);
+            return this.matchingUris(prefix, fields.map(field => field.section?.label
+                ? `op://${vaultName}/${itemName}/${field.section.label}/${field.label}`
+                : `op://${vaultName}/${itemName}/${field.label}`));
+        } catch (error: unknown) {
+            this.wrapProviderError(error, 'list', '1Password');
+        }
+    }
 }
\ No newline at end of file
@@ -1,7 +1,19 @@
-import { SecretProvider, PathComponentType } from '../SecretProvider.js';
-import { SecretsManager, CreateSecretCommand, PutSecretValueCommand, DeleteSecretCommand, ResourceExistsException } from '@aws-sdk/client-secrets-manager';
+import { SecretProvider, PathComponentType, ProviderHealth } from '../SecretProvider.js';
+import { SecretsManager, CreateSecretCommand, PutSecretValueCommand, DeleteSecretCommand, ListSecretsCommand, ResourceExistsException } from '@aws-sdk/client-secrets-manager';
 import { CliHandler } from '../CliHandler.js';
 import { EMOJI } from '../constants.js';
+import { getLogger } from '../context.js';
+import { AuthenticationError, InvalidPathError, SecretNotFoundError, classifyError, isRetryableError, ErrorPatterns } from '../errors.js';
+
+/**
+ * Patterns in AWS SDK error names and messages that identify the kind of failure
+ */
+const AWS_ERRORS: ErrorPatterns = {
+    notFound: /^ResourceNotFoundException:/,
+    authentication: /^(AccessDeniedException|UnrecognizedClientException|ExpiredTokenException|InvalidSignatureException|InvalidClientTokenId|CredentialsProviderError):/,
+    unavailable: /^(TimeoutError|ServiceUnavailableException|InternalServiceError):|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|EAI_AGAIN/,
+    retryable: /^(ThrottlingException|TooManyRequestsException|RequestLimitExceeded|TimeoutError|ServiceUnavailableException|InternalServiceError):|Rate exceeded|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up/,
+};
 
 /**
  * Provider for accessing secrets stored in AWS Secrets Manager.
@@ -19,6 +31,7 @@ import { EMOJI } from '../constants.js';
  */
 export class AWSSecretsManagerProvider extends SecretProvider {
     readonly supportsMultipleFields = false;
+    readonly idempotentWrites = true;
     readonly pathComponents = [
         { name: 'region', type: PathComponentType.Region, description: 'AWS region (e.g., us-east-1)', required: true },
         { name: 'secret', type: PathComponentType.Item, description: 'Secret name', required: true },
@@ -56,6 +69,50 @@ export class AWSSecretsManagerProvider extends SecretProvider {
         return this.getOrCreateClient(this.clients, region, () => new SecretsManager({ region }));
     }
 
+    /**
+     * Checks that a path has the awssm://region/secret-name[::jsonKey] form.
+     * 
+     * @param {string} path - The AWS Secrets Manager reference path
+     * @returns {void}
+     * @throws {InvalidPathError} If the path is invalid
+     */
+    validatePath(path: string): void {
+        this.parsePathWithRegex(
+            this.parsePath(path).path,
+            /^([^\/]+)\/(.+)$/,
+            'awssm://region/secret-name[::jsonKey]'
+        );
+    }
+
+    /**
+     * Checks that the AWS credential chain resolves to credentials.
+     * 
+     * @returns {Promise<ProviderHealth>} The results of the checks
+     */
+    async checkHealth(): Promise<ProviderHealth> {
+        const client = this.getClient(process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || 'us-east-1');
+        try {
+            await this.withTimeout('Resolving AWS credentials', () => client.config.credentials());
+            const source = process.env.AWS_ACCESS_KEY_ID
+                ? 'environment variables'
+                : process.env.AWS_PROFILE ? `profile '${process.env.AWS_PROFILE}'` : 'the default credential chain';
+            return { credentials: { status: 'ok', detail: `Credentials found in ${source}` } };
+        } catch (error: unknown) {
+            const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+            return { credentials: { status: 'error', detail: `No AWS credentials found: ${reason}. Run aws configure or aws sso login` } };
+        }
+    }
+
+    /**
+     * Retries throttled AWS requests, temporary service errors and dropped connections.
+     * 
+     * @param {unknown} error - The error thrown by getSecret or setSecret
+     * @returns {boolean} True if the error matches the retryable patterns
+     */
+    isRetryable(error: unknown): boolean {
+        return isRetryableError(error, AWS_ERRORS);
+    }
+
     /**
      * Retrieves a secret value from AWS Secrets Manager.
      * 
@@ -80,10 +137,12 @@ export class AWSSecretsManagerProvider extends SecretProvider {
 
         try {
             // Retrieve the secret value from AWS Secrets Manager
-            const response = await client.getSecretValue({ SecretId: secretId });
+            const response = await this.withTimeout(`Reading secret ${secretId}`, abortSignal =>
+                client.getSecretValue({ SecretId: secretId }, { abortSignal })
+            );
             
             if (!response.SecretString && !response.SecretBinary) {
-                throw new Error('Secret value is empty');
+                throw new SecretNotFoundError('Secret value is empty');
             }
 
             const secretValue = response.SecretString || 
@@ -97,29 +156,18 @@ export class AWSSecretsManagerProvider extends SecretProvider {
             // If no key specified, return the raw value
             return secretValue;
         } catch (error: unknown) {
-            if (error instanceof Error) {
-                // If it's our own error, throw it directly
-                if (error.message.includes('Key') || 
-                    error.message.includes('JSON') || 
-                    error.message.includes('empty')) {
-                    throw error;
-                }
+            const typedError = classifyError(error, AWS_ERRORS);
 
-                // For authentication issues, try to reauthenticate
-                const errorMessage = error.message.toLowerCase();
-                if (errorMessage.includes('credentials') || 
-                    errorMessage.includes('authentication') || 
-                    errorMessage.includes('access denied')) {
-                    
-                    const response = await this.cli.promptForAuthentication('AWS', 'aws configure');
-                    if (response) {
-                        this.clients.delete(region);
-                        return this.getSecret(path);
-                    }
+            // For authentication issues, try to reauthenticate
+            if (typedError instanceof AuthenticationError) {
+                const response = await this.cli.promptForAuthentication('AWS', 'aws', ['configure']);
+                if (response) {
+                    this.clients.delete(region);
+                    return this.getSecret(path);
                 }
             }
             
-            this.wrapProviderError(error, 'read', 'AWS Secrets Manager');
+            this.wrapProviderError(typedError, 'read', 'AWS Secrets Manager');
         }
     }
 
@@ -147,25 +195,25 @@ export class AWSSecretsManagerProvider extends SecretProvider {
         try {
             // Try to create the secret first
             try {
-                console.log(`${EMOJI.CREATING} Creating secret ${secretId}...`);
-                await client.send(new CreateSecretCommand({
+                getLogger().info(`${EMOJI.CREATING} Creating secret ${secretId}...`);
+                await this.withTimeout(`Creating secret ${secretId}`, abortSignal => client.send(new CreateSecretCommand({
                     Name: secretId,
                     SecretString: value
-                }));
+                }), { abortSignal }));
             } catch (error: any) {
                 // If secret already exists, update it instead
                 if (error.name === 'ResourceExistsException' || error instanceof ResourceExistsException) {
-                    console.log(`${EMOJI.EXISTING} Secret ${secretId} already exists, updating...`);
-                    await client.send(new PutSecretValueCommand({
+                    getLogger().info(`${EMOJI.EXISTING} Secret ${secretId} already exists, updating...`);
+                    await this.withTimeout(`Updating secret ${secretId}`, abortSignal => client.send(new PutSecretValueCommand({
                         SecretId: secretId,
                         SecretString: value
-                    }));
+                    }), { abortSignal }));
                 } else {
                     throw error;
                 }
             }
         } catch (error: unknown) {
-            this.wrapProviderError(error, 'write', 'AWS Secrets Manager');
+            this.wrapProviderError(classifyError(error, AWS_ERRORS), 'write', 'AWS Secrets Manager');
         }
     }
 
@@ -189,13 +237,47 @@ export class AWSSecretsManagerProvider extends SecretProvider {
         const client = this.getClient(region);
 
         try {
-            console.log(`${EMOJI.DELETING} Deleting secret ${secretId}...`);
-            await client.send(new DeleteSecretCommand({
+            getLogger().info(`${EMOJI.DELETING} Deleting secret ${secretId}...`);
+            await this.withTimeout(`Deleting secret ${secretId}`, abortSignal => client.send(new DeleteSecretCommand({
                 SecretId: secretId,
                 ForceDeleteWithoutRecovery: true
-            }));
+            }), { abortSignal }));
+        } catch (error: unknown) {
+            this.wrapProviderError(classifyError(error, AWS_ERRORS), 'delete', 'AWS Secrets Manager');
+        }
+    }
+
+    /**
+     * Lists the secrets of a region whose names start with the rest of the prefix.
+     * 
+     * @param {string} prefix - The URI prefix, including the region
+     *                          Example: awssm://us-east-1/prod/
+     * @returns {Promise<string[]>} The matching URIs
+     * @throws {InvalidPathError} If the prefix has no region
+     * @throws {Error} If the secrets cannot be listed
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        const match = prefix.match(/^awssm:\/\/([^\/]+)\/(.*)$/);
+        if (!match) {
+            throw new InvalidPathError('AWS Secrets Manager prefix must include the region, e.g. awssm://us-east-1/');
+        }
+        const [, region, namePrefix] = match;
+        const client = this.getClient(region);
+
+        try {
+            const uris: string[] = [];
+            let nextToken: string | undefined;
+            do {
+                const response = await this.withTimeout(`Listing secrets in ${region}`, abortSignal => client.send(new ListSecretsCommand({
+                    Filters: namePrefix ? [{ Key: 'name', Values: [namePrefix] }] : undefined,
+                    NextToken: nextToken,
+                }), { abortSignal }));
+                uris.push(...(response.SecretList ?? []).map(secret => `awssm://${region}/${secret.Name}`));
+                nextToken = response.NextToken;
+            } while (nextToken);
+            return this.matchingUris(prefix, uris);
         } catch (error: unknown) {
-            this.wrapProviderError(error, 'delete', 'AWS Secrets Manager');
+            this.wrapProviderError(classifyError(error, AWS_ERRORS), 'list', 'AWS Secrets Manager');
         }
     }
 }
\ No newline at end of file
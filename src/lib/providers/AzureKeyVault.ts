@@ -1,8 +1,25 @@
-import { SecretProvider, PathComponentType } from '../SecretProvider.js';
+import { SecretProvider, PathComponentType, ProviderHealth } from '../SecretProvider.js';
 import { SecretClient } from '@azure/keyvault-secrets';
 import { DefaultAzureCredential } from '@azure/identity';
 import { CliHandler } from '../CliHandler.js';
 import { EMOJI } from '../constants.js';
+import { getLogger } from '../context.js';
+import { AuthenticationError, InvalidPathError, SecretNotFoundError, classifyError, isRetryableError, ErrorPatterns } from '../errors.js';
+
+/**
+ * Patterns in Azure SDK error names and messages that identify the kind of failure
+ */
+const AZURE_ERRORS: ErrorPatterns = {
+    notFound: /was not found in this key vault|SecretNotFound/,
+    authentication: /^(CredentialUnavailableError|AuthenticationError|AggregateAuthenticationError):|not authorized|does not have secrets \w+ permission|Forbidden|Unauthorized/,
+    unavailable: /ECONNREFUSED|ENOTFOUND|ETIMEDOUT|EAI_AGAIN/,
+    retryable: /Status (429|500|502|503|504)|Too Many Requests|ServiceUnavailable|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up/,
+};
+
+/**
+ * Secret names Key Vault accepts
+ */
+const SECRET_NAME = /^[0-9A-Za-z-]{1,127}$/;
 
 /**
  * Provider for accessing secrets stored in Azure Key Vault.
@@ -19,6 +36,7 @@ import { EMOJI } from '../constants.js';
  */
 export class AzureKeyVaultProvider extends SecretProvider {
     readonly supportsMultipleFields = false;
+    readonly idempotentWrites = true;
     readonly pathComponents = [
         { name: 'vaultHost', type: PathComponentType.Host, description: 'Vault host (e.g., my-vault.vault.azure.net)', required: true },
         { name: 'secret', type: PathComponentType.Item, description: 'Secret name', required: true },
@@ -60,6 +78,66 @@ export class AzureKeyVaultProvider extends SecretProvider {
         });
     }
 
+    /**
+     * Checks that a path has the azurekv://vault-name.vault.azure.net/secret-name[::jsonKey] form.
+     * 
+     * @param {string} path - The Azure Key Vault reference path
+     * @returns {void}
+     * @throws {InvalidPathError} If the path is invalid
+     */
+    validatePath(path: string): void {
+        this.parsePathWithRegex(
+            this.parsePath(path).path,
+            /^([^\/]+)\/(.+)$/,
+            'azurekv://vault-name.vault.azure.net/secret-name[::jsonKey]'
+        );
+    }
+
+    /**
+     * Checks that a secret name is one Key Vault accepts: 1-127 letters, digits and dashes.
+     * Names like DB_PASSWORD are rejected by Key Vault, so they are reported before writing.
+     * 
+     * @param {string} path - The Azure Key Vault reference path
+     * @returns {void}
+     * @throws {InvalidPathError} If the path is invalid or the secret name isn't allowed
+     */
+    validateWritePath(path: string): void {
+        this.validatePath(path);
+        const secretName = this.parsePath(path).path.split('/').slice(1).join('/');
+        if (!SECRET_NAME.test(secretName)) {
+            throw new InvalidPathError(
+                `Invalid Azure Key Vault secret name '${secretName}': names can only contain letters, digits and dashes, up to 127 characters`
+            );
+        }
+    }
+
+    /**
+     * Checks that DefaultAzureCredential can get a token for Key Vault.
+     * 
+     * @returns {Promise<ProviderHealth>} The results of the checks
+     */
+    async checkHealth(): Promise<ProviderHealth> {
+        try {
+            await this.withTimeout('Getting an Azure access token', abortSignal =>
+                new DefaultAzureCredential().getToken('https://vault.azure.net/.default', { abortSignal })
+            );
+            return { credentials: { status: 'ok', detail: 'DefaultAzureCredential can access Key Vault' } };
+        } catch (error: unknown) {
+            const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+            return { credentials: { status: 'error', detail: `No usable Azure credentials: ${reason}. Run az login` } };
+        }
+    }
+
+    /**
+     * Retries throttled (429) and temporarily unavailable Key Vault responses and dropped connections.
+     * 
+     * @param {unknown} error - The error thrown by getSecret or setSecret
+     * @returns {boolean} True if the error matches the retryable patterns
+     */
+    isRetryable(error: unknown): boolean {
+        return isRetryableError(error, AZURE_ERRORS);
+    }
+
     /**
      * Retrieves a secret value from Azure Key Vault.
      * 
@@ -85,10 +163,12 @@ export class AzureKeyVaultProvider extends SecretProvider {
 
         try {
             // Retrieve the secret from Azure Key Vault
-            const response = await client.getSecret(secretName);
+            const response = await this.withTimeout(`Reading secret ${secretName}`, abortSignal =>
+                client.getSecret(secretName, { abortSignal })
+            );
             
             if (!response.value) {
-                throw new Error('Secret value is empty');
+                throw new SecretNotFoundError('Secret value is empty');
             }
 
             const secretValue = response.value;
@@ -101,30 +181,18 @@ export class AzureKeyVaultProvider extends SecretProvider {
             // Azure Key Vault returns base64 encoded strings for binary secrets automatically
             return secretValue;
         } catch (error: unknown) {
-            if (error instanceof Error) {
-                // If it's our own error, throw it directly
-                if (error.message.includes('Key') || 
-                    error.message.includes('JSON') || 
-                    error.message.includes('empty')) {
-                    throw error;
-                }
+            const typedError = classifyError(error, AZURE_ERRORS);
 
-                const errorMessage = error.message.toLowerCase();
-                // Check for common authentication/credentials errors
-                if (errorMessage.includes('authentication failed') || 
-                    errorMessage.includes('unauthorized') || 
-                    errorMessage.includes('forbidden') ||
-                    errorMessage.includes('credentials')) {
-                    
-                    // Ask if they want to authenticate with Azure
-                    const response = await this.cli.promptForAuthentication('Azure', 'az login');
-                    if (response) {
-                        throw new Error('Please try accessing the secret again after Azure authentication is complete.');
-                    }
+            // Check for common authentication/credentials errors
+            if (typedError instanceof AuthenticationError) {
+                // Ask if they want to authenticate with Azure
+                const response = await this.cli.promptForAuthentication('Azure', 'az', ['login']);
+                if (response) {
+                    throw new AuthenticationError('Please try accessing the secret again after Azure authentication is complete.', { cause: typedError });
                 }
             }
             
-            this.wrapProviderError(error, 'read', 'Azure Key Vault');
+            this.wrapProviderError(typedError, 'read', 'Azure Key Vault');
         }
     }
 
@@ -141,6 +209,7 @@ export class AzureKeyVaultProvider extends SecretProvider {
      * @throws {Error} If the path is invalid or secret cannot be written
      */
     async setSecret(path: string, value: string): Promise<void> {
+        this.validateWritePath(path);
         const parsedPath = this.parsePath(path);
         
         const [, vaultUrl, secretName] = this.parsePathWithRegex(
@@ -152,10 +221,10 @@ export class AzureKeyVaultProvider extends SecretProvider {
         const client = this.getClient(fullVaultUrl);
 
         try {
-            console.log(`${EMOJI.UPDATING} Setting secret ${secretName} in Azure Key Vault...`);
-            await client.setSecret(secretName, value);
+            getLogger().info(`${EMOJI.UPDATING} Setting secret ${secretName} in Azure Key Vault...`);
+            await this.withTimeout(`Setting secret ${secretName}`, abortSignal => client.setSecret(secretName, value, { abortSignal }));
         } catch (error: unknown) {
-            this.wrapProviderError(error, 'write', 'Azure Key Vault');
+            this.wrapProviderError(classifyError(error, AZURE_ERRORS), 'write', 'Azure Key Vault');
         }
     }
 
@@ -180,11 +249,46 @@ export class AzureKeyVaultProvider extends SecretProvider {
         const client = this.getClient(fullVaultUrl);
 
         try {
-            console.log(`${EMOJI.DELETING} Deleting secret ${secretName}...`);
-            const poller = await client.beginDeleteSecret(secretName);
-            await poller.pollUntilDone();
+            getLogger().info(`${EMOJI.DELETING} Deleting secret ${secretName}...`);
+            await this.withTimeout(`Deleting secret ${secretName}`, async abortSignal => {
+                const poller = await client.beginDeleteSecret(secretName, { abortSignal });
+                await poller.pollUntilDone({ abortSignal });
+            });
+        } catch (error: unknown) {
+            this.wrapProviderError(classifyError(error, AZURE_ERRORS), 'delete', 'Azure Key Vault');
+        }
+    }
+
+    /**
+     * Lists the enabled secrets of a vault. Values are not read, only the secrets' properties.
+     * 
+     * @param {string} prefix - The URI prefix, including the vault host
+     *                          Example: azurekv://my-vault.vault.azure.net/
+     * @returns {Promise<string[]>} The matching URIs
+     * @throws {InvalidPathError} If the prefix has no vault host
+     * @throws {Error} If the secrets cannot be listed
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        const match = prefix.match(/^azurekv:\/\/([^\/]+)\//);
+        if (!match) {
+            throw new InvalidPathError('Azure Key Vault prefix must include the vault host, e.g. azurekv://my-vault.vault.azure.net/');
+        }
+        const vaultHost = match[1];
+        const client = this.getClient(`https://${vaultHost}`);
+
+        try {
+            const uris = await this.withTimeout(`Listing secrets of ${vaultHost}`, async abortSignal => {
+                const found: string[] = [];
+                for await (const properties of client.listPropertiesOfSecrets({ abortSignal })) {
+                    if (properties.enabled !== false) {
+                        found.push(`azurekv://${vaultHost}/${properties.name}`);
+                    }
+                }
+                return found;
+            });
+            return this.matchingUris(prefix, uris);
         } catch (error: unknown) {
-            this.wrapProviderError(error, 'delete', 'Azure Key Vault');
+            this.wrapProviderError(classifyError(error, AZURE_ERRORS), 'list', 'Azure Key Vault');
         }
     }
 } 
\ No newline at end of file
@@ -1,7 +1,19 @@
-import { execSync } from 'child_process';
-import { SecretProvider, PathComponentType } from '../SecretProvider.js';
+import { SecretProvider, PathComponentType, ProviderHealth } from '../SecretProvider.js';
 import { CliHandler } from '../CliHandler.js';
 import { EMOJI } from '../constants.js';
+import { getLogger } from '../context.js';
+import { assertInteractive } from '../interactive.js';
+import { InvalidPathError, SecretNotFoundError, isRetryableError, ErrorPatterns } from '../errors.js';
+
+/**
+ * Patterns in bw error messages that identify the kind of failure
+ */
+const BW_ERRORS: ErrorPatterns = {
+    notFound: /not found/i,
+    authentication: /not logged in|vault is locked|invalid master password|username or password is incorrect|invalid_client|invalid_grant|session key is invalid/i,
+    unavailable: /ECONNREFUSED|ENOTFOUND|ETIMEDOUT|fetch failed/i,
+    retryable: /ECONNRESET|ETIMEDOUT|EAI_AGAIN|fetch failed|socket hang up|too many requests|\b(429|502|503|504)\b/i,
+};
 
 type BitwardenFolder = {
     id: string | null;
@@ -50,14 +62,26 @@ export class BitwardenProvider extends SecretProvider {
         { name: 'item', type: PathComponentType.Item, description: 'Item name', required: true },
     ];
 
+    /**
+     * Unlocking derives the key from the master password and listing items decrypts the
+     * whole vault, which both take a while on large vaults, so bw gets a longer timeout.
+     */
+    timeout = 60000;
+
     private sessionKey: string | null = null;
     private cli: CliHandler;
     private folders: BitwardenFolder[] = [];
     private items: BitwardenItem[] = [];
+    /**
+     * Item list request, shared by all reads so bw logs in and lists items only once per run.
+     * Writes clear it, so the next read lists the items again.
+     * @private
+     */
+    private itemsRequest: Promise<BitwardenItem[]> | null = null;
     
     constructor() { 
         super();
-        this.cli = new CliHandler();
+        this.cli = new CliHandler(() => this.timeout);
     }
 
     buildPath(components: Record<string, string>, opts?: { fieldName?: string }): string {
@@ -75,14 +99,39 @@ export class BitwardenProvider extends SecretProvider {
      * @returns {Promise<BitwardenItem[]>} A promise that resolves to an array of Bitwarden items.
      */
     async getItems(): Promise<BitwardenItem[]> {
-        if(this.items.length > 0) {
-            return this.items;
+        if(!this.itemsRequest) {
+            const request = this.loadItems();
+            this.itemsRequest = request;
+            // A failed request isn't kept, so the next read tries again
+            request.catch(() => {
+                if(this.itemsRequest === request) {
+                    this.itemsRequest = null;
+                }
+            });
         }
+        return this.itemsRequest;
+    }
+
+    /**
+     * Forgets the loaded item list after a write changed the items.
+     * @private
+     */
+    private clearItems(): void {
+        this.items = [];
+        this.itemsRequest = null;
+    }
+
+    /**
+     * Logs in and loads the list of items from Bitwarden.
+     * @returns {Promise<BitwardenItem[]>} A promise that resolves to an array of Bitwarden items.
+     * @private
+     */
+    private async loadItems(): Promise<BitwardenItem[]> {
         await this.tryLogin();
         await this.getFolders();
-        const response = await this.cli.run(`bw list items --session="${this.sessionKey}"`);
+        const response = await this.cli.run('bw', ['list', 'items', '--session', this.sessionKey!]);
         if(response.state !== 'ok') {
-            throw new Error(response.message || 'Unable to run bw list items');
+            throw response.toError('Unable to run bw list items', BW_ERRORS);
         }
         try {
             this.items = (JSON.parse(response.stdout) as BitwardenItem[]).map((item) => {
@@ -94,12 +143,69 @@ export class BitwardenProvider extends SecretProvider {
                 return item;
             });
         } catch (e) {
-            console.error('Error parsing Bitwarden items', e);
+            getLogger().error(`Error parsing Bitwarden items: ${e instanceof Error ? e.message : String(e)}`);
             throw new Error('Unable to parse Bitwarden items');
         }
         return this.items;
     }
 
+    /**
+     * Logs in and loads the item list before secrets are fetched,
+     * so concurrent reads don't each start their own login.
+     * @returns {Promise<void>}
+     */
+    async prepare(): Promise<void> {
+        await this.getItems();
+    }
+
+    /**
+     * Checks that the Bitwarden CLI is installed and how salakala will log in.
+     * API key login with BW_CLIENTID, BW_CLIENTSECRET and BW_PASSWORD is non-interactive;
+     * otherwise the vault is unlocked interactively.
+     * 
+     * @returns {Promise<ProviderHealth>} The results of the checks
+     */
+    async checkHealth(): Promise<ProviderHealth> {
+        const cli = await this.cli.checkInstalled('bw', 'Bitwarden CLI');
+        if (cli.status !== 'ok') {
+            return { cli, credentials: { status: 'skipped', detail: 'The Bitwarden CLI is not available' } };
+        }
+        const apiKeyVariables = ['BW_CLIENTID', 'BW_CLIENTSECRET', 'BW_PASSWORD'];
+        const missing = apiKeyVariables.filter(name => !process.env[name]);
+        if (missing.length === 0) {
+            return { cli, credentials: { status: 'ok', detail: `API key login with ${apiKeyVariables.join(', ')}` } };
+        }
+        const hint = missing.length < apiKeyVariables.length ? ` (API key login also needs ${missing.join(', ')})` : '';
+        const loginStatusResponse = await this.cli.run('bw', ['login', '--check']);
+        if (loginStatusResponse.state === 'ok' && loginStatusResponse.stdout.includes('You are logged in')) {
+            return { cli, credentials: { status: 'warning', detail: `Logged in, salakala will unlock the vault interactively${hint}` } };
+        }
+        return { cli, credentials: { status: 'warning', detail: `Not logged in, salakala will run bw login interactively${hint}` } };
+    }
+
+    /**
+     * Checks that a path has the bw://[folder/]item/field[::jsonKey] form.
+     * 
+     * @param {string} path - The path to the secret
+     * @returns {void}
+     * @throws {InvalidPathError} If the path is invalid
+     */
+    validatePath(path: string): void {
+        if(this.parsePath(path).pathParts.length < 2) {
+            throw new InvalidPathError(`Bitwarden path must be in the format: bw://[folder/]item/field[::jsonKey]`);
+        }
+    }
+
+    /**
+     * Retries bw failures caused by dropped connections, rate limiting and server errors.
+     * 
+     * @param {unknown} error - The error thrown by getSecret or setSecret
+     * @returns {boolean} True if the error matches the retryable patterns
+     */
+    isRetryable(error: unknown): boolean {
+        return isRetryableError(error, BW_ERRORS);
+    }
+
     /**
      * Retrieves a specific secret from Bitwarden.
      * 
@@ -114,7 +220,7 @@ export class BitwardenProvider extends SecretProvider {
         await this.getItems();
         const parsedPath = this.parsePath(path);
         if(parsedPath.pathParts.length < 2) {
-            throw new Error(`Bitwarden path must be in the format: bw://[folder/]item/field[::jsonKey]`);
+            throw new InvalidPathError(`Bitwarden path must be in the format: bw://[folder/]item/field[::jsonKey]`);
         }
 
         // Determine item path and field based on path structure
@@ -122,7 +228,7 @@ export class BitwardenProvider extends SecretProvider {
         const item = this.items.find((item) => item.id === itemPath || item.path === itemPath);
         let foundValue = null;
         if(!item) {
-            throw new Error(`No item found with ID or name: ${itemPath}`);
+            throw new SecretNotFoundError(`No item found with ID or name: ${itemPath}`);
         }
         // First check the fields
         const field = item.fields?.find((field) => field.name === fieldPath);
@@ -161,7 +267,7 @@ export class BitwardenProvider extends SecretProvider {
         if(foundValue) {
             return this.returnPossibleJsonValue(foundValue, parsedPath.jsonKey);
         }
-        throw new Error(`No field found with name: ${parsedPath.pathParts[1]}`);
+        throw new SecretNotFoundError(`No field found with name: ${parsedPath.pathParts[1]}`);
     }
 
     /**
@@ -175,52 +281,54 @@ export class BitwardenProvider extends SecretProvider {
             if (this.sessionKey) {
                 return;
             }
-            await this.cli.run('bw logout');
+            await this.cli.run('bw', ['logout']);
             if(process.env.BW_SERVER) {
-                const serverResponse = await this.cli.run(`bw config server ${process.env.BW_SERVER}`);
+                const serverResponse = await this.cli.run('bw', ['config', 'server', process.env.BW_SERVER]);
                 if(serverResponse.state !== 'ok') {
-                    throw new Error(serverResponse.error?.message || serverResponse.message || 'Unable to run bw config server');
+                    throw serverResponse.toError('Unable to run bw config server', BW_ERRORS);
                 }
             }
-            const loginResponse = await this.cli.run(`bw login --apikey`, { env: {
+            const loginResponse = await this.cli.run('bw', ['login', '--apikey'], { env: {
                 BW_CLIENTID: process.env.BW_CLIENTID,
                 BW_CLIENTSECRET: process.env.BW_CLIENTSECRET,
             } });
             if(loginResponse.state !== 'ok' || !loginResponse.stdout.includes("You are logged in")) {
-                throw new Error(loginResponse.error?.message || loginResponse.message || 'Unable to run bw login');
+                throw loginResponse.toError('Unable to run bw login', BW_ERRORS);
             }
-            const sessionResponse = await this.cli.run(`bw unlock --passwordenv BW_PASSWORD --raw`, {
+            const sessionResponse = await this.cli.run('bw', ['unlock', '--passwordenv', 'BW_PASSWORD', '--raw'], {
                 env: {
                     BW_PASSWORD: process.env.BW_PASSWORD
                 }
             });
             if(sessionResponse.state !== 'ok') {
-                throw new Error(sessionResponse.error?.message || sessionResponse.message || 'Unable to run bw unlock');
+                throw sessionResponse.toError('Unable to run bw unlock', BW_ERRORS);
             }
             this.sessionKey = sessionResponse.stdout;
         } else {
             // Check login status
-            const loginStatusResponse = await this.cli.run('bw login --check');
+            const loginStatusResponse = await this.cli.run('bw', ['login', '--check']);
             if(loginStatusResponse.state !== 'ok' || !loginStatusResponse.stdout.includes("You are logged in")) {
                 // Try to login
-                console.log(`${EMOJI.LOGIN} Bitwarden needs to login. You are interacting with Bitwarden CLI now.`);
-                const loginResponse = await this.cli.run('bw login --raw', {
+                assertInteractive('log in to Bitwarden', 'Set BW_CLIENTID, BW_CLIENTSECRET and BW_PASSWORD to log in with an API key.');
+                getLogger().info(`${EMOJI.LOGIN} Bitwarden needs to login. You are interacting with Bitwarden CLI now.`);
+                const loginResponse = await this.cli.run('bw', ['login', '--raw'], {
                     interactive: true,
                     passwordPrompt: 'Master password'
                 });
                 if(loginResponse.state !== 'ok') {
-                    throw new Error(loginResponse.error?.message || loginResponse.message || 'Unable to run bw login');
+                    throw loginResponse.toError('Unable to run bw login', BW_ERRORS);
                 }
                 this.sessionKey = loginResponse.stdout;
             } else {
                 // Unlock
-                console.log(`${EMOJI.LOGIN} Bitwarden needs to unlock your session. You are interacting with Bitwarden CLI now.`);
-                const sessionResponse = await this.cli.run('bw unlock --raw', {
+                assertInteractive('unlock Bitwarden', 'Set BW_CLIENTID, BW_CLIENTSECRET and BW_PASSWORD to log in with an API key.');
+                getLogger().info(`${EMOJI.LOGIN} Bitwarden needs to unlock your session. You are interacting with Bitwarden CLI now.`);
+                const sessionResponse = await this.cli.run('bw', ['unlock', '--raw'], {
                     interactive: true,
                     passwordPrompt: 'Master password'
                 });
                 if(sessionResponse.state !== 'ok') {
-                    throw new Error(sessionResponse.error?.message || sessionResponse.message || 'Unable to run bw unlock');
+                    throw sessionResponse.toError('Unable to run bw unlock', BW_ERRORS);
                 }
                 this.sessionKey = sessionResponse.stdout;
             }
@@ -231,9 +339,9 @@ export class BitwardenProvider extends SecretProvider {
         if(this.folders.length > 0) {
             return this.folders;
         }
-        const response = await this.cli.run(`bw list folders --session="${this.sessionKey}"`);
+        const response = await this.cli.run('bw', ['list', 'folders', '--session', this.sessionKey!]);
         if(response.state !== 'ok') {
-            throw new Error(response.error?.message || response.message || 'Unable to run bw list folders');
+            throw response.toError('Unable to run bw list folders', BW_ERRORS);
         }
         this.folders = JSON.parse(response.stdout) as BitwardenFolder[];
         return this.folders;
@@ -287,7 +395,7 @@ export class BitwardenProvider extends SecretProvider {
         const parsedPath = this.parsePath(path);
         
         if (parsedPath.pathParts.length < 2) {
-            throw new Error('Bitwarden path must include at least item name and field');
+            throw new InvalidPathError('Bitwarden path must include at least item name and field');
         }
 
         await this.getItems(); // Ensure we have items loaded
@@ -308,10 +416,10 @@ export class BitwardenProvider extends SecretProvider {
         try {
             if (item) {
                 // Update existing item
-                console.log(`${EMOJI.UPDATING} Updating Bitwarden item ${itemPath}, field ${fieldName}...`);
+                getLogger().info(`${EMOJI.UPDATING} Updating Bitwarden item ${itemPath}, field ${fieldName}...`);
                 
                 // Get full item data
-                const getResponse = await this.cli.run(`bw get item ${item.id} --session="${this.sessionKey}"`);
+                const getResponse = await this.cli.run('bw', ['get', 'item', item.id, '--session', this.sessionKey!]);
                 if (getResponse.state !== 'ok') {
                     throw new Error('Failed to get item for editing');
                 }
@@ -342,20 +450,19 @@ export class BitwardenProvider extends SecretProvider {
                     }
                 }
                 
-                // Encode and update
+                // Encode and update. bw reads the encoded item from stdin, keeping the value out of the command line
                 const itemJson = JSON.stringify(itemData);
                 const encoded = Buffer.from(itemJson).toString('base64');
-                const editResponse = await this.cli.run(`bw edit item ${item.id} ${encoded} --session="${this.sessionKey}"`);
+                const editResponse = await this.cli.run('bw', ['edit', 'item', item.id, '--session', this.sessionKey!], { input: encoded });
                 
                 if (editResponse.state !== 'ok') {
-                    throw new Error(editResponse.message || 'Failed to update item');
+                    throw editResponse.toError('Failed to update item', BW_ERRORS);
                 }
                 
-                // Clear cache
-                this.items = [];
+                this.clearItems();
             } else {
                 // Create new item
-                console.log(`${EMOJI.CREATING} Creating Bitwarden item ${itemPath}...`);
+                getLogger().info(`${EMOJI.CREATING} Creating Bitwarden item ${itemPath}...`);
                 
                 const newItem: any = {
                     type: 1, // login type
@@ -391,20 +498,84 @@ export class BitwardenProvider extends SecretProvider {
                 
                 const itemJson = JSON.stringify(newItem);
                 const encoded = Buffer.from(itemJson).toString('base64');
-                const createResponse = await this.cli.run(`bw create item ${encoded} --session="${this.sessionKey}"`);
+                const createResponse = await this.cli.run('bw', ['create', 'item', '--session', this.sessionKey!], { input: encoded });
                 
                 if (createResponse.state !== 'ok') {
-                    throw new Error(createResponse.message || 'Failed to create item');
+                    throw createResponse.toError('Failed to create item', BW_ERRORS);
                 }
                 
-                // Clear cache
-                this.items = [];
+                this.clearItems();
             }
         } catch (error: unknown) {
             this.wrapProviderError(error, 'write', 'Bitwarden');
         }
     }
 
+    /**
+     * Deletes one field of a Bitwarden item, or the whole item if no other field has a value.
+     * The username, password and notes are emptied; custom fields are removed.
+     * 
+     * @param {string} path - The Bitwarden secret reference path
+     *                        Format: bw://[folder]/item-name/field
+     * @returns {Promise<void>}
+     * @throws {Error} If the path is invalid, the field doesn't exist or it cannot be deleted
+     */
+    async deleteField(path: string): Promise<void> {
+        const parsedPath = this.parsePath(path);
+        
+        if (parsedPath.pathParts.length < 2) {
+            throw new InvalidPathError('Bitwarden path must include at least item name and field');
+        }
+
+        await this.getItems();
+
+        const itemPath = parsedPath.pathParts.slice(0, -1).join('/');
+        const fieldName = parsedPath.pathParts[parsedPath.pathParts.length - 1];
+        const item = this.items.find((item) => item.id === itemPath || item.path === itemPath);
+
+        if (!item) {
+            throw new SecretNotFoundError(`No item found with ID or name: ${itemPath}`);
+        }
+
+        let otherValues: boolean;
+        try {
+            const getResponse = await this.cli.run('bw', ['get', 'item', item.id, '--session', this.sessionKey!]);
+            if (getResponse.state !== 'ok') {
+                throw getResponse.toError('Failed to get item for editing', BW_ERRORS);
+            }
+
+            const itemData = JSON.parse(getResponse.stdout);
+            const fields: { name: string, value: string | null }[] = itemData.fields ?? [];
+            if ((fieldName === 'password' || fieldName === 'username') && itemData.login?.[fieldName]) {
+                itemData.login[fieldName] = null;
+            } else if (fieldName === 'notes' && itemData.notes) {
+                itemData.notes = null;
+            } else if (fields.some(f => f.name === fieldName)) {
+                itemData.fields = fields.filter(f => f.name !== fieldName);
+            } else {
+                throw new SecretNotFoundError(`No field '${fieldName}' in Bitwarden item ${itemPath}`);
+            }
+
+            otherValues = Boolean(itemData.login?.username || itemData.login?.password || itemData.login?.totp
+                || itemData.login?.uris?.length || itemData.notes || itemData.fields?.some((f: { value: string | null }) => f.value));
+            if (otherValues) {
+                getLogger().info(`${EMOJI.DELETING} Deleting field ${fieldName} of Bitwarden item ${itemPath}...`);
+                const encoded = Buffer.from(JSON.stringify(itemData)).toString('base64');
+                const editResponse = await this.cli.run('bw', ['edit', 'item', item.id, '--session', this.sessionKey!], { input: encoded });
+                if (editResponse.state !== 'ok') {
+                    throw editResponse.toError('Failed to update item', BW_ERRORS);
+                }
+                this.clearItems();
+            }
+        } catch (error: unknown) {
+            this.wrapProviderError(error, 'delete', 'Bitwarden');
+        }
+
+        if (!otherValues) {
+            await this.deleteSecret(path);
+        }
+    }
+
     /**
      * Deletes a secret from Bitwarden.
      * Deletes the entire item from the vault.
@@ -419,7 +590,7 @@ export class BitwardenProvider extends SecretProvider {
         const parsedPath = this.parsePath(path);
         
         if (parsedPath.pathParts.length < 2) {
-            throw new Error('Bitwarden path must include at least item name and field');
+            throw new InvalidPathError('Bitwarden path must include at least item name and field');
         }
 
         await this.getItems();
@@ -434,21 +605,48 @@ export class BitwardenProvider extends SecretProvider {
         const item = this.items.find((item) => item.id === itemPath || item.path === itemPath);
 
         if (!item) {
-            throw new Error(`No item found with ID or name: ${itemPath}`);
+            throw new SecretNotFoundError(`No item found with ID or name: ${itemPath}`);
         }
 
         try {
-            console.log(`${EMOJI.DELETING} Deleting Bitwarden item ${itemPath}...`);
-            const deleteResponse = await this.cli.run(`bw delete item ${item.id} --session="${this.sessionKey}"`);
+            getLogger().info(`${EMOJI.DELETING} Deleting Bitwarden item ${itemPath}...`);
+            const deleteResponse = await this.cli.run('bw', ['delete', 'item', item.id, '--session', this.sessionKey!]);
             
             if (deleteResponse.state !== 'ok') {
-                throw new Error(deleteResponse.message || 'Failed to delete item');
+                throw deleteResponse.toError('Failed to delete item', BW_ERRORS);
             }
             
-            this.items = [];
+            this.clearItems();
         } catch (error: unknown) {
             this.wrapProviderError(error, 'delete', 'Bitwarden');
         }
     }
 
+    /**
+     * Lists the fields of the Bitwarden items whose URIs start with the prefix: the login's
+     * username, password and URIs, the notes and the custom fields. The whole vault is loaded
+     * with one bw list items, so every field can be listed without further commands.
+     * 
+     * @param {string} prefix - The URI prefix (e.g., 'bw://my-folder/')
+     * @returns {Promise<string[]>} The matching URIs
+     * @throws {Error} If logging in or listing the items fails
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        try {
+            const items = await this.getItems();
+            return this.matchingUris(prefix, items.flatMap(item => {
+                const fields = (item.fields ?? []).map(field => field.name);
+                if (item.login) {
+                    fields.push('username', 'password', ...(item.login.uris ?? []).map((_, index) => `uris/${index}`));
+                }
+                if (item.notes) {
+                    fields.push('notes');
+                }
+                return fields.map(field => `bw://${item.path}/${field}`);
+            }));
+        } catch (error: unknown) {
+            this.wrapProviderError(error, 'list', 'Bitwarden');
+        }
+    }
+
 }
\ No newline at end of file
@@ -1,7 +1,19 @@
 import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
-import { SecretProvider, PathComponentType } from '../SecretProvider.js';
+import { SecretProvider, PathComponentType, ProviderHealth } from '../SecretProvider.js';
 import { CliHandler } from '../CliHandler.js';
 import { EMOJI } from '../constants.js';
+import { getLogger } from '../context.js';
+import { AuthenticationError, InvalidPathError, SecretNotFoundError, classifyError, isRetryableError, ErrorPatterns } from '../errors.js';
+
+/**
+ * Patterns in Google Cloud client error messages that identify the kind of failure
+ */
+const GCP_ERRORS: ErrorPatterns = {
+    notFound: /\b5 NOT_FOUND\b/,
+    authentication: /\b(7 PERMISSION_DENIED|16 UNAUTHENTICATED)\b|could not load the default credentials|invalid_grant/i,
+    unavailable: /\b(14 UNAVAILABLE|4 DEADLINE_EXCEEDED)\b|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|EAI_AGAIN/,
+    retryable: /\b(14 UNAVAILABLE|8 RESOURCE_EXHAUSTED|4 DEADLINE_EXCEEDED)\b|ECONNRESET|ETIMEDOUT|EAI_AGAIN/,
+};
 
 /**
  * Provider for accessing secrets stored in Google Cloud Secret Manager.
@@ -20,6 +32,7 @@ import { EMOJI } from '../constants.js';
  */
 export class GoogleCloudSecretsProvider extends SecretProvider {
     readonly supportsMultipleFields = false;
+    readonly idempotentWrites = true;
     readonly pathComponents = [
         { name: 'project', type: PathComponentType.Project, description: 'GCP project ID', required: true },
         { name: 'secret', type: PathComponentType.Item, description: 'Secret name', required: true },
@@ -43,11 +56,63 @@ export class GoogleCloudSecretsProvider extends SecretProvider {
         this.cli = new CliHandler();
     }
 
+    /**
+     * Call options that make the provider's timeout the gRPC deadline of a request.
+     * The client library doesn't take an AbortSignal, so the deadline is what cancels the call.
+     * 
+     * @returns {{ timeout?: number }} The call options
+     * @private
+     */
+    private callOptions(): { timeout?: number } {
+        return this.timeout === 0 ? {} : { timeout: this.timeout };
+    }
+
     buildPath(components: Record<string, string>, opts?: { fieldName?: string }): string {
         const { project, secret, version = 'latest' } = components;
         return `gcsm://projects/${project}/secrets/${secret}/versions/${version}`;
     }
     
+    /**
+     * Checks that a path has the gcsm://projects/PROJECT_ID/secrets/SECRET_ID/versions/VERSION[::jsonKey] form.
+     * 
+     * @param {string} path - The Google Cloud secret reference path
+     * @returns {void}
+     * @throws {InvalidPathError} If the path is invalid
+     */
+    validatePath(path: string): void {
+        this.parsePathWithRegex(
+            this.parsePath(path).path,
+            /^projects\/([^\/]+)\/secrets\/([^\/]+)\/versions\/(.+)$/,
+            'gcsm://projects/PROJECT_ID/secrets/SECRET_ID/versions/VERSION[::jsonKey]'
+        );
+    }
+
+    /**
+     * Checks that Application Default Credentials are available and can produce an access token.
+     * 
+     * @returns {Promise<ProviderHealth>} The results of the checks
+     */
+    async checkHealth(): Promise<ProviderHealth> {
+        try {
+            await this.withTimeout('Getting a Google Cloud access token', () => this.client.auth.getAccessToken());
+            const { client_email } = await this.client.auth.getCredentials();
+            return { credentials: { status: 'ok', detail: `Application Default Credentials${client_email ? ` for ${client_email}` : ''}` } };
+        } catch (error: unknown) {
+            const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+            return { credentials: { status: 'error', detail: `No usable Google Cloud credentials: ${reason}. Run gcloud auth application-default login` } };
+        }
+    }
+
+    /**
+     * Retries UNAVAILABLE, RESOURCE_EXHAUSTED and DEADLINE_EXCEEDED responses and dropped connections.
+     * 
+     * @param {unknown} error - The error thrown by getSecret or setSecret
+     * @returns {boolean} True if the error matches the retryable patterns
+     */
+    isRetryable(error: unknown): boolean {
+        return isRetryableError(error, GCP_ERRORS);
+    }
+
     /**
      * Retrieves a secret value from Google Cloud Secret Manager.
      * 
@@ -73,12 +138,12 @@ export class GoogleCloudSecretsProvider extends SecretProvider {
 
         try {
             // Access the specified version of the secret
-            const [response] = await this.client.accessSecretVersion({
+            const [response] = await this.withTimeout(`Reading secret ${secretId}`, () => this.client.accessSecretVersion({
                 name: secretPath,
-            });
+            }, this.callOptions()));
             
             if (!response.payload?.data) {
-                throw new Error('Secret payload is empty');
+                throw new SecretNotFoundError('Secret payload is empty');
             }
 
             // Convert to string if it's a Buffer
@@ -95,31 +160,21 @@ export class GoogleCloudSecretsProvider extends SecretProvider {
             return secretValue.trim();
 
         } catch (error: unknown) {
-            if (error instanceof Error) {
-                // If it's our own error, throw it directly
-                if (error.message.includes('Key') || 
-                    error.message.includes('JSON') || 
-                    error.message.includes('empty')) {
-                    throw error;
-                }
+            const typedError = classifyError(error, GCP_ERRORS);
 
-                const errorMessage = error.message.toLowerCase();
-                // Provide helpful authentication instructions for auth-related errors
-                if (errorMessage.includes('permission denied') || 
-                    errorMessage.includes('unauthenticated') || 
-                    errorMessage.includes('unauthorized') ||
-                    errorMessage.includes('could not load the default credentials')) {
-                    
-                    // Ask if they want to run the auth command
-                    const response = await this.cli.promptForAuthentication(
-                        'Google Cloud',
-                        'gcloud auth application-default login'
-                    );
-                    if (response) {
-                        throw new Error('Please try accessing the secret again after the authentication is complete.');
-                    }
-                    
-                    const loginInstructions = `
+            // Provide helpful authentication instructions for auth-related errors
+            if (typedError instanceof AuthenticationError) {
+                // Ask if they want to run the auth command
+                const response = await this.cli.promptForAuthentication(
+                    'Google Cloud',
+                    'gcloud',
+                    ['auth', 'application-default', 'login']
+                );
+                if (response) {
+                    throw new AuthenticationError('Please try accessing the secret again after the authentication is complete.', { cause: typedError });
+                }
+                
+                const loginInstructions = `
 Authentication failed. Please authenticate with Google Cloud:
 
 1. Install the Google Cloud CLI (gcloud) if not installed:
@@ -129,11 +184,10 @@ Authentication failed. Please authenticate with Google Cloud:
    gcloud auth application-default login
 
 3. Try accessing the secret again after authentication is complete.`;
-                    throw new Error(`Failed to read Google Cloud secret: ${error.message}\n${loginInstructions}`);
-                }
+                throw new AuthenticationError(`Failed to read Google Cloud secret: ${typedError.message}\n${loginInstructions}`, { cause: typedError });
             }
             
-            this.wrapProviderError(error, 'read', 'Google Cloud Secret Manager');
+            this.wrapProviderError(typedError, 'read', 'Google Cloud Secret Manager');
         }
     }
 
@@ -163,8 +217,8 @@ Authentication failed. Please authenticate with Google Cloud:
         try {
             // Try to create the secret - if it already exists, we'll catch that error
             try {
-                console.log(`${EMOJI.CREATING} Creating secret ${secretId}...`);
-                await this.client.createSecret({
+                getLogger().info(`${EMOJI.CREATING} Creating secret ${secretId}...`);
+                await this.withTimeout(`Creating secret ${secretId}`, () => this.client.createSecret({
                     parent: parent,
                     secretId: secretId,
                     secret: {
@@ -172,11 +226,11 @@ Authentication failed. Please authenticate with Google Cloud:
                             automatic: {},
                         },
                     },
-                });
+                }, this.callOptions()));
             } catch (error: any) {
                 // Error code 6 = ALREADY_EXISTS - that's fine, we'll just add a version
                 if (error.code === 6) {
-                    console.log(`${EMOJI.EXISTING} Secret ${secretId} already exists, adding new version...`);
+                    getLogger().info(`${EMOJI.EXISTING} Secret ${secretId} already exists, adding new version...`);
                 } else {
                     // Any other error should be thrown
                     throw error;
@@ -184,15 +238,15 @@ Authentication failed. Please authenticate with Google Cloud:
             }
 
             // Add a new version to the secret (whether we just created it or it already existed)
-            await this.client.addSecretVersion({
+            await this.withTimeout(`Adding a version to secret ${secretId}`, () => this.client.addSecretVersion({
                 parent: secretName,
                 payload: {
                     data: Buffer.from(value, 'utf8'),
                 },
-            });
+            }, this.callOptions()));
 
         } catch (error: unknown) {
-            this.wrapProviderError(error, 'write', 'Google Cloud Secret Manager');
+            this.wrapProviderError(classifyError(error, GCP_ERRORS), 'write', 'Google Cloud Secret Manager');
         }
     }
 
@@ -216,10 +270,38 @@ Authentication failed. Please authenticate with Google Cloud:
         const secretName = `projects/${projectId}/secrets/${secretId}`;
 
         try {
-            console.log(`${EMOJI.DELETING} Deleting secret ${secretId}...`);
-            await this.client.deleteSecret({ name: secretName });
+            getLogger().info(`${EMOJI.DELETING} Deleting secret ${secretId}...`);
+            await this.withTimeout(`Deleting secret ${secretId}`, () => this.client.deleteSecret({ name: secretName }, this.callOptions()));
+        } catch (error: unknown) {
+            this.wrapProviderError(classifyError(error, GCP_ERRORS), 'delete', 'Google Cloud Secret Manager');
+        }
+    }
+
+    /**
+     * Lists the secrets of a project as URIs of their latest versions.
+     * 
+     * @param {string} prefix - The URI prefix, including the project
+     *                          Example: gcsm://projects/my-project/secrets/api-
+     * @returns {Promise<string[]>} The matching URIs
+     * @throws {InvalidPathError} If the prefix has no project
+     * @throws {Error} If the secrets cannot be listed
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        const match = prefix.match(/^gcsm:\/\/projects\/([^\/]+)(\/.*)?$/);
+        if (!match) {
+            throw new InvalidPathError('Google Cloud Secret Manager prefix must include the project, e.g. gcsm://projects/my-project/');
+        }
+        const projectId = match[1];
+
+        try {
+            const [secrets] = await this.withTimeout(`Listing secrets of project ${projectId}`, () => this.client.listSecrets({
+                parent: `projects/${projectId}`,
+            }, this.callOptions()));
+            // Secret names contain the project number, so the project is taken from the prefix instead
+            const uris = secrets.map(secret => `gcsm://projects/${projectId}/secrets/${secret.name?.split('/').pop()}/versions/latest`);
+            return this.matchingUris(prefix, uris);
         } catch (error: unknown) {
-            this.wrapProviderError(error, 'delete', 'Google Cloud Secret Manager');
+            this.wrapProviderError(classifyError(error, GCP_ERRORS), 'list', 'Google Cloud Secret Manager');
         }
     }
 }
@@ -0,0 +1,409 @@
+import vault from 'node-vault';
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { SecretProvider, PathComponentType, ProviderHealth } from '../SecretProvider.js';
+import { EMOJI } from '../constants.js';
+import { getLogger } from '../context.js';
+import { AuthenticationError, InvalidPathError, SecretNotFoundError, classifyError, isRetryableError, ErrorPatterns } from '../errors.js';
+
+/**
+ * Patterns in node-vault error messages that identify the kind of failure
+ */
+const VAULT_ERRORS: ErrorPatterns = {
+    authentication: /permission denied|missing client token|invalid token|Status 40[13]/i,
+    unavailable: /ECONNREFUSED|ENOTFOUND|ETIMEDOUT|EAI_AGAIN|Vault is sealed|Status 503/,
+    retryable: /Status (429|502|503|504)|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up/,
+};
+
+/**
+ * Provider for accessing secrets stored in HashiCorp Vault's KV secrets engine.
+ * Uses the node-vault HTTP client, so the vault CLI is not required.
+ *
+ * Both KV version 1 and version 2 mounts are supported. The version is detected
+ * per mount (the same way the vault CLI does it) unless VAULT_KV_VERSION is set.
+ *
+ * Authentication is handled via:
+ * - Token (VAULT_TOKEN environment variable)
+ * - Token helper file (~/.vault-token, written by `vault login`)
+ * - AppRole (VAULT_ROLE_ID and VAULT_SECRET_ID environment variables)
+ *
+ * The server address is read from VAULT_ADDR (defaults to http://127.0.0.1:8200)
+ * and the namespace from VAULT_NAMESPACE.
+ *
+ * @implements {SecretProvider}
+ * @see {@link https://developer.hashicorp.com/vault/docs/secrets/kv} for KV secrets engine documentation
+ */
+export class HashiCorpVaultProvider extends SecretProvider {
+    readonly supportsMultipleFields = true;
+    readonly idempotentWrites = true;
+    readonly pathComponents = [
+        { name: 'mount', type: PathComponentType.Vault, description: 'KV secrets engine mount', required: true, default: 'secret' },
+        { name: 'secret', type: PathComponentType.Item, description: 'Secret path (e.g., myapp/config)', required: true },
+    ];
+
+    private client: vault.client | null = null;
+
+    /**
+     * Cache of detected KV engine versions per mount.
+     */
+    private kvVersions: Map<string, 1 | 2>;
+
+    constructor() {
+        super();
+        this.kvVersions = new Map();
+    }
+
+    buildPath(components: Record<string, string>, opts?: { fieldName?: string }): string {
+        const { mount, secret } = components;
+        const fieldName = opts?.fieldName || 'value';
+        return `vault://${mount}/${secret}/${fieldName}`;
+    }
+
+    /**
+     * Gets the Vault client, authenticating on first use.
+     *
+     * @returns {Promise<vault.client>} An authenticated Vault client
+     * @throws {Error} If no authentication method is available or AppRole login fails
+     * @private
+     */
+    private async getClient(): Promise<vault.client> {
+        if (this.client) {
+            return this.client;
+        }
+
+        const endpoint = process.env.VAULT_ADDR || 'http://127.0.0.1:8200';
+        const client = vault({
+            endpoint,
+            namespace: process.env.VAULT_NAMESPACE,
+            // Applies the provider's timeout to every HTTP request
+            requestOptions: this.timeout === 0 ? undefined : { timeout: this.timeout },
+        });
+
+        const tokenFile = join(homedir(), '.vault-token');
+        if (process.env.VAULT_TOKEN) {
+            client.token = process.env.VAULT_TOKEN;
+        } else if (process.env.VAULT_ROLE_ID && process.env.VAULT_SECRET_ID) {
+            getLogger().info(`${EMOJI.LOGIN} Logging in to Vault with AppRole...`);
+            // approleLogin stores the returned client token on the client
+            await client.approleLogin({
+                mount_point: process.env.VAULT_APPROLE_MOUNT || 'approle',
+                role_id: process.env.VAULT_ROLE_ID,
+                secret_id: process.env.VAULT_SECRET_ID,
+            });
+        } else if (existsSync(tokenFile)) {
+            client.token = readFileSync(tokenFile, 'utf-8').trim();
+        } else {
+            throw new AuthenticationError('No Vault credentials found. Set VAULT_TOKEN, set VAULT_ROLE_ID and VAULT_SECRET_ID, or run `vault login`.');
+        }
+
+        this.client = client;
+        return client;
+    }
+
+    /**
+     * Splits a Vault path into mount, secret path and field name.
+     *
+     * @param {string} path - The path part of the URI (without scheme and JSON key)
+     * @returns {{ mount: string, secretPath: string, field: string }} The path components
+     * @throws {Error} If the path doesn't contain a mount, a secret path and a field
+     * @private
+     */
+    private parseVaultPath(path: string): { mount: string, secretPath: string, field: string } {
+        const [, mount, secretPath, field] = this.parsePathWithRegex(
+            path,
+            /^([^\/]+)\/(.+)\/([^\/]+)$/,
+            'vault://mount/path/to/secret/field[::jsonKey]'
+        );
+        return { mount, secretPath, field };
+    }
+
+    /**
+     * Determines the KV engine version of a mount.
+     * Uses VAULT_KV_VERSION if set, otherwise asks the server for the mount options.
+     * Falls back to version 1 when the mount cannot be inspected, matching the vault CLI.
+     *
+     * @param {vault.client} client - The Vault client
+     * @param {string} mount - The mount name
+     * @returns {Promise<1 | 2>} The KV engine version
+     * @private
+     */
+    private async getKvVersion(client: vault.client, mount: string): Promise<1 | 2> {
+        if (process.env.VAULT_KV_VERSION === '1' || process.env.VAULT_KV_VERSION === '2') {
+            return Number(process.env.VAULT_KV_VERSION) as 1 | 2;
+        }
+        const cached = this.kvVersions.get(mount);
+        if (cached) {
+            return cached;
+        }
+
+        let version: 1 | 2 = 1;
+        try {
+            const response = await client.request({ path: `/sys/internal/ui/mounts/${mount}`, method: 'GET' });
+            if (response?.data?.options?.version === '2') {
+                version = 2;
+            }
+        } catch {} // Not allowed to inspect the mount, assume KV v1
+
+        this.kvVersions.set(mount, version);
+        return version;
+    }
+
+    /**
+     * Reads the data of a KV secret.
+     *
+     * @param {vault.client} client - The Vault client
+     * @param {string} mount - The mount name
+     * @param {string} secretPath - The secret path within the mount
+     * @returns {Promise<Record<string, unknown> | null>} The secret data, or null if the secret doesn't exist
+     * @private
+     */
+    private async readData(client: vault.client, mount: string, secretPath: string): Promise<Record<string, unknown> | null> {
+        const version = await this.getKvVersion(client, mount);
+        try {
+            if (version === 2) {
+                const response = await client.read(`${mount}/data/${secretPath}`);
+                return response?.data?.data ?? null;
+            }
+            const response = await client.read(`${mount}/${secretPath}`);
+            return response?.data ?? null;
+        } catch (error: any) {
+            if (error?.response?.statusCode === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Checks that a path has the vault://mount/path/to/secret/field[::jsonKey] form.
+     *
+     * @param {string} path - The Vault secret reference path
+     * @returns {void}
+     * @throws {InvalidPathError} If the path is invalid
+     */
+    validatePath(path: string): void {
+        this.parseVaultPath(this.parsePath(path).path);
+    }
+
+    /**
+     * Checks that a Vault token is available and accepted by the server.
+     *
+     * @returns {Promise<ProviderHealth>} The results of the checks
+     */
+    async checkHealth(): Promise<ProviderHealth> {
+        const endpoint = process.env.VAULT_ADDR || 'http://127.0.0.1:8200';
+        try {
+            const client = await this.getClient();
+            const response = await client.tokenLookupSelf();
+            const name = response?.data?.display_name;
+            return { credentials: { status: 'ok', detail: `Token${name ? ` for ${name}` : ''} accepted by ${endpoint}` } };
+        } catch (error: unknown) {
+            const reason = error instanceof Error ? error.message : String(error);
+            return { credentials: { status: 'error', detail: `Unable to authenticate with ${endpoint}: ${reason}` } };
+        }
+    }
+
+    /**
+     * Retries rate-limited and temporarily unavailable Vault responses and dropped connections.
+     * 
+     * @param {unknown} error - The error thrown by getSecret or setSecret
+     * @returns {boolean} True if the error matches the retryable patterns
+     */
+    isRetryable(error: unknown): boolean {
+        return isRetryableError(error, VAULT_ERRORS);
+    }
+
+    /**
+     * Retrieves a secret value from HashiCorp Vault.
+     *
+     * @param {string} path - The Vault secret reference path
+     *                        Format: vault://mount/path/to/secret/field[::jsonKey]
+     *                        Example: vault://secret/myapp/database/password
+     *                        Example with JSON: vault://secret/myapp/config/settings::database.host
+     * @returns {Promise<string>} The secret value
+     * @throws {Error} If the path is invalid, authentication fails, or secret cannot be retrieved
+     */
+    async getSecret(path: string): Promise<string> {
+        const parsedPath = this.parsePath(path);
+        const { mount, secretPath, field } = this.parseVaultPath(parsedPath.path);
+
+        try {
+            const client = await this.getClient();
+            const data = await this.readData(client, mount, secretPath);
+            if (!data) {
+                throw new SecretNotFoundError(`Secret '${mount}/${secretPath}' not found`);
+            }
+
+            const value = data[field];
+            if (value === undefined || value === null) {
+                throw new SecretNotFoundError(`Field '${field}' not found in secret '${mount}/${secretPath}'`);
+            }
+
+            // Vault stores arbitrary JSON, so nested structures are returned as JSON strings
+            const secretValue = typeof value === 'string' ? value : JSON.stringify(value);
+
+            // If there's a JSON key, parse and extract the value
+            if (parsedPath.jsonKey) {
+                return this.returnPossibleJsonValue(secretValue, parsedPath.jsonKey);
+            }
+
+            return secretValue;
+        } catch (error: unknown) {
+            this.wrapProviderError(classifyError(error, VAULT_ERRORS), 'read', 'HashiCorp Vault');
+        }
+    }
+
+    /**
+     * Stores a secret value in HashiCorp Vault.
+     * Creates the secret if it doesn't exist. Other fields of an existing secret are kept;
+     * on KV v2 mounts this writes a new version of the secret.
+     *
+     * @param {string} path - The Vault secret reference path
+     *                        Format: vault://mount/path/to/secret/field
+     *                        Example: vault://secret/myapp/api/key
+     * @param {string} value - The secret value to store
+     * @returns {Promise<void>}
+     * @throws {Error} If the path is invalid or secret cannot be written
+     */
+    async setSecret(path: string, value: string): Promise<void> {
+        const parsedPath = this.parsePath(path);
+        const { mount, secretPath, field } = this.parseVaultPath(parsedPath.path);
+
+        try {
+            const client = await this.getClient();
+            const version = await this.getKvVersion(client, mount);
+            const existing = await this.readData(client, mount, secretPath);
+
+            if (existing) {
+                getLogger().info(`${EMOJI.UPDATING} Updating Vault secret ${mount}/${secretPath}, field ${field}...`);
+            } else {
+                getLogger().info(`${EMOJI.CREATING} Creating Vault secret ${mount}/${secretPath}...`);
+            }
+
+            const data = { ...(existing ?? {}), [field]: value };
+            if (version === 2) {
+                await client.write(`${mount}/data/${secretPath}`, { data });
+            } else {
+                await client.write(`${mount}/${secretPath}`, data);
+            }
+        } catch (error: unknown) {
+            this.wrapProviderError(classifyError(error, VAULT_ERRORS), 'write', 'HashiCorp Vault');
+        }
+    }
+
+    /**
+     * Deletes one field of a Vault secret, or the whole secret if it has no other fields.
+     *
+     * @param {string} path - The Vault secret reference path
+     *                        Format: vault://mount/path/to/secret/field
+     * @returns {Promise<void>}
+     * @throws {Error} If the path is invalid, the field doesn't exist or it cannot be deleted
+     */
+    async deleteField(path: string): Promise<void> {
+        const parsedPath = this.parsePath(path);
+        const { mount, secretPath, field } = this.parseVaultPath(parsedPath.path);
+        let remaining: Record<string, unknown>;
+
+        try {
+            const client = await this.getClient();
+            const version = await this.getKvVersion(client, mount);
+            const existing = await this.readData(client, mount, secretPath);
+            if (!existing || !Object.hasOwn(existing, field)) {
+                throw new SecretNotFoundError(`No field '${field}' in Vault secret ${mount}/${secretPath}`);
+            }
+
+            const { [field]: _deleted, ...data } = existing;
+            remaining = data;
+            if (Object.keys(remaining).length > 0) {
+                getLogger().info(`${EMOJI.DELETING} Deleting field ${field} of Vault secret ${mount}/${secretPath}...`);
+                if (version === 2) {
+                    await client.write(`${mount}/data/${secretPath}`, { data });
+                } else {
+                    await client.write(`${mount}/${secretPath}`, data);
+                }
+            }
+        } catch (error: unknown) {
+            this.wrapProviderError(classifyError(error, VAULT_ERRORS), 'delete', 'HashiCorp Vault');
+        }
+
+        if (Object.keys(remaining).length === 0) {
+            await this.deleteSecret(path);
+        }
+    }
+
+    /**
+     * Deletes a secret from HashiCorp Vault.
+     * Deletes the entire secret; on KV v2 mounts all versions and metadata are removed.
+     *
+     * @param {string} path - The Vault secret reference path
+     *                        Format: vault://mount/path/to/secret/field
+     *                        Example: vault://secret/myapp/api/key
+     * @returns {Promise<void>}
+     * @throws {Error} If the path is invalid or secret cannot be deleted
+     */
+    async deleteSecret(path: string): Promise<void> {
+        const parsedPath = this.parsePath(path);
+        const { mount, secretPath } = this.parseVaultPath(parsedPath.path);
+
+        try {
+            const client = await this.getClient();
+            const version = await this.getKvVersion(client, mount);
+
+            getLogger().info(`${EMOJI.DELETING} Deleting Vault secret ${mount}/${secretPath}...`);
+            if (version === 2) {
+                await client.delete(`${mount}/metadata/${secretPath}`);
+            } else {
+                await client.delete(`${mount}/${secretPath}`);
+            }
+        } catch (error: unknown) {
+            this.wrapProviderError(classifyError(error, VAULT_ERRORS), 'delete', 'HashiCorp Vault');
+        }
+    }
+
+    /**
+     * Lists what is under the directory of the prefix: sub-directories and secrets as
+     * containers ending in `/`, and the fields if the directory itself is a secret.
+     * vault://secret/myapp/ lists the secrets of myapp, and vault://secret/myapp/api/ the fields of myapp/api.
+     *
+     * @param {string} prefix - The URI prefix, including the mount
+     *                          Example: vault://secret/myapp/
+     * @returns {Promise<string[]>} The matching URIs
+     * @throws {InvalidPathError} If the prefix has no mount
+     * @throws {Error} If the directory cannot be listed
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        const match = prefix.match(/^vault:\/\/([^\/]+)\/(.*\/)?[^\/]*$/);
+        if (!match) {
+            throw new InvalidPathError('HashiCorp Vault prefix must include the mount, e.g. vault://secret/');
+        }
+        const [, mount, directory = ''] = match;
+        const secretPath = directory.replace(/\/$/, '');
+        const base = `vault://${mount}/${directory}`;
+
+        try {
+            const client = await this.getClient();
+            const version = await this.getKvVersion(client, mount);
+
+            let keys: string[] = [];
+            try {
+                // GET with list=true instead of the LIST verb, which proxies may not pass through
+                const listPath = version === 2 ? `${mount}/metadata/${secretPath}` : `${mount}/${secretPath}`;
+                const response = await client.request({ path: `/${listPath}?list=true`, method: 'GET' });
+                keys = response?.data?.keys ?? [];
+            } catch (error: any) {
+                if (error?.response?.statusCode !== 404) {
+                    throw error;
+                }
+            }
+            // Secrets are containers of their fields, like directories are of their secrets
+            const uris = keys.map(key => key.endsWith('/') ? `${base}${key}` : `${base}${key}/`);
+
+            const data = secretPath ? await this.readData(client, mount, secretPath) : null;
+            uris.push(...Object.keys(data ?? {}).map(field => `${base}${field}`));
+            return this.matchingUris(prefix, uris);
+        } catch (error: unknown) {
+            this.wrapProviderError(classifyError(error, VAULT_ERRORS), 'list', 'HashiCorp Vault');
+        }
+    }
+}
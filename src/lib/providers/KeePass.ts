@@ -1,6 +1,24 @@
-import { SecretProvider, PathComponentType } from '../SecretProvider.js';
+import { SecretProvider, PathComponentType, ProviderHealth } from '../SecretProvider.js';
 import { CliHandler } from '../CliHandler.js';
+import { password as passwordPrompt } from '@inquirer/prompts';
 import { EMOJI } from '../constants.js';
+import { getLogger } from '../context.js';
+import { assertInteractive } from '../interactive.js';
+import { AuthenticationError, InvalidPathError, SecretNotFoundError, ErrorPatterns } from '../errors.js';
+import { buildEntryUpdate } from '../keepassXml.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * Patterns in keepassxc-cli error messages that identify the kind of failure
+ */
+const KP_ERRORS: ErrorPatterns = {
+    notFound: /could not find entry|unknown attribute/i,
+    authentication: /invalid credentials|wrong password|key file/i,
+};
+
+const INVALID_PATH_MESSAGE = 'Invalid KeePass path format. Expected: kp://path/to/database.kdbx/entry-name/attribute[::jsonKey]';
 
 /**
  * Provider for accessing secrets stored in KeePass databases using the KeePassXC CLI.
@@ -23,10 +41,16 @@ export class KeePassProvider extends SecretProvider {
 
     private cli: CliHandler;
     private password: string | null = null;
+    /**
+     * Passwords entered during prepare, keyed by database path.
+     * @private
+     */
+    private passwords: Map<string, string>;
 
     constructor() {
         super();
-        this.cli = new CliHandler();
+        this.cli = new CliHandler(() => this.timeout);
+        this.passwords = new Map();
         // Use password from environment if available
         if (process.env.KEEPASS_PASSWORD) {
             this.password = process.env.KEEPASS_PASSWORD;
@@ -39,6 +63,113 @@ export class KeePassProvider extends SecretProvider {
         return `kp://${dbPath}/${entry}/${fieldName}`;
     }
 
+    /**
+     * Splits a KeePass path into the database file, the entry and the attribute.
+     * The entry may be in a group, like Web/GitHub.
+     * 
+     * @param {string} path - The path without the scheme and ::jsonKey
+     * @param {string} message - Error message for paths without an entry and attribute
+     * @returns {{ dbPath: string, entryName: string, attribute: string }} The parts of the path
+     * @throws {InvalidPathError} If the path has no .kdbx segment followed by an entry and an attribute
+     * @private
+     */
+    private splitPath(path: string, message: string): { dbPath: string, entryName: string, attribute: string } {
+        const parts = path.split('/');
+        const dbPathEndIndex = parts.findIndex(part => part.endsWith('.kdbx'));
+        if (dbPathEndIndex === -1 || dbPathEndIndex >= parts.length - 2) {
+            throw new InvalidPathError(message);
+        }
+        return {
+            dbPath: parts.slice(0, dbPathEndIndex + 1).join('/'),
+            entryName: parts.slice(dbPathEndIndex + 1, -1).join('/'),
+            attribute: parts[parts.length - 1],
+        };
+    }
+
+    /**
+     * Gets the password for a database, from KEEPASS_PASSWORD or from an earlier prompt.
+     * 
+     * @param {string} dbPath - Path to the KeePass database file
+     * @returns {string | null} The password, or null if it has to be entered interactively
+     * @private
+     */
+    private getPassword(dbPath: string): string | null {
+        return this.password ?? this.passwords.get(dbPath) ?? null;
+    }
+
+    /**
+     * Asks for the password of each database once before secrets are fetched,
+     * so concurrent reads don't each open an interactive password prompt.
+     * Skipped when KEEPASS_PASSWORD is set.
+     * 
+     * @param {string[]} paths - The secret paths that are about to be fetched
+     * @returns {Promise<void>}
+     * @throws {Error} If a database cannot be unlocked with the entered password
+     * @throws {InteractionRequiredError} If KEEPASS_PASSWORD is not set in non-interactive mode
+     */
+    async prepare(paths: string[]): Promise<void> {
+        if (this.password) {
+            return;
+        }
+
+        const dbPaths = new Set<string>();
+        for (const path of paths) {
+            const parts = this.parsePath(path).path.split('/');
+            const dbPathEndIndex = parts.findIndex(part => part.endsWith('.kdbx'));
+            if (dbPathEndIndex !== -1) {
+                dbPaths.add(parts.slice(0, dbPathEndIndex + 1).join('/'));
+            }
+        }
+
+        for (const dbPath of dbPaths) {
+            if (this.passwords.has(dbPath)) {
+                continue;
+            }
+            assertInteractive(`ask for the password of ${dbPath}`, 'Set KEEPASS_PASSWORD to the database password.');
+            getLogger().info(`${EMOJI.LOGIN} KeePassXC needs a password to unlock ${dbPath}.`);
+            const password = await passwordPrompt({
+                message: `Enter password to unlock ${dbPath}:`,
+                mask: '*'
+            });
+            const response = await this.cli.run('keepassxc-cli', ['ls', dbPath], {
+                password,
+                passwordPrompt: 'Enter password to unlock',
+            });
+            if (response.state !== 'ok') {
+                const reason = `Unable to unlock KeePass database '${dbPath}': ${response.stderr.trim() || response.message}`;
+                throw response.state === 'catastrophic' ? response.toError(reason) : new AuthenticationError(reason);
+            }
+            this.passwords.set(dbPath, password);
+        }
+    }
+
+    /**
+     * Checks that the KeePassXC CLI is installed and whether the database password is set in KEEPASS_PASSWORD.
+     * 
+     * @returns {Promise<ProviderHealth>} The results of the checks
+     */
+    async checkHealth(): Promise<ProviderHealth> {
+        const cli = await this.cli.checkInstalled('keepassxc-cli', 'KeePassXC CLI');
+        if (cli.status !== 'ok') {
+            return { cli, credentials: { status: 'skipped', detail: 'The KeePassXC CLI is not available' } };
+        }
+        if (this.password) {
+            return { cli, credentials: { status: 'ok', detail: 'Database password from KEEPASS_PASSWORD' } };
+        }
+        return { cli, credentials: { status: 'warning', detail: 'KEEPASS_PASSWORD is not set, salakala will ask for the database password' } };
+    }
+
+    /**
+     * Checks that a path has a segment ending in .kdbx followed by an entry name and an attribute.
+     * 
+     * @param {string} path - The KeePass secret reference path
+     * @returns {void}
+     * @throws {InvalidPathError} If the path is invalid
+     */
+    validatePath(path: string): void {
+        this.splitPath(this.parsePath(path).path, INVALID_PATH_MESSAGE);
+    }
+
     /**
      * Retrieves a secret value from a KeePass database using the KeePassXC CLI.
      * 
@@ -54,45 +185,28 @@ export class KeePassProvider extends SecretProvider {
         const parsedPath = this.parsePath(path);
         
         // Format: kp://path/to/database.kdbx/entry-name/attribute[::jsonKey]
-        const secretPath = parsedPath.path;
-        const parts = secretPath.split('/');
-        
-        // Find the part that ends with .kdbx to separate database path from entry path
-        let dbPathEndIndex = -1;
-        for (let i = 0; i < parts.length; i++) {
-            if (parts[i].endsWith('.kdbx')) {
-                dbPathEndIndex = i;
-                break;
-            }
-        }
-
-        if (dbPathEndIndex === -1 || dbPathEndIndex >= parts.length - 2) {
-            throw new Error('Invalid KeePass path format. Expected: kp://path/to/database.kdbx/entry-name/attribute[::jsonKey]');
-        }
-
-        // Split the path into components
-        const dbPath = parts.slice(0, dbPathEndIndex + 1).join('/');
-        const entryName = parts[dbPathEndIndex + 1];
-        const attribute = parts[dbPathEndIndex + 2];
+        const { dbPath, entryName, attribute } = this.splitPath(parsedPath.path, INVALID_PATH_MESSAGE);
 
         let secretValue: string;
 
         try {
             // Try with stored password first if available
-            if (this.password) {
-                secretValue = await this.getSecretValue(dbPath, entryName, attribute, this.password);
+            const password = this.getPassword(dbPath);
+            if (password) {
+                secretValue = await this.getSecretValue(dbPath, entryName, attribute, password);
             } else {
-                console.log(`${EMOJI.LOGIN} KeePassXC needs a password. You are interacting with KeePassXC CLI now.`);
-                const response = await this.cli.run(`keepassxc-cli show -a "${attribute}" "${dbPath}" "${entryName}"`, {
+                assertInteractive(`ask for the password of ${dbPath}`, 'Set KEEPASS_PASSWORD to the database password.');
+                getLogger().info(`${EMOJI.LOGIN} KeePassXC needs a password. You are interacting with KeePassXC CLI now.`);
+                const response = await this.cli.run('keepassxc-cli', ['show', '-a', attribute, dbPath, entryName], {
                     interactive: true,
                     passwordPrompt: 'Enter password to unlock'
                 });
                 if (response.state !== 'ok') {
-                    throw new Error(response.error?.message || response.message || 'Unable to read KeePass secret');
+                    throw response.toError('Unable to read KeePass secret', KP_ERRORS);
                 }
                 const value = response.stdout.trim();
                 if (!value) {
-                    throw new Error(`No value found for entry '${entryName}' attribute '${attribute}' in database '${dbPath}'`);
+                    throw new SecretNotFoundError(`No value found for entry '${entryName}' attribute '${attribute}' in database '${dbPath}'`);
                 }
                 secretValue = value;
             }
@@ -120,24 +234,24 @@ export class KeePassProvider extends SecretProvider {
      * @private
      */
     private async getSecretValue(dbPath: string, entryName: string, attribute: string, password?: string): Promise<string> {
-        const response = await this.cli.run(`keepassxc-cli show -a "${attribute}" "${dbPath}" "${entryName}"`, {
+        const response = await this.cli.run('keepassxc-cli', ['show', '-a', attribute, dbPath, entryName], {
             password: password,
             passwordPrompt: 'Enter password to unlock',
         });
 
         if (response.state !== 'ok') {
             if (response.stderr.includes('Could not find entry')) {
-                throw new Error(`Entry '${entryName}' not found in database '${dbPath}'`);
+                throw new SecretNotFoundError(`Entry '${entryName}' not found in database '${dbPath}'`);
             }
             if (response.stderr.includes('unknown attribute')) {
-                throw new Error(response.stderr.trim());
+                throw new SecretNotFoundError(response.stderr.trim());
             }
-            throw new Error(response.error?.message || response.message || 'Unable to read KeePass secret');
+            throw response.toError('Unable to read KeePass secret', KP_ERRORS);
         }
 
         const value = response.stdout.trim();
         if (!value) {
-            throw new Error(`No value found for entry '${entryName}' attribute '${attribute}' in database '${dbPath}'`);
+            throw new SecretNotFoundError(`No value found for entry '${entryName}' attribute '${attribute}' in database '${dbPath}'`);
         }
 
         return value;
@@ -147,8 +261,11 @@ export class KeePassProvider extends SecretProvider {
      * Stores a secret value in KeePass.
      * Creates a new entry if it doesn't exist, or updates an existing attribute.
      * 
-     * Note: KeePassXC CLI has limited non-interactive editing support.
-     * This implementation requires interactive password entry for the database.
+     * A password without line breaks is handed to keepassxc-cli add or edit on stdin. Other
+     * attributes and multi-line values can only be given to those commands as arguments, where
+     * the value would be exposed, so they are written by merging in a database that holds just
+     * the changed entry (see updateEntry). Groups of the entry path are created as needed.
+     * The database password is asked for once if KEEPASS_PASSWORD is not set.
      * 
      * @param {string} path - The KeePass secret reference path
      *                        Format: kp://path/to/database.kdbx/entry-path/attribute
@@ -159,105 +276,197 @@ export class KeePassProvider extends SecretProvider {
      */
     async setSecret(path: string, value: string): Promise<void> {
         const parsedPath = this.parsePath(path);
-        
-        // Parse path: kp://path/to/database.kdbx/entry-name/attribute
-        const secretPath = parsedPath.path;
-        const parts = secretPath.split('/');
-        
-        // Find the part that ends with .kdbx
-        let dbPathEndIndex = -1;
-        for (let i = 0; i < parts.length; i++) {
-            if (parts[i].endsWith('.kdbx')) {
-                dbPathEndIndex = i;
-                break;
-            }
-        }
+        const { dbPath, entryName, attribute } = this.splitPath(
+            parsedPath.path,
+            'KeePass path must include database path, entry name, and attribute'
+        );
 
-        if (dbPathEndIndex === -1 || dbPathEndIndex >= parts.length - 2) {
-            throw new Error('KeePass path must include database path, entry name, and attribute');
+        // Ask for the database password up front, since stdin is used to hand over the value
+        if (!this.getPassword(dbPath)) {
+            await this.prepare([path]);
         }
+        const password = this.getPassword(dbPath)!;
 
-        const dbPath = parts.slice(0, dbPathEndIndex + 1).join('/');
-        const entryName = parts[dbPathEndIndex + 1];
-        const attribute = parts[dbPathEndIndex + 2];
+        if (attribute !== 'Password' || /[\r\n]/.test(value)) {
+            try {
+                getLogger().info(`${EMOJI.UPDATING} Writing ${attribute} of KeePass entry ${entryName}...`);
+                await this.updateEntry(dbPath, entryName, attribute, value, password);
+            } catch (error: unknown) {
+                this.wrapProviderError(error, 'write', 'KeePass');
+            }
+            return;
+        }
 
         try {
-            // Determine CLI options based on password availability
-            const cliOptions = this.password 
-                ? { password: this.password, passwordPrompt: 'Enter password to unlock' }
-                : { interactive: true, passwordPrompt: 'Enter password to unlock' };
-            
             // Check if entry exists
-            const showResponse = await this.cli.run(
-                `keepassxc-cli show "${dbPath}" "${entryName}"`,
-                cliOptions
-            );
+            const showResponse = await this.cli.run('keepassxc-cli', ['show', dbPath, entryName], {
+                password,
+                passwordPrompt: 'Enter password to unlock',
+            });
             const entryExists = showResponse.state === 'ok';
 
             if (entryExists) {
-                // Update existing entry
-                console.log(`${EMOJI.UPDATING} Updating KeePass entry ${entryName}, attribute ${attribute}...`);
-                if (!this.password) {
-                    console.log(`${EMOJI.WARNING} KeePassXC CLI requires interactive password entry for editing`);
-                }
-                
-                // Use edit-password for Password attribute
-                if (attribute === 'Password') {
-                    const editResponse = await this.cli.run(
-                        `keepassxc-cli edit-password "${dbPath}" "${entryName}"`,
-                        {
-                            ...cliOptions,
-                            password: value
-                        }
-                    );
-                    
-                    if (editResponse.state !== 'ok') {
-                        throw new Error(editResponse.message || 'Failed to update password');
-                    }
-                } else {
-                    const escapedValue = this.cli.escapeShellValue(value);
-                    const editResponse = await this.cli.run(
-                        `keepassxc-cli set "${dbPath}" "${entryName}" "${attribute}" '${escapedValue}'`,
-                        cliOptions
-                    );
-                    
-                    if (editResponse.state !== 'ok') {
-                        throw new Error(editResponse.message || `Failed to update attribute ${attribute}`);
-                    }
-                }
+                getLogger().info(`${EMOJI.UPDATING} Updating KeePass entry ${entryName}...`);
             } else {
-                // Create new entry
-                console.log(`${EMOJI.CREATING} Creating KeePass entry ${entryName}...`);
-                if (!this.password) {
-                    console.log(`${EMOJI.WARNING} KeePassXC CLI requires interactive password entry for adding entries`);
-                }
-                
-                const addResponse = await this.cli.run(
-                    `keepassxc-cli add "${dbPath}" "${entryName}"`,
-                    {
-                        ...cliOptions,
-                        password: attribute === 'Password' ? value : undefined
-                    }
-                );
-                
-                if (addResponse.state !== 'ok') {
-                    throw new Error(addResponse.message || 'Failed to create entry');
+                getLogger().info(`${EMOJI.CREATING} Creating KeePass entry ${entryName}...`);
+                await this.createGroups(dbPath, entryName, password);
+            }
+
+            // keepassxc-cli reads the database password and then the entry password from stdin
+            const command = entryExists ? 'edit' : 'add';
+            const response = await this.cli.run('keepassxc-cli', [command, '--password-prompt', dbPath, entryName], {
+                input: `${password}\n${value}\n`,
+            });
+            if (response.state !== 'ok') {
+                throw response.toError(entryExists ? 'Failed to update password' : 'Failed to create entry', KP_ERRORS);
+            }
+        } catch (error: unknown) {
+            this.wrapProviderError(error, 'write', 'KeePass');
+        }
+    }
+
+    /**
+     * Creates the groups of an entry path that don't exist yet, since keepassxc-cli only adds
+     * entries to existing groups.
+     * 
+     * @param {string} dbPath - Path to the KeePass database file
+     * @param {string} entryName - The entry path, like app/API_KEY
+     * @param {string} password - The database password
+     * @returns {Promise<void>}
+     * @throws {Error} If a group cannot be created
+     * @private
+     */
+    private async createGroups(dbPath: string, entryName: string, password: string): Promise<void> {
+        const groups = entryName.split('/').slice(0, -1);
+        for (let i = 1; i <= groups.length; i++) {
+            const group = groups.slice(0, i).join('/');
+            const response = await this.cli.run('keepassxc-cli', ['mkdir', dbPath, group], {
+                password,
+                passwordPrompt: 'Enter password to unlock',
+            });
+            if (response.state !== 'ok' && !/already exists/i.test(response.stderr)) {
+                throw response.toError(`Failed to create group ${group}`, KP_ERRORS);
+            }
+        }
+    }
+
+    /**
+     * Sets or removes an attribute of an entry without putting values in command line arguments.
+     * The database is exported, the entry is written as a database of its own to a temporary
+     * directory only the current user can read, and that database is merged back in, which also
+     * keeps the old version of the entry in its history. The temporary files are removed afterwards.
+     * 
+     * @param {string} dbPath - Path to the KeePass database file
+     * @param {string} entryName - The entry path, like Web/GitHub
+     * @param {string} attribute - Name of the attribute
+     * @param {string | null} value - The new value, or null to remove the attribute
+     * @param {string} password - The database password
+     * @returns {Promise<boolean>} Whether the entry has values besides its title afterwards
+     * @throws {SecretNotFoundError} If an attribute of a missing entry is removed
+     * @throws {Error} If the database cannot be exported, or the entry cannot be merged in
+     * @private
+     */
+    private async updateEntry(dbPath: string, entryName: string, attribute: string, value: string | null, password: string): Promise<boolean> {
+        const exported = await this.cli.run('keepassxc-cli', ['export', '--format', 'xml', dbPath], {
+            input: `${password}\n`,
+        });
+        if (exported.state !== 'ok') {
+            throw exported.toError('Unable to read KeePass database', KP_ERRORS);
+        }
+        const update = buildEntryUpdate(exported.stdout, entryName, attribute, value);
+
+        const dir = mkdtempSync(join(tmpdir(), 'salakala-kp-'));
+        try {
+            const xmlPath = join(dir, 'entry.xml');
+            const entryDbPath = join(dir, 'entry.kdbx');
+            writeFileSync(xmlPath, update.xml, { mode: 0o600 });
+
+            // The temporary database gets the same password, entered twice, so it can be merged with --same-credentials
+            const imported = await this.cli.run('keepassxc-cli', ['import', '--set-password', xmlPath, entryDbPath], {
+                input: `${password}\n${password}\n`,
+            });
+            if (imported.state !== 'ok') {
+                throw imported.toError('Failed to prepare the KeePass entry', KP_ERRORS);
+            }
+            const merged = await this.cli.run('keepassxc-cli', ['merge', '--same-credentials', dbPath, entryDbPath], {
+                input: `${password}\n`,
+            });
+            if (merged.state !== 'ok') {
+                throw merged.toError('Failed to update KeePass entry', KP_ERRORS);
+            }
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+        return update.hasValues;
+    }
+
+    /**
+     * Deletes an attribute of a KeePass entry, or the whole entry if no other attribute has a value.
+     * The password is cleared on stdin; other attributes are removed, and standard ones cleared,
+     * through updateEntry.
+     * 
+     * @param {string} path - The KeePass secret reference path
+     *                        Format: kp://path/to/database.kdbx/entry-path/attribute
+     * @returns {Promise<void>}
+     * @throws {Error} If the entry or attribute doesn't exist or cannot be changed
+     */
+    async deleteField(path: string): Promise<void> {
+        const parsedPath = this.parsePath(path);
+        const { dbPath, entryName, attribute } = this.splitPath(
+            parsedPath.path,
+            'KeePass path must include database path, entry name, and attribute'
+        );
+
+        if (!this.getPassword(dbPath)) {
+            await this.prepare([path]);
+        }
+        const password = this.getPassword(dbPath)!;
+        let otherValues: boolean;
+
+        if (attribute !== 'Password') {
+            try {
+                getLogger().info(`${EMOJI.DELETING} Removing ${attribute} from KeePass entry ${entryName}...`);
+                otherValues = await this.updateEntry(dbPath, entryName, attribute, null, password);
+            } catch (error: unknown) {
+                this.wrapProviderError(error, 'delete', 'KeePass');
+            }
+            if (!otherValues) {
+                await this.deleteSecret(path);
+            }
+            return;
+        }
+
+        try {
+            const showResponse = await this.cli.run('keepassxc-cli', ['show', '--all', dbPath, entryName], {
+                password,
+                passwordPrompt: 'Enter password to unlock',
+            });
+            if (showResponse.state !== 'ok') {
+                if (showResponse.stderr.includes('Could not find entry')) {
+                    throw new SecretNotFoundError(`Entry '${entryName}' not found in database '${dbPath}'`);
                 }
-                
-                // If attribute is not Password, set it separately
-                if (attribute !== 'Password') {
-                    const setResponse = await this.cli.run(
-                        `keepassxc-cli set "${dbPath}" "${entryName}" "${attribute}" "${value}"`,
-                        cliOptions
-                    );
-                    
-                    if (setResponse.state !== 'ok') {
-                        throw new Error(setResponse.message || `Failed to set attribute ${attribute}`);
-                    }
+                throw showResponse.toError('Unable to read KeePass entry', KP_ERRORS);
+            }
+
+            // Attributes are listed as `Name: value`; lines that don't start one continue multi-line notes
+            otherValues = showResponse.stdout.split('\n').some(line =>
+                line.trim() !== '' && !/^(Title|Password|Uuid):/.test(line) && !/^[^:\s][^:]*:\s*$/.test(line)
+            );
+            if (otherValues) {
+                getLogger().info(`${EMOJI.DELETING} Clearing the password of KeePass entry ${entryName}...`);
+                const response = await this.cli.run('keepassxc-cli', ['edit', '--password-prompt', dbPath, entryName], {
+                    input: `${password}\n\n`,
+                });
+                if (response.state !== 'ok') {
+                    throw response.toError('Failed to clear password', KP_ERRORS);
                 }
             }
         } catch (error: unknown) {
-            this.wrapProviderError(error, 'write', 'KeePass');
+            this.wrapProviderError(error, 'delete', 'KeePass');
+        }
+
+        if (!otherValues) {
+            await this.deleteSecret(path);
         }
     }
 
@@ -275,48 +484,88 @@ export class KeePassProvider extends SecretProvider {
      */
     async deleteSecret(path: string): Promise<void> {
         const parsedPath = this.parsePath(path);
-        
-        // Parse path: kp://path/to/database.kdbx/entry-name/attribute
-        const secretPath = parsedPath.path;
-        const parts = secretPath.split('/');
-        
-        // Find the part that ends with .kdbx
-        let dbPathEndIndex = -1;
-        for (let i = 0; i < parts.length; i++) {
-            if (parts[i].endsWith('.kdbx')) {
-                dbPathEndIndex = i;
-                break;
-            }
-        }
-
-        if (dbPathEndIndex === -1 || dbPathEndIndex >= parts.length - 2) {
-            throw new Error('KeePass path must include database path, entry name, and attribute');
-        }
-
-        const dbPath = parts.slice(0, dbPathEndIndex + 1).join('/');
-        const entryName = parts[dbPathEndIndex + 1];
+        const { dbPath, entryName } = this.splitPath(
+            parsedPath.path,
+            'KeePass path must include database path, entry name, and attribute'
+        );
 
         try {
-            console.log(`${EMOJI.DELETING} Deleting KeePass entry ${entryName}...`);
+            getLogger().info(`${EMOJI.DELETING} Deleting KeePass entry ${entryName}...`);
             
-            const deleteOptions = this.password 
-                ? { password: this.password, passwordPrompt: 'Enter password to unlock' }
+            const password = this.getPassword(dbPath);
+            const deleteOptions = password 
+                ? { password, passwordPrompt: 'Enter password to unlock' }
                 : { interactive: true, passwordPrompt: 'Enter password to unlock' };
             
-            if (!this.password) {
-                console.log(`${EMOJI.WARNING} KeePassXC CLI requires interactive password entry for deletion`);
+            if (!password) {
+                assertInteractive(`ask for the password of ${dbPath}`, 'Set KEEPASS_PASSWORD to the database password.');
+                getLogger().warn(`${EMOJI.WARNING} KeePassXC CLI requires interactive password entry for deletion`);
             }
             
-            const deleteResponse = await this.cli.run(
-                `keepassxc-cli rm "${dbPath}" "${entryName}"`,
-                deleteOptions
-            );
+            const deleteResponse = await this.cli.run('keepassxc-cli', ['rm', dbPath, entryName], deleteOptions);
             
             if (deleteResponse.state !== 'ok') {
-                throw new Error(deleteResponse.message || 'Failed to delete entry');
+                throw deleteResponse.toError('Failed to delete entry', KP_ERRORS);
             }
         } catch (error: unknown) {
             this.wrapProviderError(error, 'delete', 'KeePass');
         }
     }
+
+    /**
+     * Lists the entries and groups of a KeePass database, or the standard attributes of an entry.
+     * kp://db.kdbx/ lists the entries and groups at the root as containers ending in `/`,
+     * kp://db.kdbx/group/ lists the ones in a group, and kp://db.kdbx/entry/ lists the entry's
+     * UserName, Password, URL and Notes.
+     * 
+     * @param {string} prefix - The URI prefix (e.g., 'kp:///Users/me/secrets.kdbx/')
+     * @returns {Promise<string[]>} The matching URIs
+     * @throws {InvalidPathError} If the prefix doesn't include the database path
+     * @throws {SecretNotFoundError} If a group or entry of the prefix doesn't exist
+     * @throws {Error} If the database cannot be unlocked or listed
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        const parts = prefix.slice('kp://'.length).split('/');
+        const dbPathEndIndex = parts.findIndex(part => part.endsWith('.kdbx'));
+        if (dbPathEndIndex === -1) {
+            throw new InvalidPathError('KeePass prefix must include the database path, e.g. kp:///path/to/database.kdbx/');
+        }
+        const dbPath = parts.slice(0, dbPathEndIndex + 1).join('/');
+        // The complete group and entry names of the prefix; the last part is only the start of a name
+        const names = parts.slice(dbPathEndIndex + 1, -1);
+
+        await this.prepare([prefix]);
+        try {
+            // keepassxc-cli ls prints a line per entry, and per group with a trailing /
+            const listGroup = async (group: string) => {
+                const response = await this.cli.run('keepassxc-cli', ['ls', dbPath, ...(group ? [group] : [])], {
+                    password: this.getPassword(dbPath) ?? undefined,
+                    passwordPrompt: 'Enter password to unlock',
+                });
+                if (response.state !== 'ok') {
+                    throw response.toError('Unable to list KeePass entries', KP_ERRORS);
+                }
+                return response.stdout.split('\n').map(line => line.trim()).filter(Boolean);
+            };
+
+            let group = '';
+            for (const [i, name] of names.entries()) {
+                const children = await listGroup(group);
+                const path = group ? `${group}/${name}` : name;
+                if (children.includes(`${name}/`)) {
+                    group = path;
+                } else if (children.includes(name) && i === names.length - 1) {
+                    const attributes = ['UserName', 'Password', 'URL', 'Notes'];
+                    return this.matchingUris(prefix, attributes.map(attribute => `kp://${dbPath}/${path}/${attribute}`));
+                } else {
+                    throw new SecretNotFoundError(`Entry '${path}' not found in database '${dbPath}'`);
+                }
+            }
+            const children = await listGroup(group);
+            const base = group ? `kp://${dbPath}/${group}` : `kp://${dbPath}`;
+            return this.matchingUris(prefix, children.map(child => `${base}/${child.replace(/\/$/, '')}/`));
+        } catch (error: unknown) {
+            this.wrapProviderError(error, 'list', 'KeePass');
+        }
+    }
 }
\ No newline at end of file
@@ -1,7 +1,20 @@
-import { SecretProvider, PathComponentType } from '../SecretProvider.js';
+import { SecretProvider, PathComponentType, ProviderHealth } from '../SecretProvider.js';
 import { CliHandler } from '../CliHandler.js';
 import { input } from '@inquirer/prompts';
 import { EMOJI } from '../constants.js';
+import { getLogger } from '../context.js';
+import { assertInteractive } from '../interactive.js';
+import { AuthenticationError, InvalidPathError, SecretNotFoundError, isRetryableError, ErrorPatterns } from '../errors.js';
+
+/**
+ * Patterns in lpass error messages that identify the kind of failure
+ */
+const LP_ERRORS: ErrorPatterns = {
+    notFound: /could not find specified account/i,
+    authentication: /not logged in|failed to enter correct password|invalid password|session/i,
+    unavailable: /could not connect|couldn't resolve host|timed out/i,
+    retryable: /could not connect|timed out|too many requests/i,
+};
 
 type LastPassItem = {
     id: string;
@@ -41,7 +54,7 @@ export class LastPassProvider extends SecretProvider {
 
     constructor() {
         super();
-        this.cli = new CliHandler();
+        this.cli = new CliHandler(() => this.timeout);
     }
 
     buildPath(components: Record<string, string>, opts?: { fieldName?: string }): string {
@@ -51,25 +64,57 @@ export class LastPassProvider extends SecretProvider {
     }
 
     async checkLogin() {
-        const result = await this.cli.run('lpass status');
+        if(this.isLoggedIn) {
+            return;
+        }
+        const result = await this.cli.run('lpass', ['status']);
         if(result.state !== "ok" && result.state !== 'error') {
-            throw new Error(result.error?.message || result.message || 'Unable to run lpass status');
+            throw result.toError('Unable to run lpass status', LP_ERRORS);
         }
         if(result.stdout.includes('Not logged in')) {
             this.isLoggedIn = false;
-            console.log(`${EMOJI.ERROR} LastPass CLI is not logged in.`);
+            getLogger().info(`${EMOJI.ERROR} LastPass CLI is not logged in.`);
             await this.tryLogin();
         } else if(result.stdout.includes('Logged in as')) {
             this.isLoggedIn = true;
-            console.log(`${EMOJI.SUCCESS} LastPass CLI is logged in.`);
+            getLogger().info(`${EMOJI.SUCCESS} LastPass CLI is logged in.`);
         } else {
-            console.error(result);
+            getLogger().error(`Unexpected lpass status output: ${result.stdout.trim() || result.stderr.trim()}`);
             throw new Error('Failed to parse lpass status output');
         }
     }
 
+    /**
+     * Logs in before secrets are fetched, so concurrent reads don't each prompt for a login.
+     * @returns {Promise<void>}
+     */
+    async prepare(): Promise<void> {
+        await this.checkLogin();
+    }
+
+    /**
+     * Checks that the LastPass CLI is installed and whether it is logged in.
+     * 
+     * @returns {Promise<ProviderHealth>} The results of the checks
+     */
+    async checkHealth(): Promise<ProviderHealth> {
+        const cli = await this.cli.checkInstalled('lpass', 'LastPass CLI');
+        if (cli.status !== 'ok') {
+            return { cli, credentials: { status: 'skipped', detail: 'The LastPass CLI is not available' } };
+        }
+        const result = await this.cli.run('lpass', ['status', '--color=never']);
+        const loggedIn = result.stdout.match(/Logged in as (.+?)\.?$/m);
+        if (loggedIn) {
+            return { cli, credentials: { status: 'ok', detail: `Logged in as ${loggedIn[1]}` } };
+        }
+        if (result.stdout.includes('Not logged in')) {
+            return { cli, credentials: { status: 'warning', detail: 'Not logged in, salakala will run lpass login interactively' } };
+        }
+        return { cli, credentials: { status: 'error', detail: `Unable to run lpass status: ${result.stderr.trim() || result.message}` } };
+    }
+
     async getItems(): Promise<{ path: string, id: string }[]> {
-        const result = await this.cli.run('lpass ls --color=never');
+        const result = await this.cli.run('lpass', ['ls', '--color=never']);
         const lines = result.stdout.split('\n').filter(line => line.trim() !== '');
         return lines.map(line => {
             const match = line.match(/^(.+)\/(.+)\s+\[id: (\d+)\]/);
@@ -87,27 +132,38 @@ export class LastPassProvider extends SecretProvider {
     }
 
     async tryLogin() {
+        assertInteractive('log in to LastPass', "Run 'lpass login <username>' beforehand.");
         console.log('The LastPass CLI needs your username to be passed in as an argument when logging in. Please enter it now.');
         const username = await input({
             message: 'Enter your LastPass username:',
         });
-        console.log(`${EMOJI.LOGIN} LastPass needs to login. You are interacting with LastPass CLI now.`);
-        const result = await this.cli.run(`lpass login ${username}`, {
+        getLogger().info(`${EMOJI.LOGIN} LastPass needs to login. You are interacting with LastPass CLI now.`);
+        const result = await this.cli.run('lpass', ['login', username], {
             interactive: true,
         });
         if(result.state !== 'ok') {
-            throw new Error(result.error?.message || result.message || 'Unable to run lpass login');
+            throw result.toError('Unable to run lpass login', LP_ERRORS);
         }
         if(result.stdout.includes('Logged in as')) {
             this.isLoggedIn = true;
         } else if(result.stdout.includes('Failed to enter correct password')) {
-            throw new Error('Failed to enter correct password');
+            throw new AuthenticationError('Failed to enter correct password');
         } else {
-            console.error(result);
+            getLogger().error(`Unexpected lpass login output: ${result.stdout.trim() || result.stderr.trim()}`);
             throw new Error('Failed to parse lpass login output');
         }
     }
 
+    /**
+     * Retries lpass failures where the LastPass servers couldn't be reached in time.
+     * 
+     * @param {unknown} error - The error thrown by getSecret or setSecret
+     * @returns {boolean} True if the error matches the retryable patterns
+     */
+    isRetryable(error: unknown): boolean {
+        return isRetryableError(error, LP_ERRORS);
+    }
+
     /**
      * Retrieves a secret value from LastPass using the CLI.
      * 
@@ -134,17 +190,17 @@ export class LastPassProvider extends SecretProvider {
 
         const item = items.find(item => item.path === queryPath);
         if(!item) {
-            throw new Error(`Item '${queryPath}' not found`);
+            throw new SecretNotFoundError(`Item '${queryPath}' not found`);
         }
         const itemId = item.id;
 
-        const result = await this.cli.run(`lpass show --all -j "${itemId}"`);
+        const result = await this.cli.run('lpass', ['show', '--all', '-j', itemId]);
         if(result.state !== 'ok') {
-            throw new Error(result.error?.message || result.message || `Unable to run lpass show for path '${queryPath}'`);
+            throw result.toError(`Unable to run lpass show for path '${queryPath}'`, LP_ERRORS);
         }
         const json = JSON.parse(result.stdout) as LastPassItem[];
         if(json.length === 0) {
-            throw new Error(`No secret found at path '${queryPath}'`);
+            throw new SecretNotFoundError(`No secret found at path '${queryPath}'`);
         }
 
         const itemData = json[0];
@@ -171,7 +227,7 @@ export class LastPassProvider extends SecretProvider {
         }
 
         if (!secretValue) {
-            throw new Error(`No value found for field '${fieldName}' in item '${queryPath}'`);
+            throw new SecretNotFoundError(`No value found for field '${fieldName}' in item '${queryPath}'`);
         }
 
         // If there's a JSON key, parse and extract the value
@@ -199,75 +255,33 @@ export class LastPassProvider extends SecretProvider {
         const parsedPath = this.parsePath(path);
         
         if (parsedPath.pathParts.length < 2) {
-            throw new Error('LastPass path must include at least item name and field');
+            throw new InvalidPathError('LastPass path must include at least item name and field');
         }
 
         const itemName = parsedPath.pathParts.slice(0, -1).join('/');
         const fieldName = parsedPath.pathParts[parsedPath.pathParts.length - 1];
 
+        // In non-interactive mode lpass reads the value from stdin, so it never appears in the command line
+        const fieldOption = this.getFieldOption(fieldName);
+
         try {
             // Check if item exists
-            const showResponse = await this.cli.run(`lpass show "${itemName}" --json`);
+            const showResponse = await this.cli.run('lpass', ['show', '--json', itemName]);
             const itemExists = showResponse.state === 'ok';
 
             if (itemExists) {
                 // Update existing item
-                console.log(`${EMOJI.UPDATING} Updating LastPass item ${itemName}, field ${fieldName}...`);
-                
-                const escapedValue = this.cli.escapeShellValue(value);
-                
-                if (fieldName === 'password') {
-                    const editResponse = await this.cli.run(`lpass edit --non-interactive --password='${escapedValue}' "${itemName}"`);
-                    if (editResponse.state !== 'ok') {
-                        throw new Error(editResponse.message || 'Failed to update password');
-                    }
-                } else if (fieldName === 'username') {
-                    const editResponse = await this.cli.run(`lpass edit --non-interactive --username='${escapedValue}' "${itemName}"`);
-                    if (editResponse.state !== 'ok') {
-                        throw new Error(editResponse.message || 'Failed to update username');
-                    }
-                } else if (fieldName === 'url') {
-                    const editResponse = await this.cli.run(`lpass edit --non-interactive --url='${escapedValue}' "${itemName}"`);
-                    if (editResponse.state !== 'ok') {
-                        throw new Error(editResponse.message || 'Failed to update URL');
-                    }
-                } else if (fieldName === 'note' || fieldName === 'notes') {
-                    const editResponse = await this.cli.run(`lpass edit --non-interactive --notes='${escapedValue}' "${itemName}"`);
-                    if (editResponse.state !== 'ok') {
-                        throw new Error(editResponse.message || 'Failed to update notes');
-                    }
-                } else {
-                    const escapedFieldValue = `${fieldName}:${escapedValue}`;
-                    const editResponse = await this.cli.run(`lpass edit --non-interactive --field='${escapedFieldValue}' "${itemName}"`);
-                    if (editResponse.state !== 'ok') {
-                        throw new Error(editResponse.message || `Failed to update field ${fieldName}`);
-                    }
+                getLogger().info(`${EMOJI.UPDATING} Updating LastPass item ${itemName}, field ${fieldName}...`);
+                const editResponse = await this.cli.run('lpass', ['edit', '--non-interactive', fieldOption, itemName], { input: value });
+                if (editResponse.state !== 'ok') {
+                    throw editResponse.toError(`Failed to update field ${fieldName}`, LP_ERRORS);
                 }
             } else {
                 // Create new item
-                console.log(`${EMOJI.CREATING} Creating LastPass item ${itemName}...`);
-                
-                const escapedValue = this.cli.escapeShellValue(value);
-                
-                // Build the add command based on field type
-                let addCommand = `lpass add --non-interactive "${itemName}"`;
-                
-                if (fieldName === 'password') {
-                    addCommand += ` --password='${escapedValue}'`;
-                } else if (fieldName === 'username') {
-                    addCommand += ` --username='${escapedValue}'`;
-                } else if (fieldName === 'url') {
-                    addCommand += ` --url='${escapedValue}'`;
-                } else if (fieldName === 'note' || fieldName === 'notes') {
-                    addCommand += ` --notes='${escapedValue}'`;
-                } else {
-                    const escapedFieldValue = `${fieldName}:${escapedValue}`;
-                    addCommand += ` --field='${escapedFieldValue}'`;
-                }
-                
-                const addResponse = await this.cli.run(addCommand);
+                getLogger().info(`${EMOJI.CREATING} Creating LastPass item ${itemName}...`);
+                const addResponse = await this.cli.run('lpass', ['add', '--non-interactive', fieldOption, itemName], { input: value });
                 if (addResponse.state !== 'ok') {
-                    throw new Error(addResponse.message || 'Failed to create item');
+                    throw addResponse.toError('Failed to create item', LP_ERRORS);
                 }
             }
         } catch (error: unknown) {
@@ -275,6 +289,27 @@ export class LastPassProvider extends SecretProvider {
         }
     }
 
+    /**
+     * Gets the lpass add/edit option that selects a field.
+     * 
+     * @param {string} fieldName - The field name from the path
+     * @returns {string} The option, e.g. --password or --field=API Key
+     * @private
+     */
+    private getFieldOption(fieldName: string): string {
+        switch (fieldName) {
+            case 'password':
+            case 'username':
+            case 'url':
+                return `--${fieldName}`;
+            case 'note':
+            case 'notes':
+                return '--notes';
+            default:
+                return `--field=${fieldName}`;
+        }
+    }
+
     /**
      * Deletes a secret from LastPass.
      * Deletes the entire item.
@@ -291,21 +326,39 @@ export class LastPassProvider extends SecretProvider {
         const parsedPath = this.parsePath(path);
         
         if (parsedPath.pathParts.length < 2) {
-            throw new Error('LastPass path must include at least item name and field');
+            throw new InvalidPathError('LastPass path must include at least item name and field');
         }
 
         const itemName = parsedPath.pathParts.slice(0, -1).join('/');
 
         try {
-            console.log(`${EMOJI.DELETING} Deleting LastPass item ${itemName}...`);
-            const deleteResponse = await this.cli.run(`lpass rm "${itemName}"`);
+            getLogger().info(`${EMOJI.DELETING} Deleting LastPass item ${itemName}...`);
+            const deleteResponse = await this.cli.run('lpass', ['rm', itemName]);
             
             if (deleteResponse.state !== 'ok') {
-                throw new Error(deleteResponse.message || 'Failed to delete item');
+                throw deleteResponse.toError('Failed to delete item', LP_ERRORS);
             }
         } catch (error: unknown) {
             this.wrapProviderError(error, 'delete', 'LastPass');
         }
     }
 
+    /**
+     * Lists the LastPass items whose URIs start with the prefix, as listed by lpass ls.
+     * An item URI reads the password; append /username, /url or /notes for the other fields.
+     * 
+     * @param {string} prefix - The URI prefix (e.g., 'lp://Development/')
+     * @returns {Promise<string[]>} The matching URIs
+     * @throws {Error} If logging in fails
+     */
+    async listSecrets(prefix: string): Promise<string[]> {
+        await this.checkLogin();
+        try {
+            const items = await this.getItems();
+            return this.matchingUris(prefix, items.map(item => `lp://${item.path}`));
+        } catch (error: unknown) {
+            this.wrapProviderError(error, 'list', 'LastPass');
+        }
+    }
+
 } 
\ No newline at end of file
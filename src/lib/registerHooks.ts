@@ -0,0 +1,39 @@
+import { MessagePort } from 'worker_threads';
+import { resolve } from '../index.js';
+
+/**
+ * Data that salakala/register passes to the hooks when registering them.
+ */
+export interface RegisterData {
+    /** Port to post the RegisterMessage to */
+    port: MessagePort;
+    /** Path to the configuration file */
+    config: string;
+    /** Environment to resolve */
+    environment: string;
+}
+
+/**
+ * What the hooks post back to salakala/register: the resolved values, or why resolving failed.
+ */
+export type RegisterMessage = { values: Record<string, string> } | { error: string };
+
+/**
+ * Module hooks initializer that resolves the secrets on the hooks thread.
+ * module.register() doesn't return before this finishes, which lets salakala/register wait
+ * for the secrets synchronously, before any application code is loaded.
+ * The hooks don't change how modules are resolved or loaded.
+ *
+ * @param {RegisterData} data - The port to answer on and what to resolve
+ * @returns {Promise<void>} Resolves once the values or the error have been posted
+ */
+export async function initialize({ port, config, environment }: RegisterData): Promise<void> {
+    let message: RegisterMessage;
+    try {
+        const { values } = await resolve({ config, environment });
+        message = { values };
+    } catch (error) {
+        message = { error: error instanceof Error ? error.message : String(error) };
+    }
+    port.postMessage(message);
+}
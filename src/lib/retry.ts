@@ -0,0 +1,186 @@
+import { readFileSync } from 'fs';
+import { SecretProvider } from './SecretProvider.js';
+import { EMOJI } from './constants.js';
+import { getLogger, getSignal } from './context.js';
+
+/**
+ * How failed reads, listings and idempotent writes are retried.
+ * Delays grow exponentially from `delay` up to `maxDelay`, with random jitter.
+ */
+export interface RetryPolicy {
+    /** How many times a failed call is retried, 0 disables retrying */
+    retries: number;
+    /** Delay before the first retry in milliseconds, doubled for every following retry */
+    delay: number;
+    /** Upper limit of the delay between retries in milliseconds */
+    maxDelay: number;
+}
+
+/**
+ * Retry policy used when neither the config file nor the command line sets one
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 3,
+    delay: 500,
+    maxDelay: 10000,
+};
+
+/**
+ * Top-level config key of the retry settings
+ */
+export const RETRY_KEY = '$retry';
+
+/**
+ * Validates the `$retry` settings of a config file.
+ *
+ * @param {unknown} value - The value of the `$retry` key
+ * @returns {Partial<RetryPolicy>} The retry settings
+ * @throws {Error} If the value is not an object of non-negative integer settings
+ */
+export function parseRetrySettings(value: unknown): Partial<RetryPolicy> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error(`Invalid ${RETRY_KEY}: expected an object with retries, delay and/or maxDelay`);
+    }
+    const settings = value as Record<string, unknown>;
+    const allowedKeys = Object.keys(DEFAULT_RETRY_POLICY);
+    const unknownKeys = Object.keys(settings).filter(key => !allowedKeys.includes(key));
+    if (unknownKeys.length > 0) {
+        throw new Error(`Invalid ${RETRY_KEY}: unknown key(s) ${unknownKeys.join(', ')}. Allowed keys: ${allowedKeys.join(', ')}`);
+    }
+    for (const [key, setting] of Object.entries(settings)) {
+        if (typeof setting !== 'number' || !Number.isInteger(setting) || setting < 0) {
+            throw new Error(`Invalid ${RETRY_KEY}: "${key}" must be a non-negative integer`);
+        }
+    }
+    return settings as Partial<RetryPolicy>;
+}
+
+/**
+ * Reads the `$retry` settings of a config file.
+ *
+ * @param {string} configPath - Path to the JSON configuration file
+ * @returns {Partial<RetryPolicy>} The retry settings, empty if the file has none
+ * @throws {Error} If the file can't be read or the settings are invalid
+ */
+export function readRetrySettings(configPath: string): Partial<RetryPolicy> {
+    const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+    return config?.[RETRY_KEY] === undefined ? {} : parseRetrySettings(config[RETRY_KEY]);
+}
+
+/**
+ * Combines retry settings with the defaults. Later settings take precedence,
+ * and settings that are undefined are ignored.
+ *
+ * @param {Partial<RetryPolicy>[]} settings - Settings in order of increasing precedence
+ * @returns {RetryPolicy} The complete retry policy
+ */
+export function resolveRetryPolicy(...settings: Partial<RetryPolicy>[]): RetryPolicy {
+    const policy = { ...DEFAULT_RETRY_POLICY };
+    for (const setting of settings) {
+        for (const key of Object.keys(policy) as (keyof RetryPolicy)[]) {
+            if (setting[key] !== undefined) {
+                policy[key] = setting[key]!;
+            }
+        }
+    }
+    return policy;
+}
+
+/**
+ * Calculates the delay before a retry: the exponential backoff delay,
+ * of which a random part between a half and the whole is used.
+ *
+ * @param {RetryPolicy} policy - The retry policy
+ * @param {number} retry - Number of the retry, starting from 1
+ * @returns {number} The delay in milliseconds
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+    const backoff = Math.min(policy.maxDelay, policy.delay * 2 ** (retry - 1));
+    return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
+
+/**
+ * Runs an operation, retrying it with exponential backoff while it fails with retryable errors.
+ * Every retry is logged with the error that caused it.
+ *
+ * @param {() => Promise<T>} operation - The operation to run
+ * @param {(error: unknown) => boolean} isRetryable - Decides whether an error is worth retrying
+ * @param {RetryPolicy} policy - The retry policy
+ * @param {string} description - What the operation does, for the log (e.g., 'Fetching op://vault/item/field')
+ * @returns {Promise<T>} The result of the first successful attempt
+ * @throws {Error} The error of the last attempt, or the first error that isn't retryable
+ */
+export async function retry<T>(
+    operation: () => Promise<T>,
+    isRetryable: (error: unknown) => boolean,
+    policy: RetryPolicy,
+    description: string
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            const signal = getSignal();
+            if (attempt > policy.retries || !isRetryable(error) || signal?.aborted) {
+                throw error;
+            }
+            const delay = getRetryDelay(policy, attempt);
+            const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+            getLogger().warn(`${EMOJI.RETRYING} ${description} failed (${reason}), retrying in ${delay}ms (retry ${attempt}/${policy.retries})`);
+            await sleep(delay, signal);
+        }
+    }
+}
+
+/**
+ * Waits before a retry, stopping early if the call is aborted.
+ *
+ * @param {number} ms - How long to wait
+ * @param {AbortSignal} [signal] - The abort signal of the current call
+ * @returns {Promise<void>} Resolves after the delay, rejects with the abort reason when aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Wraps a provider so that its getSecret and listSecrets calls are retried according to the policy,
+ * using the provider's isRetryable to decide which errors are transient.
+ * setSecret is only retried for providers with idempotent writes: a write that timed out may
+ * still have succeeded, and writing again could create a second item in providers like 1Password and Bitwarden.
+ * Everything else is passed through to the provider unchanged.
+ *
+ * @param {T} provider - The provider to wrap
+ * @param {RetryPolicy} policy - The retry policy
+ * @returns {T} The wrapped provider, or the provider itself if retrying is disabled
+ */
+export function withRetries<T extends SecretProvider>(provider: T, policy: RetryPolicy): T {
+    if (policy.retries === 0) {
+        return provider;
+    }
+    const isRetryable = (error: unknown) => provider.isRetryable(error);
+    return new Proxy(provider, {
+        get(target, property, receiver) {
+            if (property === 'getSecret') {
+                return (path: string) => retry(() => target.getSecret(path), isRetryable, policy, `Fetching ${path}`);
+            }
+            if (property === 'setSecret' && target.idempotentWrites) {
+                return (path: string, value: string) => retry(() => target.setSecret(path, value), isRetryable, policy, `Writing ${path}`);
+            }
+            if (property === 'listSecrets') {
+                return (prefix: string) => retry(() => target.listSecrets(prefix), isRetryable, policy, `Listing ${prefix}`);
+            }
+            return Reflect.get(target, property, receiver);
+        },
+    });
+}
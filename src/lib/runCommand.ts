@@ -0,0 +1,78 @@
+import { spawn } from 'child_process';
+import { constants } from 'os';
+
+/**
+ * Signals that are forwarded from salakala to the child process.
+ */
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGTERM'];
+
+/**
+ * Signals the terminal sends to its whole foreground process group, child included: Ctrl-C,
+ * Ctrl-\ and a hangup. Forwarding them would deliver them twice, so salakala only keeps them
+ * from ending it before the child has handled them and exited.
+ */
+const TERMINAL_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGQUIT', 'SIGHUP'];
+
+/**
+ * Runs a command as a child process with the given environment variables merged over process.env.
+ * stdin, stdout and stderr are inherited. SIGTERM received by salakala is forwarded to the
+ * child while it runs, and signals from the terminal are left for the child to handle.
+ *
+ * @param {string} command - The executable to run
+ * @param {string[]} args - Arguments passed to the executable
+ * @param {Record<string, string>} env - Environment variables to inject (take precedence over process.env)
+ * @returns {Promise<number>} The child's exit code, or 128 + signal number if it was killed by a signal
+ * @throws {Error} If the command cannot be started
+ */
+export function runCommand(command: string, args: string[], env: Record<string, string>): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, {
+            stdio: 'inherit',
+            env: {
+                ...process.env,
+                ...env
+            }
+        });
+
+        const forward = (signal: NodeJS.Signals) => {
+            if (child.exitCode === null && child.signalCode === null) {
+                child.kill(signal);
+            }
+        };
+        const ignore = () => {};
+        const removeForwarders = () => {
+            for (const signal of FORWARDED_SIGNALS) {
+                process.removeListener(signal, forward);
+            }
+            for (const signal of TERMINAL_SIGNALS) {
+                process.removeListener(signal, ignore);
+            }
+        };
+        for (const signal of FORWARDED_SIGNALS) {
+            process.on(signal, forward);
+        }
+        for (const signal of TERMINAL_SIGNALS) {
+            process.on(signal, ignore);
+        }
+
+        child.on('error', (error: NodeJS.ErrnoException) => {
+            removeForwarders();
+            if (error.code === 'ENOENT') {
+                reject(new Error(`Command not found: ${command}`));
+            } else if (error.code === 'EACCES') {
+                reject(new Error(`Command not executable or permission denied: ${command}`));
+            } else {
+                reject(error);
+            }
+        });
+
+        child.on('exit', (code, signal) => {
+            removeForwarders();
+            if (signal) {
+                resolve(128 + (constants.signals[signal] ?? 0));
+            } else {
+                resolve(code ?? 1);
+            }
+        });
+    });
+}
@@ -0,0 +1,110 @@
+import { SCHEME_SOURCE } from './constants.js';
+
+/**
+ * A reference inside a template value, written as {{ NAME }} or {{ scheme://path[::jsonKey] }}.
+ */
+export interface TemplateReference {
+    /** 'variable' for another key of the same config, 'uri' for an inline secret URI */
+    kind: 'variable' | 'uri';
+    /** The variable name or the URI */
+    target: string;
+}
+
+/**
+ * Matches {{ ... }} placeholders whose content looks like a variable name or a secret URI, and
+ * the \{{ escape for a literal {{. Other double-brace content is left alone, so values like Go or
+ * Jinja templates pass through.
+ */
+const TEMPLATE_PATTERN = new RegExp(`\\\\\\{\\{|\\{\\{\\s*([A-Za-z_][A-Za-z0-9_]*|${SCHEME_SOURCE}://[^\\s{}]+)\\s*\\}\\}`, 'g');
+
+/**
+ * Classifies the content of a placeholder, or returns null if it should be left as literal text.
+ */
+function toReference(target: string | undefined, isVariable: (name: string) => boolean): TemplateReference | null {
+    if (target === undefined) {
+        return null;
+    }
+    if (target.includes('://')) {
+        return { kind: 'uri', target };
+    }
+    return isVariable(target) ? { kind: 'variable', target } : null;
+}
+
+/**
+ * Finds the references in a value. A bare name only counts as a reference if it is a variable
+ * of the same config, so values that happen to contain text like {{ name }} keep working.
+ *
+ * @param {string} value - The config value
+ * @param {(name: string) => boolean} isVariable - Whether a name is a variable of the config
+ * @returns {TemplateReference[]} The references, in order of appearance (empty if the value is not a template)
+ */
+export function parseTemplate(value: string, isVariable: (name: string) => boolean): TemplateReference[] {
+    return Array.from(value.matchAll(TEMPLATE_PATTERN), ([, target]) => toReference(target, isVariable))
+        .filter((reference): reference is TemplateReference => reference !== null);
+}
+
+/**
+ * Replaces the references in a template value with their values and \{{ escapes with {{.
+ * Placeholders that aren't references are kept as they are.
+ *
+ * @param {string} value - The template value
+ * @param {(name: string) => boolean} isVariable - Whether a name is a variable of the config
+ * @param {(reference: TemplateReference) => string} lookup - Returns the value of a reference
+ * @returns {string} The rendered value
+ * @throws {Error} If the lookup throws
+ */
+export function renderTemplate(
+    value: string,
+    isVariable: (name: string) => boolean,
+    lookup: (reference: TemplateReference) => string
+): string {
+    return value.replace(TEMPLATE_PATTERN, (match: string, target: string | undefined) => {
+        if (target === undefined) {
+            return '{{';
+        }
+        const reference = toReference(target, isVariable);
+        return reference ? lookup(reference) : match;
+    });
+}
+
+/**
+ * Checks whether a value contains a \{{ escape, which needs rendering even without references.
+ *
+ * @param {string} value - The config value
+ * @returns {boolean} True if the value contains an escaped {{
+ */
+export function hasTemplateEscape(value: string): boolean {
+    return value.includes('\\{{');
+}
+
+/**
+ * Orders template variables so that every variable comes after the template variables it references.
+ *
+ * @param {Map<string, string[]>} dependencies - Map of template variables to the template variables they reference
+ * @returns {string[]} The variables in dependency order
+ * @throws {Error} If the references form a cycle
+ */
+export function orderTemplates(dependencies: Map<string, string[]>): string[] {
+    const order: string[] = [];
+    const done = new Set<string>();
+
+    const visit = (name: string, chain: string[]) => {
+        if (done.has(name)) {
+            return;
+        }
+        if (chain.includes(name)) {
+            const cycle = [...chain.slice(chain.indexOf(name)), name];
+            throw new Error(`Circular reference between config values: ${cycle.join(' -> ')}`);
+        }
+        for (const dependency of dependencies.get(name) ?? []) {
+            visit(dependency, [...chain, name]);
+        }
+        done.add(name);
+        order.push(name);
+    };
+
+    for (const name of dependencies.keys()) {
+        visit(name, []);
+    }
+    return order;
+}
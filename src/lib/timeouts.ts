@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import { SecretProvider } from './SecretProvider.js';
+
+/**
+ * Timeouts in milliseconds keyed by provider prefix (e.g., 'bw://'), with
+ * `default` applying to providers that aren't listed. 0 disables the timeout.
+ */
+export type TimeoutSettings = Record<string, number>;
+
+/**
+ * Top-level config key of the timeout settings
+ */
+export const TIMEOUT_KEY = '$timeout';
+
+/**
+ * Validates the `$timeout` setting of a config file, which is either a timeout for
+ * all providers or an object of timeouts keyed by provider prefix and `default`.
+ *
+ * @param {unknown} value - The value of the `$timeout` key
+ * @returns {TimeoutSettings} The timeout settings
+ * @throws {Error} If a timeout is not a non-negative integer
+ */
+export function parseTimeoutSettings(value: unknown): TimeoutSettings {
+    const settings = typeof value === 'number' ? { default: value } : value;
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+        throw new Error(`Invalid ${TIMEOUT_KEY}: expected milliseconds or an object of milliseconds keyed by provider prefix (e.g., "bw://") or "default"`);
+    }
+    for (const [key, timeout] of Object.entries(settings)) {
+        if (typeof timeout !== 'number' || !Number.isInteger(timeout) || timeout < 0) {
+            throw new Error(`Invalid ${TIMEOUT_KEY}: "${key}" must be a non-negative integer`);
+        }
+    }
+    return settings as TimeoutSettings;
+}
+
+/**
+ * Reads the `$timeout` settings of a config file.
+ *
+ * @param {string} configPath - Path to the JSON configuration file
+ * @returns {TimeoutSettings} The timeout settings, empty if the file has none
+ * @throws {Error} If the file can't be read or the settings are invalid
+ */
+export function readTimeoutSettings(configPath: string): TimeoutSettings {
+    const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+    return config?.[TIMEOUT_KEY] === undefined ? {} : parseTimeoutSettings(config[TIMEOUT_KEY]);
+}
+
+/**
+ * Sets the timeout of each provider from the settings. A provider-specific timeout takes
+ * precedence over `default`, and providers without either keep their own default timeout.
+ *
+ * @param {Map<string, SecretProvider>} providers - Map of provider prefixes to provider instances
+ * @param {TimeoutSettings} settings - The timeout settings
+ * @throws {Error} If the settings name a provider prefix that doesn't exist
+ */
+export function applyTimeouts(providers: Map<string, SecretProvider>, settings: TimeoutSettings): void {
+    const unknown = Object.keys(settings).filter(key => key !== 'default' && !providers.has(key));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown provider in timeouts: ${unknown.join(', ')}. Supported schemes: ${Array.from(providers.keys()).join(', ')}`);
+    }
+    for (const [prefix, provider] of providers) {
+        provider.timeout = settings[prefix] ?? settings.default ?? provider.timeout;
+    }
+}
+
+/**
+ * Formats a timeout for messages, in seconds when it is a whole number of them.
+ *
+ * @param {number} timeout - The timeout in milliseconds
+ * @returns {string} The timeout, e.g. '30s' or '1500ms'
+ */
+export function formatTimeout(timeout: number): string {
+    return timeout % 1000 === 0 ? `${timeout / 1000}s` : `${timeout}ms`;
+}
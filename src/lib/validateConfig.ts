@@ -0,0 +1,325 @@
+import { SecretProvider } from './SecretProvider.js';
+import { parseJsonSource, toPlainValue, JsonNode, JsonProperty, JsonSyntaxError, SourceLocation } from './jsonSource.js';
+import { isVariableMap, normalizeSecretEntry, omitSettings, SETTINGS_KEYS } from './configEntries.js';
+import { resolveEnvironment, EXTENDS_KEY } from './environments.js';
+import { parseTemplate, orderTemplates } from './templates.js';
+import { parseRetrySettings, RETRY_KEY } from './retry.js';
+import { parseTimeoutSettings, TIMEOUT_KEY } from './timeouts.js';
+import { parsePluginSettings, PLUGINS_KEY } from './plugins.js';
+import { SCHEME_SOURCE } from './constants.js';
+
+/**
+ * A problem found in a configuration file.
+ */
+export interface ValidationIssue extends SourceLocation {
+    message: string;
+}
+
+/**
+ * Schemes of URLs that are commonly used as literal values, like an APP_URL or a local DATABASE_URL.
+ * Values with any other scheme that no provider handles are reported, as they are most likely
+ * mistyped secret URIs (e.g., opp://vault/item/field) that would otherwise be used as they are.
+ */
+const LITERAL_URL_SCHEMES = [
+    'http', 'https', 'ws', 'wss', 'ftp', 'sftp', 'ssh', 'file', 'git',
+    'postgres', 'postgresql', 'mysql', 'mariadb', 'mongodb', 'redis', 'rediss',
+    'amqp', 'amqps', 'nats', 'ldap', 'ldaps', 'smtp', 'smtps', 's3', 'gs', 'sqlite',
+    'git+ssh', 'git+https', 'mongodb+srv',
+];
+
+/**
+ * Matches the scheme at the start of a URI
+ */
+const SCHEME_PREFIX = new RegExp(`^(${SCHEME_SOURCE})://`);
+
+/**
+ * Checks whether a value looks like a URI with a scheme that isn't a common literal URL scheme.
+ *
+ * @param {string} value - The variable value
+ * @returns {boolean} True if the value starts with an uncommon scheme followed by ://
+ */
+function hasSecretLikeScheme(value: string): boolean {
+    const scheme = value.match(SCHEME_PREFIX)?.[1];
+    return scheme !== undefined && !LITERAL_URL_SCHEMES.includes(scheme.toLowerCase());
+}
+
+/**
+ * Statically checks a salakala configuration without fetching any secrets.
+ *
+ * Checks that the file is valid JSON without duplicate keys, that every value is a
+ * secret URI of a registered provider or a literal, that each URI matches its provider's path format, that
+ * `${VAR}` references are defined in the environment, that `{{ }}` references point to
+ * existing variables without cycles, that `$extends` parents exist, that every
+ * dst key of a sync configuration has a src entry, and that the `$retry`, `$timeout`
+ * and `$plugins` settings are valid.
+ *
+ * @param {string} content - The configuration file content
+ * @param {Map<string, SecretProvider>} providers - Map of provider prefixes to provider instances
+ * @returns {ValidationIssue[]} The problems found, in document order
+ */
+export function validateConfig(content: string, providers: Map<string, SecretProvider>): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const report = (location: SourceLocation, message: string) => {
+        issues.push({ line: location.line, column: location.column, message });
+    };
+
+    let root: JsonNode;
+    try {
+        root = parseJsonSource(content);
+    } catch (error) {
+        if (error instanceof JsonSyntaxError) {
+            return [{ ...error.location, message: `Invalid JSON: ${error.message}` }];
+        }
+        throw error;
+    }
+
+    reportDuplicateKeys(root, report);
+
+    if (root.type !== 'object') {
+        report(root, 'The configuration must be a JSON object');
+        return issues;
+    }
+
+    const retrySettings = root.properties.find(p => p.key === RETRY_KEY)?.value;
+    if (retrySettings) {
+        try {
+            parseRetrySettings(toPlainValue(retrySettings));
+        } catch (error) {
+            report(retrySettings, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    const timeoutSettings = root.properties.find(p => p.key === TIMEOUT_KEY)?.value;
+    if (timeoutSettings) {
+        try {
+            const unknown = Object.keys(parseTimeoutSettings(toPlainValue(timeoutSettings)))
+                .filter(key => key !== 'default' && !providers.has(key));
+            if (unknown.length > 0) {
+                report(timeoutSettings, `Unknown provider in ${TIMEOUT_KEY}: ${unknown.join(', ')}. Supported schemes: ${Array.from(providers.keys()).join(', ')}`);
+            }
+        } catch (error) {
+            report(timeoutSettings, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    const pluginSettings = root.properties.find(p => p.key === PLUGINS_KEY)?.value;
+    if (pluginSettings) {
+        try {
+            parsePluginSettings(toPlainValue(pluginSettings));
+        } catch (error) {
+            report(pluginSettings, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    const config = omitSettings(toPlainValue(root));
+    const findPrefix = (uri: string) => Array.from(providers.keys()).find(prefix => uri.startsWith(prefix));
+
+    /**
+     * Checks a secret URI against its provider's path format.
+     */
+    const checkUri = (location: SourceLocation, uri: string) => {
+        const prefix = findPrefix(uri);
+        if (!prefix) {
+            report(location, `Unknown provider in '${uri}'. Supported schemes: ${Array.from(providers.keys()).join(', ')}`);
+            return;
+        }
+        try {
+            providers.get(prefix)!.validatePath(uri);
+        } catch (error) {
+            report(location, `Invalid ${prefix} URI '${uri}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    /**
+     * Checks a variable value: environment references, templates and the URI itself.
+     */
+    const checkValue = (location: SourceLocation, envVar: string, value: string, scope: Set<string>) => {
+        let unresolved = false;
+        const substituted = value.replace(/\${([^}]+)}/g, (match, varName) => {
+            if (process.env[varName] === undefined) {
+                report(location, `${envVar}: environment variable '${varName}' is not defined`);
+                unresolved = true;
+                return match;
+            }
+            return process.env[varName]!;
+        });
+        if (unresolved) {
+            return;
+        }
+
+        const references = parseTemplate(substituted, name => scope.has(name));
+        if (references.length > 0) {
+            for (const reference of references) {
+                if (reference.kind === 'uri') {
+                    checkUri(location, reference.target);
+                }
+            }
+            return;
+        }
+
+        if (findPrefix(substituted) || hasSecretLikeScheme(substituted)) {
+            checkUri(location, substituted);
+        }
+    };
+
+    /**
+     * Checks a map of variable names to URIs or entries.
+     */
+    const checkVariables = (node: JsonNode, scope: Set<string>) => {
+        if (node.type !== 'object') {
+            report(node, 'Expected an object mapping variable names to secret URIs');
+            return;
+        }
+        for (const property of node.properties) {
+            if (property.key === EXTENDS_KEY || (node === root && SETTINGS_KEYS.includes(property.key))) {
+                continue;
+            }
+            const { key, value } = property;
+            if (value.type === 'string') {
+                checkValue(value, key, value.value, scope);
+                continue;
+            }
+            try {
+                const entry = normalizeSecretEntry(key, toPlainValue(value));
+                if (entry.uri !== undefined) {
+                    const uriNode = value.type === 'object' && value.properties.find(p => p.key === 'uri');
+                    checkValue(uriNode ? uriNode.value : value, key, entry.uri, scope);
+                }
+            } catch (error) {
+                report(value, error instanceof Error ? error.message : String(error));
+            }
+        }
+    };
+
+    /**
+     * Checks the dst map of a sync configuration.
+     */
+    const checkDestinations = (node: JsonNode, srcKeys: Set<string>) => {
+        if (node.type !== 'object') {
+            report(node, 'dst must be an object mapping variable names to destination URIs');
+            return;
+        }
+        for (const { key, location, value } of node.properties) {
+            if (!srcKeys.has(key)) {
+                report(location, `dst key '${key}' has no src entry`);
+            }
+            const destinations = value.type === 'array' ? value.items : [value];
+            for (const destination of destinations) {
+                if (destination.type !== 'string') {
+                    report(destination, `dst value of '${key}' must be a URI or a list of URIs`);
+                    continue;
+                }
+                checkUri(destination, destination.value);
+            }
+        }
+    };
+
+    /**
+     * Checks that the template references of a resolved variable map don't form a cycle.
+     */
+    const checkTemplateCycles = (location: SourceLocation, variables: Record<string, unknown>) => {
+        const dependencies = new Map<string, string[]>();
+        for (const [envVar, value] of Object.entries(variables)) {
+            const uri = typeof value === 'string' ? value : (value as { uri?: unknown })?.uri;
+            if (typeof uri === 'string') {
+                dependencies.set(envVar, parseTemplate(uri, name => Object.hasOwn(variables, name)).filter(r => r.kind === 'variable').map(r => r.target));
+            }
+        }
+        try {
+            orderTemplates(dependencies);
+        } catch (error) {
+            report(location, error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    // Flat sync configuration with src and dst at the top level
+    const topLevelSrc = root.properties.find(p => p.key === 'src')?.value;
+    const topLevelDst = root.properties.find(p => p.key === 'dst')?.value;
+    if (topLevelSrc?.type === 'object' && topLevelDst?.type === 'object') {
+        const scope = new Set(Object.keys(config.src));
+        checkVariables(topLevelSrc, scope);
+        checkDestinations(topLevelDst, scope);
+        checkTemplateCycles(root, config.src);
+        return sortIssues(issues);
+    }
+
+    if (isVariableMap(config)) {
+        checkVariables(root, new Set(Object.keys(config)));
+        checkTemplateCycles(root, config);
+        return sortIssues(issues);
+    }
+
+    for (const { key: environment, location, value } of root.properties) {
+        if (SETTINGS_KEYS.includes(environment)) {
+            continue;
+        }
+        if (value.type !== 'object') {
+            report(value, `'${environment}' must be an environment object, since other top-level values are environments`);
+            continue;
+        }
+
+        let resolved: Record<string, any>;
+        try {
+            resolved = resolveEnvironment(config, environment)!;
+        } catch (error) {
+            report(location, error instanceof Error ? error.message : String(error));
+            continue;
+        }
+
+        const srcNode = value.properties.find(p => p.key === 'src')?.value;
+        const dstNode = value.properties.find(p => p.key === 'dst')?.value;
+        const isSync = 'src' in resolved && 'dst' in resolved;
+        const variables = isSync ? resolved.src : resolved;
+        const scope = new Set(Object.keys(variables));
+
+        if (isSync) {
+            if (srcNode) {
+                checkVariables(srcNode, scope);
+            }
+            if (dstNode) {
+                checkDestinations(dstNode, scope);
+            }
+        } else {
+            checkVariables(value, scope);
+        }
+        checkTemplateCycles(location, variables);
+    }
+
+    return sortIssues(issues);
+}
+
+/**
+ * Reports keys that appear more than once in the same object, anywhere in the document.
+ *
+ * @param {JsonNode} node - The node to check
+ * @param {(location: SourceLocation, message: string) => void} report - Issue reporter
+ */
+function reportDuplicateKeys(node: JsonNode, report: (location: SourceLocation, message: string) => void): void {
+    if (node.type === 'array') {
+        node.items.forEach(item => reportDuplicateKeys(item, report));
+        return;
+    }
+    if (node.type !== 'object') {
+        return;
+    }
+    const seen = new Map<string, JsonProperty>();
+    for (const property of node.properties) {
+        const first = seen.get(property.key);
+        if (first) {
+            report(property.location, `Duplicate key '${property.key}' (first defined on line ${first.location.line})`);
+        } else {
+            seen.set(property.key, property);
+        }
+        reportDuplicateKeys(property.value, report);
+    }
+}
+
+/**
+ * Sorts issues by their position in the file.
+ *
+ * @param {ValidationIssue[]} issues - The issues to sort
+ * @returns {ValidationIssue[]} The sorted issues
+ */
+function sortIssues(issues: ValidationIssue[]): ValidationIssue[] {
+    return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -0,0 +1,35 @@
+import { register } from 'module';
+import { MessageChannel, receiveMessageOnPort } from 'worker_threads';
+import type { RegisterData, RegisterMessage } from './lib/registerHooks.js';
+
+/**
+ * Fills process.env from salakala.json when imported, before the application runs:
+ *
+ *     node --import salakala/register app.js
+ *
+ * The environment is taken from SALAKALA_ENV or NODE_ENV, defaulting to 'development'.
+ * Secrets are resolved by module hooks that this module registers, so importing it blocks
+ * until they are available without a top-level await. Variables that are already set are
+ * kept, and nothing is written to disk.
+ */
+
+const config = 'salakala.json';
+const environment = process.env.SALAKALA_ENV || process.env.NODE_ENV || 'development';
+
+const { port1, port2 } = new MessageChannel();
+const data: RegisterData = { port: port2, config, environment };
+register('./lib/registerHooks.js', import.meta.url, { data, transferList: [port2] });
+const message = receiveMessageOnPort(port1)?.message as RegisterMessage | undefined;
+port1.close();
+
+if (!message) {
+    throw new Error('salakala/register did not receive the resolved secrets');
+}
+if ('error' in message) {
+    throw new Error(`salakala/register could not resolve ${config} for environment '${environment}':\n- ${message.error}`);
+}
+for (const [name, value] of Object.entries(message.values)) {
+    if (process.env[name] === undefined) {
+        process.env[name] = value;
+    }
+}
@@ -34,7 +34,7 @@ describe('AzureKeyVaultProvider', () => {
         const result = await provider.getSecret('azurekv://my-vault.vault.azure.net/secret-name');
         
         expect(result).toBe('test-secret-value');
-        expect(mockGetSecret).toHaveBeenCalledWith('secret-name');
+        expect(mockGetSecret).toHaveBeenCalledWith('secret-name', { abortSignal: expect.any(AbortSignal) });
     });
 
     // Note: Azure Key Vault automatically handles binary data by returning base64 encoded strings,
@@ -82,7 +82,7 @@ describe('AzureKeyVaultProvider', () => {
         const result = await provider.getSecret('azurekv://my-vault.vault.azure.net/json-secret::key');
         
         expect(result).toBe(standardJsonData.key);
-        expect(mockGetSecret).toHaveBeenCalledWith('json-secret');
+        expect(mockGetSecret).toHaveBeenCalledWith('json-secret', { abortSignal: expect.any(AbortSignal) });
     });
 
     it('should retrieve nested JSON secret with :: syntax', async () => {
@@ -98,7 +98,7 @@ describe('AzureKeyVaultProvider', () => {
         const result = await provider.getSecret('azurekv://my-vault.vault.azure.net/json-secret::nested.value');
         
         expect(result).toBe(standardJsonData.nested.value);
-        expect(mockGetSecret).toHaveBeenCalledWith('json-secret');
+        expect(mockGetSecret).toHaveBeenCalledWith('json-secret', { abortSignal: expect.any(AbortSignal) });
     });
 
     it('should throw on non-existent JSON key with :: syntax', async () => {
@@ -124,6 +124,37 @@ describe('AzureKeyVaultProvider', () => {
         });
     });
 
+    describe('listSecrets', () => {
+        it('should list enabled secrets that match the prefix', async () => {
+            const mockListPropertiesOfSecrets = vi.fn().mockImplementation(async function* () {
+                yield { name: 'api-key', enabled: true };
+                yield { name: 'db-password', enabled: true };
+                yield { name: 'api-old', enabled: false };
+                yield { name: 'api-endpoint' };
+            });
+
+            vi.mocked(SecretClient).mockImplementation(() => ({
+                listPropertiesOfSecrets: mockListPropertiesOfSecrets
+            } as unknown as SecretClient));
+
+            vi.mocked(DefaultAzureCredential).mockImplementation(() => ({} as any));
+
+            const result = await provider.listSecrets('azurekv://my-vault.vault.azure.net/api-');
+
+            expect(result).toEqual([
+                'azurekv://my-vault.vault.azure.net/api-endpoint',
+                'azurekv://my-vault.vault.azure.net/api-key',
+            ]);
+            expect(mockListPropertiesOfSecrets).toHaveBeenCalledWith({ abortSignal: expect.any(AbortSignal) });
+        });
+
+        it('should require a vault host', async () => {
+            await expect(provider.listSecrets('azurekv://'))
+                .rejects
+                .toThrow('Azure Key Vault prefix must include the vault host');
+        });
+    });
+
     describe('buildPath', () => {
         it('should build correct path with vault host and secret', () => {
             const path = provider.buildPath({
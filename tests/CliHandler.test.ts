@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { spawn } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { CliHandler } from '../src/lib/CliHandler.js';
+import { runInContext, silentLogger } from '../src/lib/context.js';
+
+/**
+ * Checks whether a process is still running. A killed process whose parent is gone
+ * can linger as a zombie until it is reaped, which doesn't count as running.
+ */
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+    } catch {
+        return false;
+    }
+    const stat = `/proc/${pid}/stat`;
+    return !existsSync(stat) || !/^\d+ \(.*\) Z/.test(readFileSync(stat, 'utf-8'));
+}
+
+/**
+ * Runs a script that starts a long running command through CliHandler with a timeout, so the
+ * command gets a process group of its own. Once the command has started, the script exits
+ * if `how` is 'exit', and is sent SIGINT, as from Ctrl-C, if `how` is 'SIGINT'.
+ *
+ * @returns The pid of the command and the exit code or signal of the script
+ */
+async function endParent(how: 'exit' | 'SIGINT'): Promise<{ pid: number, result: number | string | null }> {
+    const dir = mkdtempSync(join(tmpdir(), 'salakala-cli-'));
+    const script = join(dir, 'parent.ts');
+    writeFileSync(script, `
+        import { CliHandler } from ${JSON.stringify(resolve('src/lib/CliHandler.js'))};
+        new CliHandler(() => 60000).run(process.execPath, ['-e', 'console.log(process.pid); setInterval(() => {}, 1000)'], {
+            onStdout: (line) => {
+                process.stderr.write('pid ' + line);
+                if (${JSON.stringify(how)} === 'exit') {
+                    process.exit(3);
+                }
+            },
+        });
+    `);
+    try {
+        const parent = spawn(resolve('node_modules/.bin/vite-node'), [script], { stdio: ['ignore', 'ignore', 'pipe'] });
+        let pid = 0;
+        parent.stderr.on('data', (data: Buffer) => {
+            const match = /pid (\d+)/.exec(data.toString());
+            if (match) {
+                pid = Number(match[1]);
+                if (how === 'SIGINT') {
+                    parent.kill('SIGINT');
+                }
+            }
+        });
+        const result = await new Promise<number | string | null>(done => parent.on('close', (code, signal) => done(code ?? signal)));
+        await new Promise(done => setTimeout(done, 100));
+        return { pid, result };
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+describe('CliHandler', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should pass arguments to the command as they are, without a shell', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const arg = `it's "$HOME" \`whoami\` ; echo $(id) \\`;
+
+        const response = await new CliHandler().run(process.execPath, ['-e', 'process.stdout.write(process.argv[1])', arg], {
+            suppressStdout: true,
+        });
+
+        expect(response.state).toBe('ok');
+        expect(response.stdout).toBe(arg);
+    });
+
+    it('should censor session keys in the logged command line', async () => {
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        await new CliHandler().run(process.execPath, ['-e', '', '--session=abc', '--session', 'def', 'with space'], {
+            suppressStdout: true,
+        });
+
+        const line = log.mock.calls.map(call => String(call[0])).find(message => message.startsWith('✨ Running:'));
+        expect(line).toBe(`✨ Running: ${process.execPath} -e "" --session=**** --session **** "with space"`);
+    });
+
+    it('should report a missing command as catastrophic', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        const response = await new CliHandler().run('salakala-missing-command', ['--version']);
+
+        expect(response.state).toBe('catastrophic');
+    });
+
+    it('should kill the command and the processes it started when it times out', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        // Starts a child process that outlives the command unless the whole process tree is killed
+        const script = `
+            const child = require('child_process').spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });
+            process.stdout.write(String(child.pid));
+            setInterval(() => {}, 1000);
+        `;
+
+        const response = await new CliHandler(() => 500).run(process.execPath, ['-e', script]);
+
+        expect(response.state).toBe('timeout');
+        expect(response.message).toMatch(/^Command timed out after 500ms: /);
+        expect(response.toError('fallback').name).toBe('ProviderTimeoutError');
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(isRunning(Number(response.stdout))).toBe(false);
+    });
+
+    it('should kill the command when the call is aborted', async () => {
+        const controller = new AbortController();
+        const reason = new Error('Cancelled');
+        setTimeout(() => controller.abort(reason), 200);
+
+        const response = await runInContext({ logger: silentLogger, signal: controller.signal }, () =>
+            new CliHandler().run(process.execPath, ['-e', 'setInterval(() => {}, 1000)'])
+        );
+
+        expect(response.state).toBe('aborted');
+        expect(response.toError('fallback')).toBe(reason);
+    });
+
+    it('should kill commands in a process group of their own when salakala exits', async () => {
+        const { pid, result } = await endParent('exit');
+
+        expect(result).toBe(3);
+        expect(pid).toBeGreaterThan(0);
+        expect(isRunning(pid)).toBe(false);
+    }, 30000);
+
+    it('should pass Ctrl-C on to commands in a process group of their own', async () => {
+        const { pid, result } = await endParent('SIGINT');
+
+        expect(result).toBe('SIGINT');
+        expect(pid).toBeGreaterThan(0);
+        expect(isRunning(pid)).toBe(false);
+    }, 30000);
+
+    it('should not limit interactive commands', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        const response = await new CliHandler(() => 100).run(process.execPath, ['-e', 'setTimeout(() => {}, 300)'], {
+            interactive: true,
+            suppressStdout: true,
+        });
+
+        expect(response.state).toBe('ok');
+    });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { HashiCorpVaultProvider } from '../src/lib/providers/HashiCorpVault.js';
+import { standardJsonData } from './fixtures/import-test-data.js';
+
+/**
+ * Minimal in-process stand-in for the Vault HTTP API.
+ * Serves a KV v2 engine at `secret/` and a KV v1 engine at `kv/`.
+ * Set VAULT_TEST_ADDR to run the same tests against a real `vault server -dev`
+ * (which mounts KV v2 at `secret/`; mount a KV v1 engine at `kv/` too).
+ */
+function createVaultStandIn(token: string) {
+    const v2: Map<string, Record<string, unknown>> = new Map();
+    const v1: Map<string, Record<string, unknown>> = new Map();
+
+    const send = (res: ServerResponse, status: number, body?: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(body === undefined ? '' : JSON.stringify(body));
+    };
+
+    const handler = (req: IncomingMessage, res: ServerResponse) => {
+        let raw = '';
+        req.on('data', (chunk) => raw += chunk);
+        req.on('end', () => {
+            const [path, query = ''] = (req.url || '').replace(/^\/v1\//, '').split('?');
+            const body = raw ? JSON.parse(raw) : {};
+
+            if (path === 'auth/approle/login') {
+                if (body.role_id === 'test-role' && body.secret_id === 'test-secret') {
+                    return send(res, 200, { auth: { client_token: token } });
+                }
+                return send(res, 400, { errors: ['invalid role or secret ID'] });
+            }
+
+            if (req.headers['x-vault-token'] !== token) {
+                return send(res, 403, { errors: ['permission denied'] });
+            }
+
+            if (path.startsWith('sys/internal/ui/mounts/')) {
+                const mount = path.slice('sys/internal/ui/mounts/'.length);
+                if (mount === 'secret') return send(res, 200, { data: { type: 'kv', options: { version: '2' } } });
+                if (mount === 'kv') return send(res, 200, { data: { type: 'kv', options: null } });
+                return send(res, 403, { errors: ['permission denied'] });
+            }
+
+            const listMatch = query.includes('list=true') && path.match(/^(?:secret\/metadata|kv)\/(.*)$/);
+            if (req.method === 'GET' && listMatch) {
+                const directory = listMatch[1] ? `${listMatch[1].replace(/\/$/, '')}/` : '';
+                const keys = new Set(Array.from((path.startsWith('kv/') ? v1 : v2).keys())
+                    .filter(secretPath => secretPath.startsWith(directory))
+                    .map(secretPath => secretPath.slice(directory.length).replace(/\/.*$/, '/')));
+                return keys.size > 0 ? send(res, 200, { data: { keys: Array.from(keys) } }) : send(res, 404, { errors: [] });
+            }
+
+            const v2Match = path.match(/^secret\/(data|metadata)\/(.+)$/);
+            if (v2Match) {
+                const [, kind, secretPath] = v2Match;
+                if (req.method === 'GET' && kind === 'data') {
+                    const data = v2.get(secretPath);
+                    return data ? send(res, 200, { data: { data, metadata: {} } }) : send(res, 404, { errors: [] });
+                }
+                if ((req.method === 'POST' || req.method === 'PUT') && kind === 'data') {
+                    v2.set(secretPath, body.data);
+                    return send(res, 200, { data: { version: 1 } });
+                }
+                if (req.method === 'DELETE' && kind === 'metadata') {
+                    v2.delete(secretPath);
+                    return send(res, 204);
+                }
+            }
+
+            const v1Match = path.match(/^kv\/(.+)$/);
+            if (v1Match) {
+                const [, secretPath] = v1Match;
+                if (req.method === 'GET') {
+                    const data = v1.get(secretPath);
+                    return data ? send(res, 200, { data }) : send(res, 404, { errors: [] });
+                }
+                if (req.method === 'POST' || req.method === 'PUT') {
+                    v1.set(secretPath, body);
+                    return send(res, 204);
+                }
+                if (req.method === 'DELETE') {
+                    v1.delete(secretPath);
+                    return send(res, 204);
+                }
+            }
+
+            send(res, 404, { errors: [] });
+        });
+    };
+
+    return createServer(handler);
+}
+
+describe('HashiCorpVaultProvider', () => {
+    const token = process.env.VAULT_TEST_TOKEN || 'test-token';
+    let server: Server | null = null;
+    let address: string;
+    let provider: HashiCorpVaultProvider;
+
+    beforeAll(async () => {
+        if (process.env.VAULT_TEST_ADDR) {
+            address = process.env.VAULT_TEST_ADDR;
+            return;
+        }
+        server = createVaultStandIn(token);
+        await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+        address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        if (server) {
+            await new Promise((resolve) => server!.close(resolve));
+        }
+    });
+
+    beforeEach(() => {
+        process.env.VAULT_ADDR = address;
+        process.env.VAULT_TOKEN = token;
+        delete process.env.VAULT_ROLE_ID;
+        delete process.env.VAULT_SECRET_ID;
+        delete process.env.VAULT_KV_VERSION;
+        provider = new HashiCorpVaultProvider();
+    });
+
+    it('should throw error for invalid path format', async () => {
+        await expect(provider.getSecret('invalid-path'))
+            .rejects
+            .toThrow('Invalid URI: invalid-path');
+    });
+
+    it('should throw error for path without field', async () => {
+        await expect(provider.getSecret('vault://secret/only-item'))
+            .rejects
+            .toThrow('Invalid path format. Expected: vault://mount/path/to/secret/field[::jsonKey]');
+    });
+
+    it('should throw on non-existent secret', async () => {
+        await expect(provider.getSecret('vault://secret/does/not/exist/value'))
+            .rejects
+            .toThrow("Secret 'secret/does/not/exist' not found");
+    });
+
+    describe('KV v2', () => {
+        it('should write, read and delete a secret', async () => {
+            await provider.setSecret('vault://secret/myapp/database/password', 'hunter2');
+            expect(await provider.getSecret('vault://secret/myapp/database/password')).toBe('hunter2');
+
+            await provider.deleteSecret('vault://secret/myapp/database/password');
+            await expect(provider.getSecret('vault://secret/myapp/database/password'))
+                .rejects
+                .toThrow('not found');
+        });
+
+        it('should keep other fields when writing a field', async () => {
+            await provider.setSecret('vault://secret/myapp/api/key', 'key-value');
+            await provider.setSecret('vault://secret/myapp/api/endpoint', 'https://api.example.com');
+
+            expect(await provider.getSecret('vault://secret/myapp/api/key')).toBe('key-value');
+            expect(await provider.getSecret('vault://secret/myapp/api/endpoint')).toBe('https://api.example.com');
+
+            await provider.deleteSecret('vault://secret/myapp/api/key');
+        });
+
+        it('should delete a field, and the secret with its last field', async () => {
+            await provider.setSecret('vault://secret/myapp/pair/username', 'user');
+            await provider.setSecret('vault://secret/myapp/pair/password', 'hunter2');
+
+            await provider.deleteField('vault://secret/myapp/pair/password');
+            expect(await provider.getSecret('vault://secret/myapp/pair/username')).toBe('user');
+            await expect(provider.getSecret('vault://secret/myapp/pair/password')).rejects.toThrow('not found');
+
+            await provider.deleteField('vault://secret/myapp/pair/username');
+            await expect(provider.getSecret('vault://secret/myapp/pair/username')).rejects.toThrow('not found');
+            await expect(provider.deleteField('vault://secret/myapp/pair/username')).rejects.toThrow("No field 'username'");
+        });
+
+        it('should throw on non-existent field', async () => {
+            await provider.setSecret('vault://secret/myapp/fields/present', 'value');
+
+            await expect(provider.getSecret('vault://secret/myapp/fields/missing'))
+                .rejects
+                .toThrow("Field 'missing' not found in secret 'secret/myapp/fields'");
+
+            await provider.deleteSecret('vault://secret/myapp/fields/present');
+        });
+
+        it('should retrieve JSON values with :: syntax', async () => {
+            await provider.setSecret('vault://secret/myapp/json/config', JSON.stringify(standardJsonData));
+
+            expect(await provider.getSecret('vault://secret/myapp/json/config::key')).toBe(standardJsonData.key);
+            expect(await provider.getSecret('vault://secret/myapp/json/config::nested.value')).toBe(standardJsonData.nested.value);
+            await expect(provider.getSecret('vault://secret/myapp/json/config::nonExistentKey'))
+                .rejects
+                .toThrow('Key nonExistentKey not found in JSON object');
+
+            await provider.deleteSecret('vault://secret/myapp/json/config');
+        });
+    });
+
+    describe('listSecrets', () => {
+        it('should list directories and secrets as containers, and the fields of a secret', async () => {
+            await provider.setSecret('vault://secret/listed/api/key', 'key-value');
+            await provider.setSecret('vault://secret/listed/api/endpoint', 'https://api.example.com');
+            await provider.setSecret('vault://secret/listed/db/primary/password', 'hunter2');
+
+            expect(await provider.listSecrets('vault://secret/listed/')).toEqual([
+                'vault://secret/listed/api/',
+                'vault://secret/listed/db/',
+            ]);
+            expect(await provider.listSecrets('vault://secret/listed/a')).toEqual(['vault://secret/listed/api/']);
+            expect(await provider.listSecrets('vault://secret/listed/api/')).toEqual([
+                'vault://secret/listed/api/endpoint',
+                'vault://secret/listed/api/key',
+            ]);
+
+            await provider.deleteSecret('vault://secret/listed/api/key');
+            await provider.deleteSecret('vault://secret/listed/db/primary/password');
+        });
+
+        it('should return nothing for a directory that does not exist', async () => {
+            expect(await provider.listSecrets('vault://secret/nothing/here/')).toEqual([]);
+        });
+
+        it('should require a mount', async () => {
+            await expect(provider.listSecrets('vault://secret'))
+                .rejects
+                .toThrow('HashiCorp Vault prefix must include the mount');
+        });
+    });
+
+    describe('KV v1', () => {
+        it('should write, read and delete a secret', async () => {
+            await provider.setSecret('vault://kv/myapp/database/password', 'hunter2');
+            await provider.setSecret('vault://kv/myapp/database/username', 'admin');
+
+            expect(await provider.getSecret('vault://kv/myapp/database/password')).toBe('hunter2');
+            expect(await provider.getSecret('vault://kv/myapp/database/username')).toBe('admin');
+
+            await provider.deleteSecret('vault://kv/myapp/database/password');
+            await expect(provider.getSecret('vault://kv/myapp/database/username'))
+                .rejects
+                .toThrow('not found');
+        });
+    });
+
+    describe('Authentication', () => {
+        it.skipIf(!!process.env.VAULT_TEST_ADDR)('should log in with AppRole', async () => {
+            delete process.env.VAULT_TOKEN;
+            process.env.VAULT_ROLE_ID = 'test-role';
+            process.env.VAULT_SECRET_ID = 'test-secret';
+            provider = new HashiCorpVaultProvider();
+
+            await provider.setSecret('vault://secret/myapp/approle/value', 'from-approle');
+            expect(await provider.getSecret('vault://secret/myapp/approle/value')).toBe('from-approle');
+
+            await provider.deleteSecret('vault://secret/myapp/approle/value');
+        });
+
+        it('should fail with an invalid token', async () => {
+            process.env.VAULT_TOKEN = 'wrong-token';
+            provider = new HashiCorpVaultProvider();
+
+            await expect(provider.getSecret('vault://secret/myapp/database/password'))
+                .rejects
+                .toThrow('Failed to read HashiCorp Vault secret: permission denied');
+        });
+    });
+
+    describe('buildPath', () => {
+        it('should build path with mount, secret, and field', () => {
+            const path = provider.buildPath({ mount: 'secret', secret: 'myapp/config' }, { fieldName: 'API_KEY' });
+            expect(path).toBe('vault://secret/myapp/config/API_KEY');
+        });
+
+        it('should use default field name if not provided', () => {
+            const path = provider.buildPath({ mount: 'kv', secret: 'myapp' });
+            expect(path).toBe('vault://kv/myapp/value');
+        });
+    });
+});
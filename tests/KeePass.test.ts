@@ -26,6 +26,25 @@ describe('KeePassProvider', () => {
             .toThrow('Invalid KeePass path format');
     });
 
+    it('should require the database path when listing', async () => {
+        await expect(provider.listSecrets('kp:///tmp/'))
+            .rejects
+            .toThrow('KeePass prefix must include the database path');
+    });
+
+    it('should list entries and their attributes', async () => {
+        const entries = await provider.listSecrets(`kp://${testDbPath}/`);
+        expect(entries).toContain(`kp://${testDbPath}/test/`);
+
+        const attributes = await provider.listSecrets(`kp://${testDbPath}/test/`);
+        expect(attributes).toEqual([
+            `kp://${testDbPath}/test/Notes`,
+            `kp://${testDbPath}/test/Password`,
+            `kp://${testDbPath}/test/URL`,
+            `kp://${testDbPath}/test/UserName`,
+        ]);
+    });
+
     it('should retrieve test entry username', async () => {
         const result = await provider.getSecret(`kp://${testDbPath}/test/UserName`);
         expect(result).toBe(keepassStaticData.testEntry.UserName);
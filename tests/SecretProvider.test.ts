@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { SecretsManager } from '../src/lib/SecretsManager.js';
 import { escapeEnvValue } from '../src/lib/envEscape.js';
+import { SecretProvider } from '../src/lib/SecretProvider.js';
+import { ProviderTimeoutError } from '../src/lib/errors.js';
 import { readFileSync } from 'fs';
 
 // Mock fs.readFileSync
@@ -18,6 +20,24 @@ vi.spyOn(console, 'log').mockImplementation(() => {});
 vi.spyOn(console, 'info').mockImplementation(() => {});
 vi.spyOn(console, 'error').mockImplementation(() => {});
 
+/**
+ * Minimal provider that serves values from a getter, used to exercise base class behaviour.
+ */
+class StaticProvider extends SecretProvider {
+    readonly supportsMultipleFields = false;
+    readonly pathComponents = [];
+
+    constructor(public getSecret: (path: string) => Promise<string>) {
+        super();
+    }
+
+    buildPath(): string {
+        return '';
+    }
+
+    async setSecret(): Promise<void> {}
+}
+
 describe('SecretsManager', () => {
     let manager: SecretsManager;
 
@@ -247,6 +267,410 @@ describe('SecretsManager', () => {
             URL_VALUE: 'https://example.com'
         });
     });
+
+    it('should limit concurrent fetches per provider', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify(
+            Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`SECRET_${i}`, `op://vault/item/field-${i}`]))
+        ));
+
+        let inFlight = 0;
+        let maxInFlight = 0;
+        manager['providers'] = new Map([
+            ['op://', { getSecret: async (path: string) => {
+                inFlight++;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                inFlight--;
+                return path;
+            }}]
+        ]);
+
+        const secrets = await manager.loadSecrets('config.json', 'development', { concurrency: 3 });
+
+        expect(maxInFlight).toBe(3);
+        expect(Object.keys(secrets)).toHaveLength(10);
+    });
+
+    it('should stop fetching once a required secret has failed', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "FIRST": "op://vault/item/first",
+            "SECOND": "op://vault/item/second",
+            "THIRD": "op://vault/item/third",
+            "OTHER": "gcsm://projects/my-project/secrets/other/versions/1",
+            "ANOTHER": "gcsm://projects/my-project/secrets/another/versions/1"
+        }));
+
+        const fetched: string[] = [];
+        manager['providers'] = new Map([
+            ['op://', { getSecret: async (path: string) => {
+                fetched.push(path);
+                throw new Error('denied');
+            }}],
+            ['gcsm://', { getSecret: async (path: string) => {
+                await new Promise(resolve => setTimeout(resolve, 5));
+                fetched.push(path);
+                return 'value';
+            }}]
+        ]);
+
+        await expect(manager.loadSecrets('config.json', 'development', { concurrency: 1 })).rejects.toThrow('Failed to get value for FIRST');
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(fetched).toEqual(['op://vault/item/first', 'gcsm://projects/my-project/secrets/other/versions/1']);
+    });
+
+    it('should fetch from different providers in parallel', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "DB_PASSWORD": "op://vault/item/field",
+            "API_KEY": "gcsm://projects/my-project/secrets/api-key/versions/1"
+        }));
+
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const slowSecret = (value: string) => async () => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            inFlight--;
+            return value;
+        };
+        manager['providers'] = new Map([
+            ['op://', { getSecret: slowSecret('op-secret') }],
+            ['gcsm://', { getSecret: slowSecret('gcs-secret') }]
+        ]);
+
+        await manager.loadSecrets('config.json', 'development', { concurrency: 1 });
+
+        expect(maxInFlight).toBe(2);
+    });
+
+    it('should prepare each provider once before fetching', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "FIRST": "op://vault/item/first",
+            "SECOND": "op://vault/item/second"
+        }));
+
+        const calls: string[] = [];
+        manager['providers'] = new Map([
+            ['op://', {
+                prepare: async (paths: string[]) => { calls.push(`prepare:${paths.join(',')}`); },
+                getSecret: async (path: string) => { calls.push(`get:${path}`); return 'value'; }
+            }]
+        ]);
+
+        await manager.loadSecrets('config.json');
+
+        expect(calls[0]).toBe('prepare:op://vault/item/first,op://vault/item/second');
+        expect(calls.filter(call => call.startsWith('prepare:'))).toHaveLength(1);
+        expect(calls.filter(call => call.startsWith('get:'))).toHaveLength(2);
+    });
+
+    it('should return values in config order regardless of completion order', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "SLOW": "op://vault/item/slow",
+            "LITERAL": "plain value",
+            "FAST": "gcsm://projects/my-project/secrets/fast/versions/1"
+        }));
+
+        manager['providers'] = new Map([
+            ['op://', { getSecret: async () => {
+                await new Promise(resolve => setTimeout(resolve, 10));
+                return 'slow-value';
+            }}],
+            ['gcsm://', { getSecret: async () => 'fast-value' }]
+        ]);
+
+        const secrets = await manager.loadSecrets('config.json');
+
+        expect(Object.keys(secrets)).toEqual(['SLOW', 'LITERAL', 'FAST']);
+    });
+
+    it('should fetch a base secret once for several JSON keys', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "API_KEY": "op://vault/app/config::API_KEY",
+            "DATABASE_URL": "op://vault/app/config::DATABASE_URL",
+            "NESTED": "op://vault/app/config::nested.value",
+            "WHOLE": "op://vault/app/config",
+            "OTHER": "op://vault/app/other"
+        }));
+
+        const getSecret = vi.fn(async (path: string) => path === 'op://vault/app/config'
+            ? JSON.stringify({ API_KEY: 'key', DATABASE_URL: 'postgres://db', nested: { value: 'deep' } })
+            : 'other-value');
+        manager['providers'] = new Map([['op://', new StaticProvider(getSecret)]]);
+
+        const secrets = await manager.loadSecrets('config.json');
+
+        expect(secrets).toEqual({
+            API_KEY: 'key',
+            DATABASE_URL: 'postgres://db',
+            NESTED: 'deep',
+            WHOLE: JSON.stringify({ API_KEY: 'key', DATABASE_URL: 'postgres://db', nested: { value: 'deep' } }),
+            OTHER: 'other-value'
+        });
+        expect(getSecret).toHaveBeenCalledTimes(2);
+        expect(getSecret).toHaveBeenCalledWith('op://vault/app/config');
+        expect(getSecret).toHaveBeenCalledWith('op://vault/app/other');
+    });
+
+    it('should report a missing JSON key for the variable that uses it', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "API_KEY": "op://vault/app/config::API_KEY",
+            "MISSING": "op://vault/app/config::MISSING"
+        }));
+
+        manager['providers'] = new Map([['op://', new StaticProvider(async () => JSON.stringify({ API_KEY: 'key' }))]]);
+
+        await expect(manager.loadSecrets('config.json'))
+            .rejects
+            .toThrow(/Failed to get value for MISSING using op:\/\/vault\/app\/config::MISSING:\n- Key MISSING not found in JSON object/);
+    });
+
+    it('should return the secret config of an environment without fetching', () => {
+        process.env.REGION = 'eu-west-1';
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            production: {
+                src: { "DB_URL": "awssm://${REGION}/db", "PORT": "8080" },
+                dst: { "DB_URL": ["op://vault/db/url"] }
+            }
+        }));
+
+        const getSecret = vi.fn();
+        manager['providers'] = new Map([['awssm://', new StaticProvider(getSecret)]]);
+
+        expect(manager.getSecretConfig('config.json', 'production')).toEqual({
+            DB_URL: { uri: 'awssm://eu-west-1/db' },
+            PORT: { uri: '8080' }
+        });
+        expect(getSecret).not.toHaveBeenCalled();
+    });
+
+    it('should accept object entries in a flat config', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "API_KEY": { "uri": "op://vault/item/field", "description": "API key for the payment service" },
+            "LOG_LEVEL": { "default": "info" },
+            "PORT": "8080"
+        }));
+
+        manager['providers'] = new Map([['op://', new StaticProvider(async () => 'op-secret')]]);
+
+        const secrets = await manager.loadSecrets('config.json', 'production');
+        expect(secrets).toEqual({
+            API_KEY: 'op-secret',
+            LOG_LEVEL: 'info',
+            PORT: '8080'
+        });
+    });
+
+    it('should accept object entries in an environment config', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            development: { "API_KEY": { "uri": "op://vault/dev/field" } },
+            production: { "API_KEY": { "uri": "op://vault/prod/field" } }
+        }));
+
+        manager['providers'] = new Map([['op://', new StaticProvider(async (path) => path)]]);
+
+        const secrets = await manager.loadSecrets('config.json', 'production');
+        expect(secrets).toEqual({ API_KEY: 'op://vault/prod/field' });
+    });
+
+    it('should fall back to the default when an optional secret fails', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "FEATURE_FLAG": { "uri": "op://vault/flags/feature", "optional": true, "default": "off" },
+            "API_KEY": "op://vault/item/field"
+        }));
+
+        manager['providers'] = new Map([['op://', new StaticProvider(async (path) => {
+            if (path.includes('flags')) throw new Error('Item not found');
+            return 'op-secret';
+        })]]);
+
+        const secrets = await manager.loadSecrets('config.json');
+        expect(secrets).toEqual({ FEATURE_FLAG: 'off', API_KEY: 'op-secret' });
+    });
+
+    it('should leave out an optional secret without a default when it fails', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "SENTRY_DSN": { "uri": "op://vault/sentry/dsn", "required": false },
+            "API_KEY": "op://vault/item/field"
+        }));
+
+        manager['providers'] = new Map([['op://', new StaticProvider(async (path) => {
+            if (path.includes('sentry')) throw new Error('Item not found');
+            return 'op-secret';
+        })]]);
+
+        const secrets = await manager.loadSecrets('config.json');
+        expect(secrets).toEqual({ API_KEY: 'op-secret' });
+        expect('SENTRY_DSN' in secrets).toBe(false);
+    });
+
+    it('should treat an undefined variable in an optional URI as a resolution failure', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "TOKEN": { "uri": "op://vault/${UNDEFINED_VAR}/token", "optional": true, "default": "none" }
+        }));
+
+        const getSecret = vi.fn();
+        manager['providers'] = new Map([['op://', new StaticProvider(getSecret)]]);
+
+        const secrets = await manager.loadSecrets('config.json');
+        expect(secrets).toEqual({ TOKEN: 'none' });
+        expect(getSecret).not.toHaveBeenCalled();
+    });
+
+    it('should still fail when a secret that is not optional fails, even with a default', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "API_KEY": { "uri": "op://vault/item/field", "default": "unused" }
+        }));
+
+        manager['providers'] = new Map([['op://', new StaticProvider(async () => {
+            throw new Error('Item not found');
+        })]]);
+
+        await expect(manager.loadSecrets('config.json'))
+            .rejects
+            .toThrow(/Failed to get value for API_KEY using op:\/\/vault\/item\/field:\n- Item not found/);
+    });
+
+    it('should load secrets of an environment that extends another', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            base: {
+                "LOG_LEVEL": "info",
+                "DB_PASSWORD": "op://vault/dev-db/password"
+            },
+            production: {
+                "$extends": "base",
+                "DB_PASSWORD": "op://vault/prod-db/password"
+            }
+        }));
+
+        manager['providers'] = new Map([['op://', new StaticProvider(async (path) => path)]]);
+
+        const secrets = await manager.loadSecrets('config.json', 'production');
+        expect(secrets).toEqual({
+            LOG_LEVEL: 'info',
+            DB_PASSWORD: 'op://vault/prod-db/password'
+        });
+    });
+
+    it('should compose values from other variables and inline URIs', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "DATABASE_URL": "postgres://{{ DB_USER }}:{{ op://vault/db/password }}@{{ DB_HOST }}/app",
+            "DB_HOST": "{{ DB_HOST_NAME }}:5432",
+            "DB_HOST_NAME": "db.internal",
+            "DB_USER": "awssm://us-east-1/db::user"
+        }));
+
+        const opSecret = vi.fn(async () => 'p@ss');
+        manager['providers'] = new Map([
+            ['op://', new StaticProvider(opSecret)],
+            ['awssm://', new StaticProvider(async () => JSON.stringify({ user: 'admin' }))]
+        ]);
+
+        const secrets = await manager.loadSecrets('config.json');
+        expect(secrets).toEqual({
+            DATABASE_URL: 'postgres://admin:p@ss@db.internal:5432/app',
+            DB_HOST: 'db.internal:5432',
+            DB_HOST_NAME: 'db.internal',
+            DB_USER: 'admin'
+        });
+        expect(opSecret).toHaveBeenCalledWith('op://vault/db/password');
+    });
+
+    it('should report reference cycles before fetching', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "A": "{{ B }}-{{ op://vault/item/field }}",
+            "B": "{{ A }}"
+        }));
+
+        const getSecret = vi.fn(async () => 'value');
+        manager['providers'] = new Map([['op://', new StaticProvider(getSecret)]]);
+
+        await expect(manager.loadSecrets('config.json'))
+            .rejects
+            .toThrow('Circular reference between config values: A -> B -> A');
+        expect(getSecret).not.toHaveBeenCalled();
+    });
+
+    it('should leave double braces around names that are not variables as they are', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "GREETING": "Hi {{ name }}",
+            "USER": "admin",
+            "MESSAGE": "{{ USER }} says \\{{ USER }} and {{ name }}"
+        }));
+
+        const result = await manager.loadSecrets('config.json');
+
+        expect(result.GREETING).toBe('Hi {{ name }}');
+        expect(result.MESSAGE).toBe('admin says {{ USER }} and {{ name }}');
+    });
+
+    it('should report a failing inline URI for the variable that uses it', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "URL": "https://user:{{ op://vault/missing/password }}@host",
+            "TOKEN": { "uri": "Bearer {{ op://vault/missing/password }}", "optional": true, "default": "none" }
+        }));
+
+        manager['providers'] = new Map([['op://', new StaticProvider(async () => {
+            throw new Error('Item not found');
+        })]]);
+
+        await expect(manager.loadSecrets('config.json'))
+            .rejects
+            .toThrow(/Failed to get value for URL using https:\/\/user:\{\{ op:\/\/vault\/missing\/password \}\}@host:\n- op:\/\/vault\/missing\/password: Item not found/);
+    });
+
+    it('should fall back when an optional template references a missing value', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "SENTRY_DSN": { "uri": "op://vault/sentry/dsn", "optional": true },
+            "SENTRY_URL": { "uri": "{{ SENTRY_DSN }}?env=prod", "optional": true, "default": "" }
+        }));
+
+        manager['providers'] = new Map([['op://', new StaticProvider(async () => {
+            throw new Error('Item not found');
+        })]]);
+
+        const secrets = await manager.loadSecrets('config.json');
+        expect(secrets).toEqual({ SENTRY_URL: '' });
+    });
+
+    it('should reject invalid object entries', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            development: { "API_KEY": { "uri": "op://vault/item/field", "optinal": true } }
+        }));
+
+        await expect(manager.loadSecrets('config.json'))
+            .rejects
+            .toThrow(/Invalid config for 'API_KEY': unknown key\(s\) optinal/);
+    });
+
+    it('should ignore the $retry and $timeout settings when reading variables', () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "$retry": { "retries": 1 },
+            "$timeout": 1000,
+            "API_KEY": "op://vault/item/field"
+        }));
+
+        expect(manager.getSecretConfig('config.json')).toEqual({ API_KEY: { uri: 'op://vault/item/field' } });
+    });
+
+    it('should name the variable and URI of a request that times out', async () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            "API_KEY": "op://vault/item/field"
+        }));
+        let signal: AbortSignal | undefined;
+        const provider = new StaticProvider(async () => provider['withTimeout']('Reading item', requestSignal => {
+            signal = requestSignal;
+            return new Promise<string>(() => {});
+        }));
+        provider.timeout = 20;
+        manager['providers'] = new Map([['op://', provider]]);
+
+        const error = await manager.loadSecrets('config.json').catch(error => error);
+
+        expect(error).toBeInstanceOf(ProviderTimeoutError);
+        expect(error.message).toBe('Timed out getting value for API_KEY using op://vault/item/field:\n- Reading item timed out after 20ms');
+        expect(signal?.aborted).toBe(true);
+    });
 });
 
 // Add tests for environment variable value escaping
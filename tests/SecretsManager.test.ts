@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SecretsManager } from '../src/lib/SecretsManager.js';
+import { SecretProvider } from '../src/lib/SecretProvider.js';
+import { InvalidPathError } from '../src/lib/errors.js';
+
+/**
+ * Provider that keeps secrets in a map and records prepare calls.
+ */
+class MemoryProvider extends SecretProvider {
+    readonly supportsMultipleFields: boolean = false;
+    readonly pathComponents = [];
+    readonly values = new Map<string, string>();
+    prepare = vi.fn(async (paths: string[]) => {});
+
+    buildPath(): string {
+        return '';
+    }
+
+    async getSecret(path: string): Promise<string> {
+        const { uri, jsonKey } = this.parsePath(path);
+        const value = this.values.get(jsonKey ? uri.slice(0, -(jsonKey.length + 2)) : uri);
+        if (value === undefined) {
+            throw new Error(`No value for ${path}`);
+        }
+        return jsonKey ? this.returnPossibleJsonValue(value, jsonKey) : value;
+    }
+
+    async setSecret(path: string, value: string): Promise<void> {
+        this.values.set(path, value);
+    }
+
+    async deleteSecret(path: string): Promise<void> {
+        this.values.delete(path);
+    }
+
+    async listSecrets(prefix: string): Promise<string[]> {
+        return this.matchingUris(prefix, Array.from(this.values.keys()));
+    }
+}
+
+describe('SecretsManager', () => {
+    const createManager = () => {
+        const provider = new MemoryProvider();
+        const manager = new SecretsManager({ providers: { 'mem://': provider }, retry: { retries: 0, delay: 0, maxDelay: 0 } });
+        return { provider, manager };
+    };
+
+    it('should find the provider of a URI', () => {
+        const { provider, manager } = createManager();
+
+        expect(manager.getProviderFor('mem://app/key')).toEqual({ prefix: 'mem://', provider });
+        expect(() => manager.getProviderFor('unknown://app/key')).toThrow("No provider found for 'unknown://app/key'");
+    });
+
+    it('should write, read, list and delete single secrets after preparing the provider', async () => {
+        const { provider, manager } = createManager();
+
+        await manager.setSecret('mem://app/config', JSON.stringify({ token: 'abc' }));
+        await manager.setSecret('mem://app/key', 'value');
+
+        expect(await manager.getSecret('mem://app/key')).toBe('value');
+        expect(await manager.getSecret('mem://app/config::token')).toBe('abc');
+        expect(await manager.listSecrets('mem://app/')).toEqual(['mem://app/config', 'mem://app/key']);
+
+        await manager.deleteSecret('mem://app/key');
+        expect(await manager.listSecrets('mem://')).toEqual(['mem://app/config']);
+        expect(provider.prepare).toHaveBeenCalledWith(['mem://app/key']);
+    });
+
+    it('should refuse to write or delete part of a JSON value', async () => {
+        const { provider, manager } = createManager();
+        provider.values.set('mem://app/config', '{"token":"abc"}');
+
+        await expect(manager.setSecret('mem://app/config::token', 'new')).rejects.toThrow(InvalidPathError);
+        await expect(manager.deleteSecret('mem://app/config::token')).rejects.toThrow(InvalidPathError);
+        expect(provider.values.get('mem://app/config')).toBe('{"token":"abc"}');
+    });
+
+    it('should handle schemes with +, . and -, like those of plugins', async () => {
+        const provider = new MemoryProvider();
+        const manager = new SecretsManager({ providers: { 'my-vault://': provider }, retry: { retries: 0, delay: 0, maxDelay: 0 } });
+        provider.values.set('my-vault://app/config', JSON.stringify({ token: 'abc', user: 'me' }));
+        const getSecret = vi.spyOn(provider, 'getSecret');
+
+        const dir = mkdtempSync(join(tmpdir(), 'salakala-schemes-'));
+        try {
+            writeFileSync(join(dir, 'salakala.json'), JSON.stringify({ TOKEN: 'my-vault://app/config::token', USER: 'my-vault://app/config::user' }));
+            expect(await manager.loadSecrets(join(dir, 'salakala.json'))).toEqual({ TOKEN: 'abc', USER: 'me' });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+        expect(getSecret).toHaveBeenCalledTimes(1);
+        await expect(manager.setSecret('my-vault://app/config::token', 'new')).rejects.toThrow(InvalidPathError);
+    });
+
+    it('should delete only the field on providers with several fields per item', async () => {
+        const { provider, manager } = createManager();
+        Object.assign(provider, { supportsMultipleFields: true });
+        provider.values.set('mem://app/item/password', 'secret');
+
+        await expect(manager.deleteSecret('mem://app/item/password')).rejects.toThrow("can only delete whole items");
+        expect(provider.values.get('mem://app/item/password')).toBe('secret');
+
+        provider.deleteField = vi.fn(async (path: string) => {});
+        const deleteSecret = vi.spyOn(provider, 'deleteSecret');
+        await manager.deleteSecret('mem://app/item/password');
+        expect(provider.deleteField).toHaveBeenCalledWith('mem://app/item/password');
+        expect(deleteSecret).not.toHaveBeenCalled();
+    });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SyncManager } from '../src/lib/SyncManager.js';
 import { OnePasswordProvider } from '../src/lib/providers/1Password.js';
 import { GoogleCloudSecretsProvider } from '../src/lib/providers/GoogleCloudSecrets.js';
@@ -280,3 +280,123 @@ describe('SyncManager', () => {
     });
 });
 
+/**
+ * Provider that keeps secrets in a map, for testing copy and move without a real provider.
+ */
+class MemoryProvider extends SecretProvider {
+    readonly supportsMultipleFields: boolean = false;
+    readonly pathComponents = [];
+    readonly values = new Map<string, string>();
+
+    buildPath(): string {
+        return '';
+    }
+
+    async getSecret(path: string): Promise<string> {
+        const { jsonKey } = this.parsePath(path);
+        const value = this.values.get(path.split('::')[0]);
+        if (value === undefined) {
+            throw new Error(`No value for ${path}`);
+        }
+        return jsonKey ? this.returnPossibleJsonValue(value, jsonKey) : value;
+    }
+
+    async setSecret(path: string, value: string): Promise<void> {
+        this.values.set(path, value);
+    }
+
+    async deleteSecret(path: string): Promise<void> {
+        this.values.delete(path);
+    }
+}
+
+describe('SyncManager copy and move', () => {
+    let source: MemoryProvider;
+    let target: MemoryProvider;
+    let syncManager: SyncManager;
+
+    beforeEach(() => {
+        source = new MemoryProvider();
+        target = new MemoryProvider();
+        source.values.set('src://app/key', 'value');
+        source.values.set('src://app/config', JSON.stringify({ token: 'abc' }));
+        syncManager = new SyncManager(new Map<string, SecretProvider>([['src://', source], ['dst://', target]]));
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it('should copy a secret, or a value picked with ::jsonKey, and keep the source', async () => {
+        const results = await syncManager.copy('src://app/key', 'dst://app/key');
+        await syncManager.copy('src://app/config::token', 'dst://app/token');
+
+        expect(results).toEqual([{ secretName: 'src://app/key', destination: 'dst://app/key', success: true }]);
+        expect(target.values.get('dst://app/key')).toBe('value');
+        expect(target.values.get('dst://app/token')).toBe('abc');
+        expect(source.values.has('src://app/key')).toBe(true);
+    });
+
+    it('should move a secret by copying, checking the copy and deleting the source', async () => {
+        const results = await syncManager.move('src://app/key', 'dst://app/key', false, true);
+
+        expect(results[0].success).toBe(true);
+        expect(target.values.get('dst://app/key')).toBe('value');
+        expect(source.values.has('src://app/key')).toBe(false);
+    });
+
+    it('should keep the source when the copy reads back differently', async () => {
+        target.setSecret = async (path) => {
+            target.values.set(path, 'truncated');
+        };
+
+        const results = await syncManager.move('src://app/key', 'dst://app/key', false, true);
+
+        expect(results[0].success).toBe(false);
+        expect(results[0].error).toContain("Copied, but the source was kept: dst://app/key doesn't have the value of src://app/key");
+        expect(source.values.get('src://app/key')).toBe('value');
+    });
+
+    it('should not write or delete anything in a dry run', async () => {
+        const deleteSecret = vi.spyOn(source, 'deleteSecret');
+
+        const results = await syncManager.move('src://app/key', 'dst://app/key', true);
+
+        expect(results[0].success).toBe(true);
+        expect(target.values.size).toBe(0);
+        expect(deleteSecret).not.toHaveBeenCalled();
+    });
+
+    it('should delete only the source field from a provider with several fields per item', async () => {
+        Object.assign(source, { supportsMultipleFields: true });
+
+        await expect(syncManager.move('src://app/key', 'dst://app/key', false, true)).rejects.toThrow('can only delete whole items');
+        expect(target.values.size).toBe(0);
+
+        source.deleteField = vi.fn(async (path: string) => {
+            source.values.delete(path);
+        });
+        const deleteSecret = vi.spyOn(source, 'deleteSecret');
+        const results = await syncManager.move('src://app/key', 'dst://app/key', false, true);
+
+        expect(results[0].success).toBe(true);
+        expect(source.deleteField).toHaveBeenCalledWith('src://app/key');
+        expect(deleteSecret).not.toHaveBeenCalled();
+    });
+
+    it('should not overwrite an existing destination in non-interactive mode without confirmation', async () => {
+        target.values.set('dst://app/key', 'old');
+        vi.stubEnv('CI', 'true');
+
+        await expect(syncManager.move('src://app/key', 'dst://app/key')).rejects.toThrow('Pass --yes to overwrite existing secrets.');
+        expect(target.values.get('dst://app/key')).toBe('old');
+        expect(source.values.has('src://app/key')).toBe(true);
+    });
+
+    it('should refuse to move part of a JSON value or onto the source', async () => {
+        await expect(syncManager.move('src://app/config::token', 'dst://app/token')).rejects.toThrow('the whole secret would be deleted');
+        await expect(syncManager.copy('src://app/key', 'src://app/key')).rejects.toThrow('Source and destination are the same secret');
+        expect(source.values.get('src://app/config')).toBe(JSON.stringify({ token: 'abc' }));
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { isSecretEntry, isVariableMap, normalizeSecretEntry, isOptionalEntry } from '../src/lib/configEntries.js';
+
+describe('isSecretEntry', () => {
+    it('should recognize entry objects', () => {
+        expect(isSecretEntry({ uri: 'op://vault/item/field' })).toBe(true);
+        expect(isSecretEntry({ default: 'info', description: 'Log level' })).toBe(true);
+    });
+
+    it('should not treat environments or sync blocks as entries', () => {
+        expect(isSecretEntry({ API_KEY: 'op://vault/item/field' })).toBe(false);
+        expect(isSecretEntry({ src: {}, dst: {} })).toBe(false);
+        expect(isSecretEntry({})).toBe(false);
+        expect(isSecretEntry({ optional: true })).toBe(false);
+        expect(isSecretEntry('op://vault/item/field')).toBe(false);
+    });
+});
+
+describe('isVariableMap', () => {
+    it('should accept maps of strings and entries', () => {
+        expect(isVariableMap({ A: 'x', B: { uri: 'op://vault/item/field', optional: true } })).toBe(true);
+    });
+
+    it('should reject maps of environments', () => {
+        expect(isVariableMap({ development: { A: 'x' }, production: { A: { uri: 'y' } } })).toBe(false);
+    });
+});
+
+describe('normalizeSecretEntry', () => {
+    it('should wrap strings in an entry', () => {
+        expect(normalizeSecretEntry('A', 'op://vault/item/field')).toEqual({ uri: 'op://vault/item/field' });
+    });
+
+    it('should reject entries without a uri or default', () => {
+        expect(() => normalizeSecretEntry('A', { description: 'x' })).toThrow(/either "uri" or "default" is required/);
+    });
+
+    it('should reject wrongly typed keys', () => {
+        expect(() => normalizeSecretEntry('A', { uri: 'x', optional: 'yes' })).toThrow(/"optional" must be true or false/);
+        expect(() => normalizeSecretEntry('A', { uri: 'x', default: 1 })).toThrow(/"default" must be a string/);
+    });
+
+    it('should reject contradicting optional and required', () => {
+        expect(() => normalizeSecretEntry('A', { uri: 'x', optional: true, required: true })).toThrow(/can't both be true/);
+    });
+});
+
+describe('isOptionalEntry', () => {
+    it('should treat optional: true and required: false as optional', () => {
+        expect(isOptionalEntry({ uri: 'x', optional: true })).toBe(true);
+        expect(isOptionalEntry({ uri: 'x', required: false })).toBe(true);
+        expect(isOptionalEntry({ uri: 'x', default: 'y' })).toBe(false);
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runDoctor, collectProviderUris, formatDoctorTable, hasFailures } from '../src/lib/doctor.js';
+import { SecretProvider, ProviderHealth } from '../src/lib/SecretProvider.js';
+
+/**
+ * Minimal provider with a fixed health check result, used to exercise the doctor checks.
+ */
+class StaticProvider extends SecretProvider {
+    readonly supportsMultipleFields = false;
+    readonly pathComponents = [];
+
+    constructor(private health: ProviderHealth, public getSecret: (path: string) => Promise<string> = async () => 'value') {
+        super();
+    }
+
+    buildPath(): string {
+        return '';
+    }
+
+    async setSecret(): Promise<void> {}
+
+    async checkHealth(): Promise<ProviderHealth> {
+        return this.health;
+    }
+}
+
+const ok = { status: 'ok' as const, detail: 'fine' };
+
+describe('collectProviderUris', () => {
+    it('should group URIs by provider, including inline template URIs', () => {
+        const providers = new Map<string, SecretProvider>([
+            ['op://', new StaticProvider({ credentials: ok })],
+            ['awssm://', new StaticProvider({ credentials: ok })],
+        ]);
+        const uris = collectProviderUris({
+            A: { uri: 'op://vault/item/field' },
+            B: { uri: 'plain value' },
+            C: { uri: 'postgres://{{ A }}:{{ awssm://us-east-1/db::password }}@host' },
+            D: { default: 'fallback' },
+            E: { uri: 'op://vault/other/field' },
+        }, providers);
+
+        expect(Array.from(uris)).toEqual([
+            ['op://', ['op://vault/item/field', 'op://vault/other/field']],
+            ['awssm://', ['awssm://us-east-1/db::password']],
+        ]);
+    });
+});
+
+describe('runDoctor', () => {
+    it('should probe the first secret of each provider and apply JSON keys', async () => {
+        const getSecret = vi.fn(async () => '{"user":"admin"}');
+        const providers = new Map<string, SecretProvider>([
+            ['op://', new StaticProvider({ cli: { status: 'ok', detail: 'op 2.30.0' }, credentials: ok }, getSecret)],
+        ]);
+
+        const [report] = await runDoctor({
+            A: { uri: 'op://vault/item/field::user' },
+            B: { uri: 'op://vault/item/other' },
+        }, providers);
+
+        expect(getSecret).toHaveBeenCalledTimes(1);
+        expect(getSecret).toHaveBeenCalledWith('op://vault/item/field');
+        expect(report).toEqual({
+            prefix: 'op://',
+            name: '1Password',
+            cli: { status: 'ok', detail: 'op 2.30.0' },
+            credentials: ok,
+            probe: { uri: 'op://vault/item/field::user', status: 'ok', detail: 'Resolved' },
+        });
+    });
+
+    it('should report probe failures without secret values', async () => {
+        const providers = new Map<string, SecretProvider>([
+            ['op://', new StaticProvider({ credentials: ok }, async () => '{"user":"admin"}')],
+        ]);
+
+        const [report] = await runDoctor({ A: { uri: 'op://vault/item/field::missing' } }, providers);
+
+        expect(report.probe).toEqual({ uri: 'op://vault/item/field::missing', status: 'error', detail: 'Key missing not found in JSON object' });
+        expect(hasFailures([report])).toBe(true);
+    });
+
+    it('should skip the probe when the CLI is missing or a login is needed', async () => {
+        const getSecret = vi.fn(async () => 'value');
+        const providers = new Map<string, SecretProvider>([
+            ['op://', new StaticProvider({
+                cli: { status: 'error', detail: 'not installed' },
+                credentials: { status: 'skipped', detail: 'no CLI' },
+            }, getSecret)],
+            ['bw://', new StaticProvider({ cli: ok, credentials: { status: 'warning', detail: 'not logged in' } }, getSecret)],
+        ]);
+
+        const reports = await runDoctor({
+            A: { uri: 'op://vault/item/field' },
+            B: { uri: 'bw://item/password' },
+        }, providers);
+
+        expect(getSecret).not.toHaveBeenCalled();
+        expect(reports.map(report => report.probe.status)).toEqual(['skipped', 'skipped']);
+        expect(hasFailures([reports[1]])).toBe(false);
+    });
+
+    it('should report errors thrown by the health check', async () => {
+        const provider = new StaticProvider({ credentials: ok });
+        provider.checkHealth = async () => { throw new Error('boom'); };
+
+        const [report] = await runDoctor({ A: { uri: 'op://vault/item/field' } }, new Map([['op://', provider]]));
+
+        expect(report.credentials).toEqual({ status: 'error', detail: 'boom' });
+        expect(report.probe.status).toBe('skipped');
+    });
+});
+
+describe('formatDoctorTable', () => {
+    it('should print one aligned row per check', () => {
+        const table = formatDoctorTable([
+            {
+                prefix: 'op://',
+                name: '1Password',
+                cli: { status: 'ok', detail: 'op 2.30.0' },
+                credentials: { status: 'warning', detail: 'Not signed in' },
+                probe: { uri: 'op://vault/item/field', status: 'skipped', detail: 'Needs login\nmore details' },
+            },
+            {
+                prefix: 'awssm://',
+                name: 'AWS Secrets Manager',
+                credentials: ok,
+                probe: { uri: 'awssm://us-east-1/key', status: 'ok', detail: 'Resolved' },
+            },
+        ]);
+
+        expect(table).toBe([
+            'Provider                        Check        Status   Details',
+            '1Password (op://)               CLI          ok       op 2.30.0',
+            '                                Credentials  warning  Not signed in',
+            '                                Probe        skipped  op://vault/item/field: Needs login',
+            'AWS Secrets Manager (awssm://)  Credentials  ok       fine',
+            '                                Probe        ok       awssm://us-east-1/key: Resolved',
+            '',
+        ].join('\n'));
+    });
+});
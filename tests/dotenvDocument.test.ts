@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parseDotenv, formatDotenv, mergeDotenv } from '../src/lib/dotenvDocument.js';
+import { parseEnvContent } from '../src/lib/ImportUtils.js';
+
+const handWritten = [
+    '# Local settings',
+    'export DEBUG=true',
+    '',
+    'QUOTED="already \\"quoted\\""',
+    "CERT='-----BEGIN-----",
+    'abc=def',
+    "-----END-----'",
+    'not an assignment',
+    'PORT=3000 # inline comment',
+].join('\n') + '\n';
+
+describe('dotenv document', () => {
+    it('should write a parsed file back unchanged', () => {
+        for (const content of [handWritten, 'A=1', 'A=1\r\nB=2\r\n', '', '\n\n']) {
+            expect(formatDotenv(parseDotenv(content))).toBe(content);
+        }
+    });
+
+    it('should keep multi-line quoted values together with their key', () => {
+        const keys = parseDotenv(handWritten).lines.map(line => line.key);
+        expect(keys).toEqual([undefined, 'DEBUG', undefined, 'QUOTED', 'CERT', undefined, 'PORT']);
+    });
+
+    it('should add the block to a new file', () => {
+        expect(mergeDotenv('', { A: 'plain', B: 'with space' }))
+            .toBe('# salakala:begin\nA=plain\nB="with space"\n# salakala:end\n');
+    });
+
+    it('should only replace the block when merging again', () => {
+        const first = mergeDotenv(handWritten, { API_KEY: 'old' });
+        expect(first).toBe(handWritten + '\n# salakala:begin\nAPI_KEY=old\n# salakala:end\n');
+
+        const edited = first + 'API_KEY=local override\n';
+        const second = mergeDotenv(edited, { API_KEY: 'new', TOKEN: 'a b' });
+        expect(second).toBe(handWritten + '\n# salakala:begin\nAPI_KEY=new\nTOKEN="a b"\n# salakala:end\nAPI_KEY=local override\n');
+        expect(parseEnvContent(second)).toMatchObject({ CERT: '-----BEGIN-----\nabc=def\n-----END-----', TOKEN: 'a b' });
+    });
+
+    it('should move the variables of a file without a block into one', () => {
+        const content = '# comment\nA=1\nLOCAL=x\nB=2\n';
+        expect(mergeDotenv(content, { A: '10', B: '20' }))
+            .toBe('# comment\n# salakala:begin\nA=10\nB=20\n# salakala:end\nLOCAL=x\n');
+    });
+
+    it('should keep CRLF line endings', () => {
+        expect(mergeDotenv('LOCAL=x\r\n', { A: '1' }))
+            .toBe('LOCAL=x\r\n\r\n# salakala:begin\r\nA=1\r\n# salakala:end\r\n');
+    });
+
+    it('should find the assignments of a CRLF file', () => {
+        expect(mergeDotenv('# hi\r\nA=1\r\nLOCAL=x\r\n', { A: 'new' }))
+            .toBe('# hi\r\n# salakala:begin\r\nA=new\r\n# salakala:end\r\nLOCAL=x\r\n');
+
+        const crlf = handWritten.replace(/\n/g, '\r\n');
+        expect(parseDotenv(crlf).lines.map(line => line.key)).toEqual([undefined, 'DEBUG', undefined, 'QUOTED', 'CERT', undefined, 'PORT']);
+        expect(formatDotenv(parseDotenv(crlf))).toBe(crlf);
+    });
+
+    it('should throw for a block that is never closed', () => {
+        expect(() => mergeDotenv('# salakala:begin\nA=1\n', { A: '2' })).toThrow(/without a matching '# salakala:end'/);
+    });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolveEnvironment } from '../src/lib/environments.js';
+import { SyncManager } from '../src/lib/SyncManager.js';
+
+vi.mock('fs', () => ({
+    readFileSync: vi.fn(),
+}));
+
+describe('resolveEnvironment', () => {
+    const config = {
+        base: {
+            LOG_LEVEL: 'info',
+            DATABASE_URL: 'op://vault/db-dev/url',
+            API_KEY: 'op://vault/api/key',
+        },
+        monitoring: {
+            SENTRY_DSN: 'op://vault/sentry/dsn',
+            LOG_LEVEL: 'debug',
+        },
+        staging: {
+            $extends: 'base',
+            DATABASE_URL: 'op://vault/db-staging/url',
+        },
+        production: {
+            $extends: ['base', 'monitoring'],
+            DATABASE_URL: 'op://vault/db-prod/url',
+        },
+        preview: {
+            $extends: 'staging',
+            PREVIEW: 'true',
+        },
+    };
+
+    it('should return an environment without $extends unchanged', () => {
+        expect(resolveEnvironment(config, 'base')).toEqual(config.base);
+    });
+
+    it('should return null for an unknown environment', () => {
+        expect(resolveEnvironment(config, 'missing')).toBeNull();
+    });
+
+    it('should merge a single parent with the child taking precedence', () => {
+        expect(resolveEnvironment(config, 'staging')).toEqual({
+            LOG_LEVEL: 'info',
+            DATABASE_URL: 'op://vault/db-staging/url',
+            API_KEY: 'op://vault/api/key',
+        });
+    });
+
+    it('should apply a list of parents in order', () => {
+        expect(resolveEnvironment(config, 'production')).toEqual({
+            LOG_LEVEL: 'debug',
+            DATABASE_URL: 'op://vault/db-prod/url',
+            API_KEY: 'op://vault/api/key',
+            SENTRY_DSN: 'op://vault/sentry/dsn',
+        });
+    });
+
+    it('should resolve parents transitively', () => {
+        expect(resolveEnvironment(config, 'preview')).toEqual({
+            LOG_LEVEL: 'info',
+            DATABASE_URL: 'op://vault/db-staging/url',
+            API_KEY: 'op://vault/api/key',
+            PREVIEW: 'true',
+        });
+    });
+
+    it('should keep variables in the order they were first defined', () => {
+        expect(Object.keys(resolveEnvironment(config, 'preview')!)).toEqual(['LOG_LEVEL', 'DATABASE_URL', 'API_KEY', 'PREVIEW']);
+    });
+
+    it('should throw for a missing parent', () => {
+        expect(() => resolveEnvironment({ prod: { $extends: 'base' } }, 'prod'))
+            .toThrow("Environment 'prod' extends 'base', which is not defined in the config file");
+    });
+
+    it('should detect cycles', () => {
+        const cyclic = {
+            a: { $extends: 'b' },
+            b: { $extends: ['c'] },
+            c: { $extends: 'a' },
+        };
+        expect(() => resolveEnvironment(cyclic, 'a')).toThrow('Circular $extends in config file: a -> b -> c -> a');
+        expect(() => resolveEnvironment({ self: { $extends: 'self' } }, 'self')).toThrow('self -> self');
+    });
+
+    it('should reject invalid $extends values', () => {
+        expect(() => resolveEnvironment({ prod: { $extends: 42 } }, 'prod')).toThrow(/Invalid \$extends in environment 'prod'/);
+    });
+
+    it('should merge src and dst of sync environments separately', () => {
+        const syncConfig = {
+            base: {
+                src: { API_KEY: 'op://vault/api/key', DB: 'op://vault/db/url' },
+                dst: { API_KEY: ['awssm://us-east-1/api-key'] },
+            },
+            production: {
+                $extends: 'base',
+                src: { DB: 'op://vault/db-prod/url' },
+                dst: { DB: ['awssm://us-east-1/db'] },
+            },
+        };
+        expect(resolveEnvironment(syncConfig, 'production')).toEqual({
+            src: { API_KEY: 'op://vault/api/key', DB: 'op://vault/db-prod/url' },
+            dst: { API_KEY: ['awssm://us-east-1/api-key'], DB: ['awssm://us-east-1/db'] },
+        });
+    });
+
+    it('should merge a child that overrides only src of a sync parent', () => {
+        const syncConfig = {
+            base: {
+                src: { API_KEY: 'op://vault/api/key', DB: 'op://vault/db/url' },
+                dst: { API_KEY: ['awssm://us-east-1/api-key'] },
+            },
+            production: {
+                $extends: 'base',
+                src: { API_KEY: 'op://vault/api-prod/key' },
+            },
+        };
+        expect(resolveEnvironment(syncConfig, 'production')).toEqual({
+            src: { API_KEY: 'op://vault/api-prod/key', DB: 'op://vault/db/url' },
+            dst: { API_KEY: ['awssm://us-east-1/api-key'] },
+        });
+    });
+
+    it('should not treat a variable named src as a sync map', () => {
+        const plain = {
+            base: { src: { uri: 'op://vault/src/url' } },
+            production: { $extends: 'base', API_KEY: 'op://vault/api/key' },
+        };
+        expect(resolveEnvironment(plain, 'production')).toEqual({
+            src: { uri: 'op://vault/src/url' },
+            API_KEY: 'op://vault/api/key',
+        });
+    });
+
+    it('should merge a plain parent into the src of a sync environment', () => {
+        const mixed = {
+            base: { API_KEY: 'op://vault/api/key' },
+            production: {
+                $extends: 'base',
+                src: {},
+                dst: { API_KEY: ['awssm://us-east-1/api-key'] },
+            },
+        };
+        expect(resolveEnvironment(mixed, 'production')).toEqual({
+            src: { API_KEY: 'op://vault/api/key' },
+            dst: { API_KEY: ['awssm://us-east-1/api-key'] },
+        });
+    });
+});
+
+describe('SyncManager.loadSyncConfig with $extends', () => {
+    it('should return the merged sync config of an inheriting environment', () => {
+        vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+            base: {
+                src: { API_KEY: 'op://vault/api/key' },
+                dst: { API_KEY: ['awssm://us-east-1/api-key'] },
+            },
+            production: {
+                $extends: 'base',
+                src: { DB: 'op://vault/db/url' },
+                dst: { DB: ['awssm://us-east-1/db'] },
+            },
+        }));
+
+        const syncManager = new SyncManager(new Map());
+        expect(syncManager.loadSyncConfig('config.json', 'production')).toEqual({
+            src: { API_KEY: 'op://vault/api/key', DB: 'op://vault/db/url' },
+            dst: { API_KEY: ['awssm://us-east-1/api-key'], DB: ['awssm://us-east-1/db'] },
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { SecretProvider } from '../src/lib/SecretProvider.js';
+import { CliResponse } from '../src/lib/CliHandler.js';
+import {
+    classifyError,
+    SalakalaError,
+    SecretNotFoundError,
+    AuthenticationError,
+    InvalidPathError,
+    JsonKeyNotFoundError,
+    ProviderUnavailableError,
+} from '../src/lib/errors.js';
+
+/**
+ * Minimal provider that throws the given error, used to exercise wrapProviderError.
+ */
+class FailingProvider extends SecretProvider {
+    readonly supportsMultipleFields = false;
+    readonly pathComponents = [];
+
+    constructor(private error: unknown) {
+        super();
+    }
+
+    buildPath(): string {
+        return '';
+    }
+
+    async getSecret(): Promise<string> {
+        this.wrapProviderError(this.error, 'read', 'Test');
+    }
+
+    async setSecret(): Promise<void> {}
+}
+
+describe('classifyError', () => {
+    const patterns = {
+        notFound: /^ResourceNotFoundException:/,
+        authentication: /not signed in/,
+        unavailable: /ECONNREFUSED/,
+    };
+
+    it('should match patterns against the error name and message', () => {
+        const sdkError = Object.assign(new Error("Secrets Manager can't find the specified secret."), { name: 'ResourceNotFoundException' });
+
+        const error = classifyError(sdkError, patterns);
+
+        expect(error).toBeInstanceOf(SecretNotFoundError);
+        expect(error).toMatchObject({ name: 'SecretNotFoundError', message: sdkError.message, cause: sdkError });
+        expect(classifyError(new Error('You are not signed in'), patterns)).toBeInstanceOf(AuthenticationError);
+        expect(classifyError(new Error('connect ECONNREFUSED 127.0.0.1:8200'), patterns)).toBeInstanceOf(ProviderUnavailableError);
+    });
+
+    it('should leave typed and unmatched errors as they are', () => {
+        const typed = new InvalidPathError('Invalid URI');
+        const other = new Error('Something else');
+
+        expect(classifyError(typed, patterns)).toBe(typed);
+        expect(classifyError(other, patterns)).toBe(other);
+        expect(classifyError('not an error', patterns)).toBe('not an error');
+    });
+});
+
+describe('wrapProviderError', () => {
+    it('should wrap errors mentioning keys, JSON or empty values instead of passing them through', async () => {
+        const error = new Error('Key Vault returned an empty JSON response');
+
+        await expect(new FailingProvider(error).getSecret()).rejects.toThrow(
+            new Error('Failed to read Test secret: Key Vault returned an empty JSON response')
+        );
+    });
+
+    it('should keep the class of typed errors and the original error as the cause', async () => {
+        const error = new SecretNotFoundError("Item 'db' not found");
+
+        const wrapped = await new FailingProvider(error).getSecret().catch(e => e);
+
+        expect(wrapped).toBeInstanceOf(SecretNotFoundError);
+        expect(wrapped.message).toBe("Failed to read Test secret: Item 'db' not found");
+        expect(wrapped.cause).toBe(error);
+    });
+
+    it('should re-throw path and JSON key errors unchanged', async () => {
+        for (const error of [new InvalidPathError('Invalid URI: x'), new JsonKeyNotFoundError('Key a not found in JSON object')]) {
+            await expect(new FailingProvider(error).getSecret()).rejects.toBe(error);
+        }
+    });
+});
+
+describe('returnPossibleJsonValue', () => {
+    it('should throw JsonKeyNotFoundError for missing keys and return non-JSON values as they are', () => {
+        const provider = new FailingProvider(null);
+
+        expect(() => provider.returnPossibleJsonValue('{"a":1}', 'b')).toThrow(JsonKeyNotFoundError);
+        expect(provider.returnPossibleJsonValue('plain', 'b')).toBe('plain');
+    });
+});
+
+describe('CliResponse.toError', () => {
+    it('should report commands that could not be started as ProviderUnavailableError', () => {
+        const response = new CliResponse({ stdout: '', stderr: '', code: -2, state: 'catastrophic', message: 'Command not found: op read x' });
+
+        expect(response.toError('Unable to read secret')).toEqual(new ProviderUnavailableError('Command not found: op read x'));
+    });
+
+    it('should type failures by the CLI error output', () => {
+        const response = new CliResponse({ stdout: '', stderr: '', code: 1, state: 'error', message: '[ERROR] "db" isn\'t an item' });
+
+        const error = response.toError('Unable to read secret', { notFound: /isn't an item/ });
+
+        expect(error).toBeInstanceOf(SecretNotFoundError);
+        expect(error).toBeInstanceOf(SalakalaError);
+        expect(error.message).toBe('[ERROR] "db" isn\'t an item');
+    });
+});
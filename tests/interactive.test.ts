@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { assertInteractive, isNonInteractive, setNonInteractive, InteractionRequiredError } from '../src/lib/interactive.js';
+
+describe('non-interactive mode', () => {
+    const originalEnv = process.env;
+    const originalIsTTY = process.stdin.isTTY;
+
+    beforeEach(() => {
+        process.env = { ...originalEnv };
+        delete process.env.CI;
+        process.stdin.isTTY = true;
+        setNonInteractive(false);
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+        process.stdin.isTTY = originalIsTTY;
+        setNonInteractive(false);
+    });
+
+    it('should allow prompts in a terminal', () => {
+        expect(isNonInteractive()).toBe(false);
+        expect(() => assertInteractive('select an environment', 'Pass one with --env.')).not.toThrow();
+    });
+
+    it('should be enabled by --non-interactive', () => {
+        setNonInteractive(true);
+
+        expect(() => assertInteractive('select an environment', 'Pass one with --env.')).toThrow(
+            new InteractionRequiredError('Cannot select an environment in non-interactive mode (--non-interactive is set). Pass one with --env.')
+        );
+    });
+
+    it('should be enabled when CI is set', () => {
+        process.env.CI = 'true';
+        expect(() => assertInteractive('log in to LastPass', 'Log in first.')).toThrow(
+            "Cannot log in to LastPass in non-interactive mode (the CI environment variable is set). Log in first."
+        );
+
+        process.env.CI = 'false';
+        expect(isNonInteractive()).toBe(false);
+    });
+
+    it('should be enabled when stdin is not a terminal', () => {
+        process.stdin.isTTY = false;
+
+        expect(() => assertInteractive('log in to LastPass', 'Log in first.')).toThrow(InteractionRequiredError);
+        expect(() => assertInteractive('log in to LastPass', 'Log in first.')).toThrow('(stdin is not a terminal)');
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { buildEntryUpdate } from '../src/lib/keepassXml.js';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+/**
+ * An export with an entry Web/GitHub, another entry and a deleted object.
+ * 2026-10-19T12:00:00Z is QP1n4g4AAAA= in KDBX 4 time.
+ */
+const EXPORT = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<KeePassFile>
+\t<Meta><Generator>KeePassXC</Generator></Meta>
+\t<Root>
+\t\t<Group>
+\t\t\t<UUID>cm9vdA==</UUID>
+\t\t\t<Name>Root</Name>
+\t\t\t<Entry><UUID>b3RoZXI=</UUID><String><Key>Title</Key><Value>other</Value></String></Entry>
+\t\t\t<Group>
+\t\t\t\t<UUID>d2Vi</UUID>
+\t\t\t\t<Name>Web</Name>
+\t\t\t\t<Entry>
+\t\t\t\t\t<UUID>Z2l0aHVi</UUID>
+\t\t\t\t\t<Times><LastModificationTime>QP1n4g4AAAA=</LastModificationTime></Times>
+\t\t\t\t\t<String><Key>Title</Key><Value>Git&amp;Hub</Value></String>
+\t\t\t\t\t<String><Key>UserName</Key><Value>me</Value></String>
+\t\t\t\t\t<String><Key>Password</Key><Value ProtectInMemory="True">old</Value></String>
+\t\t\t\t\t<History><Entry><UUID>Z2l0aHVi</UUID></Entry></History>
+\t\t\t\t</Entry>
+\t\t\t</Group>
+\t\t\t<Group><UUID>YXBw</UUID><Name>app</Name></Group>
+\t\t</Group>
+\t\t<DeletedObjects><DeletedObject><UUID>Z29uZQ==</UUID></DeletedObject></DeletedObjects>
+\t</Root>
+</KeePassFile>`;
+
+describe('buildEntryUpdate', () => {
+    it('should keep only the entry and the groups on its path, with their UUIDs', () => {
+        const { xml } = buildEntryUpdate(EXPORT, 'Web/Git&Hub', 'Notes', 'line 1\nline 2 <&>', NOW);
+
+        expect(xml).toContain('<UUID>cm9vdA==</UUID>');
+        expect(xml).toContain('<UUID>d2Vi</UUID>');
+        expect(xml).toContain('<String><Key>UserName</Key><Value>me</Value></String>');
+        expect(xml).toContain('<History><Entry><UUID>Z2l0aHVi</UUID></Entry></History>');
+        expect(xml).toContain('<String><Key>Notes</Key><Value>line 1\nline 2 &lt;&amp;&gt;</Value></String>');
+        expect(xml).toContain('<Meta><Generator>KeePassXC</Generator></Meta>');
+        expect(xml).not.toContain('other');
+        expect(xml).not.toContain('YXBw');
+        expect(xml).not.toContain('DeletedObjects');
+    });
+
+    it('should move the modification time past the current one', () => {
+        expect(buildEntryUpdate(EXPORT, 'Web/Git&Hub', 'Password', 'new', NOW).xml)
+            .toContain('<LastModificationTime>2026-10-19T12:00:01Z</LastModificationTime>');
+        expect(buildEntryUpdate(EXPORT, 'Web/Git&Hub', 'Password', 'new', NOW + 60000).xml)
+            .toContain('<LastModificationTime>2026-10-19T12:01:00Z</LastModificationTime>');
+    });
+
+    it('should keep how existing values are protected and protect new custom attributes', () => {
+        const { xml } = buildEntryUpdate(EXPORT, 'Web/Git&Hub', 'Password', 'new\r\n', NOW);
+        expect(xml).toContain('<Key>Password</Key><Value ProtectInMemory="True">new&#13;\n</Value>');
+
+        expect(buildEntryUpdate(EXPORT, 'Web/Git&Hub', 'API_KEY', 'key', NOW).xml)
+            .toContain('<String><Key>API_KEY</Key><Value ProtectInMemory="True">key</Value></String>');
+    });
+
+    it('should create missing groups and entries', () => {
+        const { xml, hasValues } = buildEntryUpdate(EXPORT, 'app/services/api', 'API_KEY', 'key', NOW);
+
+        expect(xml).toContain('<UUID>YXBw</UUID><Name>app</Name><Group><UUID>');
+        expect(xml).toContain('<Name>services</Name><Times><CreationTime>2026-10-19T12:00:00Z</CreationTime>');
+        expect(xml).toContain('<String><Key>Title</Key><Value>api</Value></String><String><Key>API_KEY</Key>');
+        expect(hasValues).toBe(true);
+    });
+
+    it('should remove custom attributes, clear standard ones and tell whether values are left', () => {
+        const removed = buildEntryUpdate(EXPORT, 'Web/Git&Hub', 'UserName', null, NOW);
+        expect(removed.xml).toContain('<String><Key>UserName</Key><Value/></String>');
+        expect(removed.hasValues).toBe(true);
+
+        const withoutPassword = buildEntryUpdate(removed.xml, 'Web/Git&Hub', 'Password', null, NOW);
+        expect(withoutPassword.hasValues).toBe(false);
+
+        expect(() => buildEntryUpdate(EXPORT, 'Web/Git&Hub', 'API_KEY', null, NOW)).toThrow("has no attribute 'API_KEY'");
+        expect(() => buildEntryUpdate(EXPORT, 'Web/Missing', 'Password', null, NOW)).toThrow("Entry 'Web/Missing' not found");
+    });
+
+    it('should reject documents that are not KeePass exports', () => {
+        expect(() => buildEntryUpdate('<html></html>', 'entry', 'Password', 'x', NOW)).toThrow('no root group');
+        expect(() => buildEntryUpdate('<KeePassFile><Root>', 'entry', 'Password', 'x', NOW)).toThrow('is not closed');
+    });
+});
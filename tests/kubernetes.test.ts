@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { buildSecretManifest, convertToExternalSecrets } from '../src/lib/kubernetes.js';
+import { getOutputFormat } from '../src/lib/outputFormats.js';
+
+describe('buildSecretManifest', () => {
+    it('should build a base64-encoded v1 Secret', () => {
+        const manifest = buildSecretManifest(
+            { API_KEY: 'secret', MULTILINE: 'a\nb' },
+            { name: 'app-secrets', namespace: 'prod' }
+        );
+        expect(manifest).toBe([
+            'apiVersion: v1',
+            'kind: Secret',
+            'metadata:',
+            '  name: app-secrets',
+            '  namespace: prod',
+            'type: Opaque',
+            'data:',
+            `  API_KEY: ${Buffer.from('secret').toString('base64')}`,
+            `  MULTILINE: ${Buffer.from('a\nb').toString('base64')}`,
+            '',
+        ].join('\n'));
+    });
+
+    it('should leave out the namespace when not given', () => {
+        const manifest = buildSecretManifest({ A: 'x' }, { name: 'app' });
+        expect(manifest).not.toContain('namespace');
+    });
+
+    it('should require a valid name', () => {
+        expect(() => buildSecretManifest({ A: 'x' }, {})).toThrow(/--name/);
+        expect(() => buildSecretManifest({ A: 'x' }, { name: 'App_Secrets' })).toThrow(/Invalid resource name/);
+    });
+
+    it('should reject keys that are not valid Secret keys', () => {
+        expect(() => buildSecretManifest({ 'MY KEY': 'x' }, { name: 'app' })).toThrow(/not a valid Kubernetes Secret key/);
+    });
+
+    it('should be available as the k8s-secret output format', () => {
+        const output = getOutputFormat('k8s-secret').serialize({ A: 'x' }, { name: 'app' });
+        expect(output).toContain('kind: Secret');
+        expect(output).toContain('name: app');
+    });
+});
+
+describe('convertToExternalSecrets', () => {
+    it('should map awssm, gcsm and azurekv URIs to remoteRefs with one store each', () => {
+        const { manifest, skipped } = convertToExternalSecrets({
+            DB_HOST: 'awssm://us-east-1/prod/db::host',
+            API_KEY: 'gcsm://projects/my-project/secrets/api-key/versions/3',
+            TOKEN: 'azurekv://my-vault.vault.azure.net/token',
+        }, { name: 'app-secrets', namespace: 'prod' });
+
+        expect(skipped).toEqual([]);
+        const documents = manifest.split('\n---\n');
+        expect(documents).toHaveLength(4);
+
+        expect(documents[0]).toContain('kind: SecretStore');
+        expect(documents[0]).toContain('name: aws-us-east-1');
+        expect(documents[0]).toContain('service: SecretsManager');
+        expect(documents[0]).toContain('region: us-east-1');
+        expect(documents[1]).toContain('name: gcp-my-project');
+        expect(documents[1]).toContain('projectID: my-project');
+        expect(documents[2]).toContain('name: azure-my-vault');
+        expect(documents[2]).toContain('vaultUrl: "https://my-vault.vault.azure.net"');
+
+        expect(documents[3]).toBe([
+            'apiVersion: external-secrets.io/v1',
+            'kind: ExternalSecret',
+            'metadata:',
+            '  name: app-secrets',
+            '  namespace: prod',
+            'spec:',
+            '  refreshInterval: "1h"',
+            '  secretStoreRef:',
+            '    name: aws-us-east-1',
+            '    kind: SecretStore',
+            '  target:',
+            '    name: app-secrets',
+            '    creationPolicy: Owner',
+            '  data:',
+            '    - secretKey: DB_HOST',
+            '      remoteRef:',
+            '        key: prod/db',
+            '        property: host',
+            '    - secretKey: API_KEY',
+            '      sourceRef:',
+            '        storeRef:',
+            '          name: gcp-my-project',
+            '          kind: SecretStore',
+            '      remoteRef:',
+            '        key: api-key',
+            '        version: "3"',
+            '    - secretKey: TOKEN',
+            '      sourceRef:',
+            '        storeRef:',
+            '          name: azure-my-vault',
+            '          kind: SecretStore',
+            '      remoteRef:',
+            '        key: token',
+            '',
+        ].join('\n'));
+    });
+
+    it('should share a store between secrets from the same region', () => {
+        const { manifest } = convertToExternalSecrets({
+            A: 'awssm://eu-west-1/a',
+            B: 'awssm://eu-west-1/b',
+        }, { name: 'app' });
+        expect(manifest.match(/^kind: SecretStore$/gm)).toHaveLength(1);
+        expect(manifest).not.toContain('sourceRef');
+    });
+
+    it('should omit the version for latest and convert array JSON keys to property paths', () => {
+        const { manifest } = convertToExternalSecrets({
+            HOST: 'gcsm://projects/p/secrets/config/versions/latest::servers[0].host',
+        }, { name: 'app' });
+        expect(manifest).not.toContain('version:');
+        expect(manifest).toContain('property: servers.0.host');
+    });
+
+    it('should skip entries without an external-secrets mapping', () => {
+        const { manifest, skipped } = convertToExternalSecrets({
+            A: 'awssm://us-east-1/a',
+            B: 'op://vault/item/field',
+            C: 'plain value',
+            D: { default: 'info' },
+            E: { uri: 'awssm://us-east-1/e', optional: true },
+        }, { name: 'app' });
+        expect(skipped.map(s => s.envVar)).toEqual(['B', 'C', 'D']);
+        expect(manifest).toContain('secretKey: E');
+        expect(manifest).not.toContain('secretKey: B');
+        expect(manifest).not.toContain('secretKey: C');
+    });
+
+    it('should throw when nothing can be converted', () => {
+        expect(() => convertToExternalSecrets({ A: 'op://vault/item/field' }, { name: 'app' }))
+            .toThrow(/No variables could be converted/);
+    });
+});
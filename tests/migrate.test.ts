@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolveTargetComponents, planMigration, rewriteConfig, backupConfig } from '../src/lib/migrate.js';
+import { BitwardenProvider } from '../src/lib/providers/Bitwarden.js';
+import { OnePasswordProvider } from '../src/lib/providers/1Password.js';
+import { AWSSecretsManagerProvider } from '../src/lib/providers/AWSSecretsManager.js';
+import { GoogleCloudSecretsProvider } from '../src/lib/providers/GoogleCloudSecrets.js';
+import { KeePassProvider } from '../src/lib/providers/KeePass.js';
+import { AzureKeyVaultProvider } from '../src/lib/providers/AzureKeyVault.js';
+
+describe('resolveTargetComponents', () => {
+    it('should read the item of providers with multiple fields, with and without optional components', () => {
+        expect(resolveTargetComponents(new BitwardenProvider(), 'bw://folder/item')).toEqual({ folder: 'folder', item: 'item' });
+        expect(resolveTargetComponents(new BitwardenProvider(), 'bw://item')).toEqual({ item: 'item' });
+        expect(resolveTargetComponents(new OnePasswordProvider(), 'op://Vault/Item/')).toEqual({ vault: 'Vault', item: 'Item' });
+        expect(resolveTargetComponents(new KeePassProvider(), 'kp:///home/me/db.kdbx/app'))
+            .toEqual({ dbPath: '/home/me/db.kdbx', entry: 'app' });
+    });
+
+    it('should read the location of the secrets of providers with one value per secret', () => {
+        expect(resolveTargetComponents(new AWSSecretsManagerProvider(), 'awssm://us-east-1')).toEqual({ region: 'us-east-1' });
+        expect(resolveTargetComponents(new GoogleCloudSecretsProvider(), 'gcsm://projects/my-project')).toEqual({ project: 'my-project' });
+        expect(resolveTargetComponents(new GoogleCloudSecretsProvider(), 'gcsm://projects/my-project/secrets')).toEqual({ project: 'my-project' });
+    });
+
+    it('should describe the expected target when it does not fit', () => {
+        expect(() => resolveTargetComponents(new GoogleCloudSecretsProvider(), 'gcsm://my-project'))
+            .toThrow("Cannot migrate to 'gcsm://my-project': expected a target like gcsm://projects/<project>");
+    });
+});
+
+describe('planMigration', () => {
+    const isSecretUri = (uri: string) => uri.startsWith('lp://');
+
+    it('should name secrets after the variables and bundle values read with ::jsonKey', () => {
+        const plan = planMigration({
+            TOKEN: { uri: 'lp://Work/API' },
+            DB_HOST: { uri: 'lp://Work/DB/notes::host' },
+            DB_PORT: { uri: 'lp://Work/DB/notes::port', optional: true },
+            PLAIN: { uri: 'hello' },
+            DEFAULTED: { default: 'value' },
+            URL: { uri: 'https://{{ lp://Work/Host }}/api' },
+        }, new BitwardenProvider(), { folder: 'app', item: 'production' }, isSecretUri, 'config');
+
+        expect(plan.steps).toEqual([
+            { envVar: 'TOKEN', source: 'lp://Work/API', target: 'bw://app/production/TOKEN', bundled: false, optional: false },
+            { envVar: 'DB_HOST', source: 'lp://Work/DB/notes::host', target: 'bw://app/production/config::DB_HOST', bundled: true, optional: false },
+            { envVar: 'DB_PORT', source: 'lp://Work/DB/notes::port', target: 'bw://app/production/config::DB_PORT', bundled: true, optional: true },
+        ]);
+        expect(plan.bundleUri).toBe('bw://app/production/config');
+        expect(plan.skipped).toEqual([{ envVar: 'URL', reason: 'secrets referenced in templates are not migrated' }]);
+    });
+
+    it('should create a secret per variable for providers with one value per secret', () => {
+        const plan = planMigration({ TOKEN: { uri: 'lp://Work/API' } }, new AWSSecretsManagerProvider(), { region: 'eu-west-1' }, isSecretUri, 'config');
+
+        expect(plan.steps[0].target).toBe('awssm://eu-west-1/TOKEN');
+    });
+
+    it('should make each variable an attribute of the KeePass entry', () => {
+        const plan = planMigration({
+            API_KEY: { uri: 'lp://Work/API' },
+            URL: { uri: 'lp://Work/Site/url' },
+        }, new KeePassProvider(), { dbPath: '/home/me/db.kdbx', entry: 'app' }, isSecretUri, 'config');
+
+        expect(plan.steps.map(step => step.target)).toEqual([
+            'kp:///home/me/db.kdbx/app/API_KEY',
+            'kp:///home/me/db.kdbx/app/URL',
+        ]);
+    });
+
+    it('should refuse names the target provider does not allow before reading anything', () => {
+        const provider = new AzureKeyVaultProvider();
+        const components = { vaultHost: 'my-vault.vault.azure.net' };
+
+        expect(planMigration({ 'API-KEY': { uri: 'lp://Work/API' } }, provider, components, isSecretUri, 'config').steps[0].target)
+            .toBe('azurekv://my-vault.vault.azure.net/API-KEY');
+        expect(() => planMigration({ DB_PASSWORD: { uri: 'lp://Work/DB' } }, provider, components, isSecretUri, 'config'))
+            .toThrow("Invalid Azure Key Vault secret name 'DB_PASSWORD'");
+    });
+
+    it('should refuse to write two values to the same URI', () => {
+        expect(() => planMigration({
+            config: { uri: 'lp://Work/API' },
+            DB_HOST: { uri: 'lp://Work/DB/notes::host' },
+        }, new BitwardenProvider(), { item: 'production' }, isSecretUri, 'config'))
+            .toThrow('More than one value would be written to bw://production/config');
+    });
+});
+
+describe('rewriteConfig', () => {
+    it('should update the environment, add inherited variables and keep entry settings', () => {
+        const content = JSON.stringify({
+            $plugins: ['./plugin.js'],
+            base: { SHARED: 'lp://Work/Shared' },
+            production: {
+                $extends: 'base',
+                TOKEN: 'lp://Work/API',
+                DB_PORT: { uri: 'lp://Work/DB/notes::port', description: 'Database port' },
+            },
+        });
+
+        const result = JSON.parse(rewriteConfig(content, 'production', {
+            TOKEN: { uri: 'bw://production/TOKEN' },
+            DB_PORT: { uri: 'bw://production/config::DB_PORT', description: 'Database port' },
+            SHARED: { uri: 'bw://production/SHARED' },
+        }));
+
+        expect(result.base).toEqual({ SHARED: 'lp://Work/Shared' });
+        expect(result.production).toEqual({
+            $extends: 'base',
+            TOKEN: 'bw://production/TOKEN',
+            DB_PORT: { uri: 'bw://production/config::DB_PORT', description: 'Database port' },
+            SHARED: 'bw://production/SHARED',
+        });
+    });
+
+    it('should update flat configs and the src of sync configs', () => {
+        expect(JSON.parse(rewriteConfig('{"TOKEN":"lp://Work/API"}', 'development', { TOKEN: { uri: 'bw://TOKEN' } })))
+            .toEqual({ TOKEN: 'bw://TOKEN' });
+        expect(JSON.parse(rewriteConfig('{"production":{"src":{"TOKEN":"lp://Work/API"},"dst":{}}}', 'production', { TOKEN: { uri: 'bw://TOKEN' } })))
+            .toEqual({ production: { src: { TOKEN: 'bw://TOKEN' }, dst: {} } });
+    });
+});
+
+describe('backupConfig', () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+        if (dir) {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should not overwrite earlier backups', () => {
+        dir = mkdtempSync(join(tmpdir(), 'salakala-migrate-'));
+        const configPath = join(dir, 'salakala.json');
+        writeFileSync(configPath, 'first');
+        expect(backupConfig(configPath)).toBe(`${configPath}.bak`);
+
+        writeFileSync(configPath, 'second');
+        expect(backupConfig(configPath)).toBe(`${configPath}.bak.2`);
+        expect(readFileSync(`${configPath}.bak`, 'utf-8')).toBe('first');
+        expect(readFileSync(`${configPath}.bak.2`, 'utf-8')).toBe('second');
+    });
+});
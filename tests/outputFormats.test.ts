@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'child_process';
+import { getOutputFormat, getOutputFormatNames, registerOutputFormat } from '../src/lib/outputFormats.js';
+
+const tricky = {
+    SIMPLE: 'value',
+    QUOTES: `it's "quoted"`,
+    MULTILINE: 'line1\nline2',
+    SPECIAL: '$HOME `whoami` \\ $(id) !',
+};
+
+describe('output formats', () => {
+    it('should list the built-in formats', () => {
+        expect(getOutputFormatNames()).toEqual(
+            expect.arrayContaining(['dotenv', 'json', 'yaml', 'shell', 'fish', 'powershell', 'docker'])
+        );
+    });
+
+    it('should throw for an unknown format', () => {
+        expect(() => getOutputFormat('toml')).toThrow(/Unknown output format 'toml'/);
+    });
+
+    it('should allow registering additional formats', () => {
+        registerOutputFormat({
+            name: 'keys',
+            description: 'variable names only',
+            serialize: (values) => Object.keys(values).join(',') + '\n',
+        });
+        expect(getOutputFormat('keys').serialize({ A: '1', B: '2' })).toBe('A,B\n');
+    });
+
+    it('should serialize dotenv the same way as the .env writer', () => {
+        const output = getOutputFormat('dotenv').serialize({ A: 'plain', B: 'with space' });
+        expect(output).toBe('A=plain\nB="with space"\n');
+    });
+
+    it('should serialize json that parses back to the same values', () => {
+        const output = getOutputFormat('json').serialize(tricky);
+        expect(JSON.parse(output)).toEqual(tricky);
+    });
+
+    it('should serialize yaml as double-quoted scalars', () => {
+        const output = getOutputFormat('yaml').serialize({ A: 'line1\nline2', 'my-key': 'x' });
+        expect(output).toBe('A: "line1\\nline2"\n"my-key": "x"\n');
+    });
+
+    it('should produce shell exports that evaluate to the original values', () => {
+        const script = getOutputFormat('shell').serialize(tricky) +
+            'node -e \'console.log(JSON.stringify({SIMPLE: process.env.SIMPLE, QUOTES: process.env.QUOTES, MULTILINE: process.env.MULTILINE, SPECIAL: process.env.SPECIAL}))\'';
+        const result = execFileSync('sh', ['-c', script], { encoding: 'utf-8' });
+        expect(JSON.parse(result)).toEqual(tricky);
+    });
+
+    it('should reject names that are not valid shell identifiers', () => {
+        expect(() => getOutputFormat('shell').serialize({ 'MY-VAR': 'x' })).toThrow(/not a valid identifier/);
+        expect(() => getOutputFormat('fish').serialize({ '1VAR': 'x' })).toThrow(/not a valid identifier/);
+        expect(() => getOutputFormat('powershell').serialize({ 'A B': 'x' })).toThrow(/not a valid identifier/);
+    });
+
+    it('should escape backslashes and quotes for fish', () => {
+        const output = getOutputFormat('fish').serialize({ A: `it's a \\ test` });
+        expect(output).toBe(`set -gx A 'it\\'s a \\\\ test'\n`);
+    });
+
+    it('should double single quotes for powershell', () => {
+        const output = getOutputFormat('powershell').serialize({ A: `it's $env:HOME` });
+        expect(output).toBe(`$env:A = 'it''s $env:HOME'\n`);
+    });
+
+    it('should write docker env-file values verbatim', () => {
+        const output = getOutputFormat('docker').serialize({ A: `"quoted" $value` });
+        expect(output).toBe('A="quoted" $value\n');
+    });
+
+    it('should reject multiline values for docker', () => {
+        expect(() => getOutputFormat('docker').serialize({ A: 'line1\nline2' })).toThrow(/contains a newline/);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadProviderPlugins, loadConfigPlugins } from '../src/lib/plugins.js';
+import { SecretsManager } from '../src/lib/SecretsManager.js';
+
+/**
+ * A plugin module with a provider class. Plugins extend SecretProvider, but the
+ * fixture only needs the members salakala uses.
+ */
+const pluginSource = (scheme: string, displayName: string) => `
+    export default class TestProvider {
+        static scheme = ${JSON.stringify(scheme)};
+        static displayName = ${JSON.stringify(displayName)};
+        async getSecret(path) {
+            return 'value of ' + path;
+        }
+        async prepare() {}
+    }
+`;
+
+describe('provider plugins', () => {
+    let dir: string;
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    /**
+     * Writes files to a temporary directory.
+     */
+    function writeFiles(files: Record<string, string>): void {
+        dir = mkdtempSync(join(tmpdir(), 'salakala-plugins-'));
+        for (const [name, content] of Object.entries(files)) {
+            writeFileSync(join(dir, name), content);
+        }
+    }
+
+    it('should load provider classes from local files', async () => {
+        writeFiles({ 'myvault.mjs': pluginSource('myvault://', 'My Vault') });
+
+        const [plugin] = await loadProviderPlugins(['./myvault.mjs'], dir);
+
+        expect(plugin.scheme).toBe('myvault://');
+        expect(plugin.displayName).toBe('My Vault');
+        await expect(plugin.create().getSecret('myvault://a/b')).resolves.toBe('value of myvault://a/b');
+    });
+
+    it('should load the plugins of a config relative to the config file', async () => {
+        writeFiles({
+            'myvault.mjs': pluginSource('myvault://', 'My Vault'),
+            'salakala.json': JSON.stringify({ $plugins: ['./myvault.mjs'], A: 'myvault://a/b' }),
+        });
+
+        const manager = new SecretsManager({ plugins: await loadConfigPlugins(join(dir, 'salakala.json')) });
+
+        expect(manager.getProviderName('myvault://')).toBe('My Vault');
+        expect(manager.getProviderName('op://')).toBe('1Password');
+        await expect(manager.loadSecrets(join(dir, 'salakala.json'))).resolves.toEqual({ A: 'value of myvault://a/b' });
+    });
+
+    it('should reject providers without a valid scheme', async () => {
+        writeFiles({ 'bad.mjs': pluginSource('myvault', 'My Vault') });
+
+        await expect(loadProviderPlugins(['./bad.mjs'], dir))
+            .rejects.toThrow(`Provider plugin './bad.mjs' must set a static scheme like 'myvault://', got "myvault"`);
+    });
+
+    it('should report modules that cannot be found', async () => {
+        writeFiles({});
+
+        await expect(loadProviderPlugins(['salakala-missing-plugin'], dir))
+            .rejects.toThrow(`Cannot find provider plugin 'salakala-missing-plugin' from ${dir}`);
+    });
+
+    it('should not let plugins take over the prefix of another provider', async () => {
+        writeFiles({ 'op.mjs': pluginSource('op://', 'Other Password') });
+
+        const plugins = await loadProviderPlugins(['./op.mjs'], dir);
+
+        expect(() => new SecretsManager({ plugins }))
+            .toThrow('Provider plugin Other Password uses the prefix op://, which 1Password already uses');
+    });
+});
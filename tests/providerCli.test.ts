@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BitwardenProvider } from '../src/lib/providers/Bitwarden.js';
+import { OnePasswordProvider } from '../src/lib/providers/1Password.js';
+import { KeePassProvider } from '../src/lib/providers/KeePass.js';
+import { fakeCli as cli, countSpawned, findSpawned } from './test-utils.js';
+
+vi.mock('child_process', async () => (await import('./test-utils.js')).fakeChildProcess());
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+describe('providers with a fake CLI', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+        cli.spawned = [];
+        process.env = { ...originalEnv };
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+    });
+
+    describe('Bitwarden', () => {
+        beforeEach(() => {
+            process.env.BW_CLIENTID = 'client-id';
+            process.env.BW_CLIENTSECRET = 'client-secret';
+            process.env.BW_PASSWORD = 'master-password';
+        });
+
+        /**
+         * Answers bw commands with a vault that holds the given items.
+         */
+        function fakeVault(items: object[]) {
+            cli.respond = (command) => {
+                if (command.startsWith('bw login')) {
+                    return { stdout: 'You are logged in!' };
+                }
+                if (command.startsWith('bw unlock')) {
+                    return { stdout: 'session-key' };
+                }
+                if (command.startsWith('bw list folders')) {
+                    return { stdout: '[]' };
+                }
+                if (command.startsWith('bw list items')) {
+                    return { stdout: JSON.stringify(items) };
+                }
+                if (command.startsWith('bw get item')) {
+                    return { stdout: JSON.stringify(items[0]) };
+                }
+                return {};
+            };
+        }
+
+        it('should list the items once and again only after a write', async () => {
+            fakeVault([{ id: 'item-id', name: 'item', type: 1, login: { username: 'user', password: 'secret' } }]);
+            const provider = new BitwardenProvider();
+
+            await provider.getSecret('bw://item/password');
+            await provider.getSecret('bw://item/username');
+            expect(countSpawned('bw list items')).toBe(1);
+
+            await provider.setSecret('bw://item/password', 'new');
+            await provider.getSecret('bw://item/password');
+            expect(countSpawned('bw list items')).toBe(2);
+        });
+
+        it('should keep an empty item list', async () => {
+            fakeVault([]);
+            const provider = new BitwardenProvider();
+
+            await expect(provider.getSecret('bw://item/password')).rejects.toThrow('No item found');
+            await expect(provider.getSecret('bw://other/password')).rejects.toThrow('No item found');
+            expect(countSpawned('bw list items')).toBe(1);
+            expect(countSpawned('bw unlock')).toBe(1);
+        });
+
+        it('should delete a field, and the item with its last field', async () => {
+            fakeVault([{ id: 'item-id', name: 'item', type: 1, login: { username: 'user', password: 'secret' }, fields: [] }]);
+            const provider = new BitwardenProvider();
+
+            await provider.deleteField('bw://item/password');
+            const edit = findSpawned('bw edit item item-id')!;
+            expect(JSON.parse(Buffer.from(edit.input, 'base64').toString()).login).toEqual({ username: 'user', password: null });
+            expect(countSpawned('bw delete')).toBe(0);
+
+            fakeVault([{ id: 'item-id', name: 'item', type: 1, login: { password: 'secret' }, fields: [] }]);
+            await provider.deleteField('bw://item/password');
+            expect(countSpawned('bw delete item item-id')).toBe(1);
+        });
+    });
+
+    describe('1Password', () => {
+        beforeEach(() => {
+            process.env.OP_SERVICE_ACCOUNT_TOKEN = 'service-account-token';
+        });
+
+        /**
+         * Answers op commands with a vault that holds one item with the given fields.
+         */
+        function fakeItem(fields: object[]) {
+            cli.respond = (command) => {
+                if (command.startsWith('op item get')) {
+                    return { stdout: JSON.stringify({ id: 'item-id', title: 'GitHub', fields }) };
+                }
+                return {};
+            };
+        }
+
+        it('should delete a field, and the item with its last field', async () => {
+            fakeItem([
+                { id: 'username', type: 'STRING', purpose: 'USERNAME', label: 'username', value: 'user' },
+                { id: 'password', type: 'CONCEALED', purpose: 'PASSWORD', label: 'password', value: 'secret' },
+                { id: 'token', type: 'CONCEALED', label: 'token', value: 'abc' },
+            ]);
+            const provider = new OnePasswordProvider();
+
+            await provider.deleteField('op://Work/GitHub/token');
+            await provider.deleteField('op://Work/GitHub/password');
+            const edits = cli.spawned.filter(({ argv }) => argv.join(' ').startsWith('op item edit item-id --vault=Work'));
+            expect(JSON.parse(edits[0].input).fields.map((f: { label: string }) => f.label)).toEqual(['username', 'password']);
+            expect(JSON.parse(edits[1].input).fields[1]).toMatchObject({ purpose: 'PASSWORD', value: '' });
+            expect(countSpawned('op item delete')).toBe(0);
+
+            fakeItem([{ id: 'password', type: 'CONCEALED', purpose: 'PASSWORD', label: 'password', value: 'secret' }]);
+            await provider.deleteField('op://Work/GitHub/password');
+            expect(countSpawned('op item delete GitHub --vault=Work')).toBe(1);
+            await expect(provider.deleteField('op://Work/GitHub/missing')).rejects.toThrow("No field 'missing'");
+        });
+    });
+
+    describe('KeePass', () => {
+        beforeEach(() => {
+            process.env.KEEPASS_PASSWORD = 'database-password';
+        });
+
+        /**
+         * Answers keepassxc-cli show with an entry that has the given user name.
+         */
+        function fakeEntry(userName: string) {
+            cli.respond = (command) => command.startsWith('keepassxc-cli show')
+                ? { stdout: `Title: API_KEY\nUserName: ${userName}\nPassword: PROTECTED\nURL: \nNotes: \n` }
+                : {};
+        }
+
+        it('should delete an entry that only has a password', async () => {
+            fakeEntry('');
+            await new KeePassProvider().deleteField('kp:///tmp/db.kdbx/app/API_KEY/Password');
+            expect(countSpawned('keepassxc-cli rm /tmp/db.kdbx app/API_KEY')).toBe(1);
+            expect(countSpawned('keepassxc-cli edit')).toBe(0);
+        });
+
+        it('should only clear the password of an entry with other values', async () => {
+            fakeEntry('user');
+            await new KeePassProvider().deleteField('kp:///tmp/db.kdbx/GitHub/Password');
+            const edit = findSpawned('keepassxc-cli edit')!;
+            expect(edit).toEqual({
+                argv: ['keepassxc-cli', 'edit', '--password-prompt', '/tmp/db.kdbx', 'GitHub'],
+                input: 'database-password\n\n',
+            });
+            expect(countSpawned('keepassxc-cli rm')).toBe(0);
+        });
+
+        it('should remove other attributes through a merge, and the entry once it has no values', async () => {
+            const entry = (token: string) => '<KeePassFile><Root><Group><UUID>cm9vdA==</UUID><Name>Root</Name>' +
+                '<Entry><UUID>ZW50cnk=</UUID><String><Key>Title</Key><Value>app</Value></String>' +
+                `<String><Key>Password</Key><Value ProtectInMemory="True">${token}</Value></String>` +
+                '<String><Key>API_KEY</Key><Value ProtectInMemory="True">key</Value></String></Entry></Group></Root></KeePassFile>';
+            let exported = entry('token');
+            cli.respond = (command) => command.startsWith('keepassxc-cli export') ? { stdout: exported } : {};
+
+            await new KeePassProvider().deleteField('kp:///tmp/db.kdbx/app/API_KEY');
+            expect(countSpawned('keepassxc-cli merge --same-credentials /tmp/db.kdbx')).toBe(1);
+            expect(countSpawned('keepassxc-cli rm')).toBe(0);
+
+            exported = entry('');
+            await new KeePassProvider().deleteField('kp:///tmp/db.kdbx/app/API_KEY');
+            expect(countSpawned('keepassxc-cli rm /tmp/db.kdbx app')).toBe(1);
+            await expect(new KeePassProvider().deleteField('kp:///tmp/db.kdbx/app/MISSING')).rejects.toThrow("has no attribute 'MISSING'");
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MessageChannel, receiveMessageOnPort } from 'worker_threads';
+import { initialize } from '../src/lib/registerHooks.js';
+
+describe('register hooks', () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+        if (dir) {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    /**
+     * Writes a config to a temporary directory and returns its path.
+     */
+    function writeConfig(config: object): string {
+        dir = mkdtempSync(join(tmpdir(), 'salakala-register-'));
+        const configPath = join(dir, 'salakala.json');
+        writeFileSync(configPath, JSON.stringify(config));
+        return configPath;
+    }
+
+    it('should post the values of the environment', async () => {
+        const config = writeConfig({
+            development: { HOST: 'localhost' },
+            production: { HOST: 'example.com', URL: 'https://{{ HOST }}' },
+        });
+        const { port1, port2 } = new MessageChannel();
+
+        await initialize({ port: port2, config, environment: 'production' });
+
+        expect(receiveMessageOnPort(port1)?.message).toEqual({ values: { HOST: 'example.com', URL: 'https://example.com' } });
+        port1.close();
+    });
+
+    it('should post the error when resolving fails', async () => {
+        const config = writeConfig({ development: { HOST: 'localhost' } });
+        const { port1, port2 } = new MessageChannel();
+
+        await initialize({ port: port2, config, environment: 'production' });
+
+        expect(receiveMessageOnPort(port1)?.message).toEqual({ error: expect.stringContaining("Environment 'production' not found") });
+        port1.close();
+    });
+});
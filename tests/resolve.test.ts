@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolve, SecretProvider, Logger, InteractionRequiredError } from '../src/index.js';
+import { assertInteractive } from '../src/lib/interactive.js';
+
+/**
+ * Provider that answers from a map, or with a custom function.
+ */
+class MapProvider extends SecretProvider {
+    readonly supportsMultipleFields = false;
+    readonly pathComponents = [];
+
+    constructor(private values: Record<string, string> = {}) {
+        super();
+    }
+
+    buildPath(): string {
+        return '';
+    }
+
+    async getSecret(path: string): Promise<string> {
+        if (!(path in this.values)) {
+            throw new Error(`No value for ${path}`);
+        }
+        return this.values[path];
+    }
+
+    async setSecret(): Promise<void> {}
+
+    /** Exposes withTimeout so tests can make requests that wait for the signal */
+    request<T>(fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        return this.withTimeout('Test request', fn);
+    }
+}
+
+describe('resolve', () => {
+    let dir: string;
+    let configPath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'salakala-resolve-'));
+        configPath = join(dir, 'salakala.json');
+        writeFileSync(configPath, JSON.stringify({
+            production: {
+                API_KEY: 'test://api-key',
+                URL: 'https://{{ test://host }}/api',
+                DEBUG: { uri: 'test://missing', optional: true, default: 'false' },
+            },
+        }));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    it('should resolve values with custom providers without console output', async () => {
+        const log = vi.spyOn(console, 'log');
+        const info = vi.spyOn(console, 'info');
+        const error = vi.spyOn(console, 'error');
+
+        const result = await resolve({
+            config: configPath,
+            environment: 'production',
+            providers: { 'test://': new MapProvider({ 'test://api-key': 'key', 'test://host': 'example.com' }) },
+        });
+
+        expect(result).toEqual({
+            environment: 'production',
+            values: { API_KEY: 'key', URL: 'https://example.com/api', DEBUG: 'false' },
+        });
+        expect(log).not.toHaveBeenCalled();
+        expect(info).not.toHaveBeenCalled();
+        expect(error).not.toHaveBeenCalled();
+    });
+
+    it('should send progress messages to the logger', async () => {
+        const logger: Logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+        await resolve({
+            config: configPath,
+            environment: 'production',
+            logger,
+            providers: { 'test://': new MapProvider({ 'test://api-key': 'key', 'test://host': 'example.com' }) },
+        });
+
+        expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('Fetching API_KEY from test://api-key'));
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Optional DEBUG could not be resolved, using default value'));
+    });
+
+    it('should abort pending requests and reject with the abort reason', async () => {
+        const provider = new MapProvider();
+        let requestSignal: AbortSignal | undefined;
+        provider.getSecret = () => provider.request(signal => {
+            requestSignal = signal;
+            return new Promise(() => {});
+        });
+        const controller = new AbortController();
+        const reason = new Error('Build cancelled');
+
+        const resolving = resolve({ config: configPath, environment: 'production', signal: controller.signal, providers: { 'test://': provider } });
+        await vi.waitFor(() => expect(requestSignal).toBeDefined());
+        controller.abort(reason);
+
+        await expect(resolving).rejects.toBe(reason);
+        expect(requestSignal!.aborted).toBe(true);
+    });
+
+    it('should not prompt unless interactive is enabled', async () => {
+        const provider = new MapProvider();
+        provider.getSecret = async () => {
+            assertInteractive('log in to the test provider', 'Log in beforehand.');
+            return 'value';
+        };
+
+        const resolving = resolve({ config: configPath, environment: 'production', providers: { 'test://': provider } });
+
+        await expect(resolving).rejects.toThrow('Cannot log in to the test provider in non-interactive mode (prompts are disabled for this call)');
+        await expect(resolving.catch(error => error.cause)).resolves.toBeInstanceOf(InteractionRequiredError);
+    });
+
+    it('should reject malformed provider prefixes', async () => {
+        await expect(resolve({ config: configPath, providers: { 'test:': new MapProvider() } }))
+            .rejects.toThrow("Invalid provider prefix 'test:'");
+    });
+});
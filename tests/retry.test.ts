@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SecretProvider } from '../src/lib/SecretProvider.js';
+import { AWSSecretsManagerProvider } from '../src/lib/providers/AWSSecretsManager.js';
+import { GoogleCloudSecretsProvider } from '../src/lib/providers/GoogleCloudSecrets.js';
+import { isRetryableError, ProviderUnavailableError, SecretNotFoundError } from '../src/lib/errors.js';
+import { withRetries, retry, parseRetrySettings, resolveRetryPolicy, getRetryDelay, DEFAULT_RETRY_POLICY } from '../src/lib/retry.js';
+
+/**
+ * Provider whose calls fail with the queued errors before succeeding.
+ */
+class FlakyProvider extends SecretProvider {
+    readonly supportsMultipleFields = false;
+    readonly pathComponents = [];
+    getCalls = 0;
+    setCalls = 0;
+
+    constructor(public errors: Error[]) {
+        super();
+    }
+
+    buildPath(): string {
+        return '';
+    }
+
+    isRetryable(error: unknown): boolean {
+        return isRetryableError(error, { retryable: /Throttled/ });
+    }
+
+    async getSecret(path: string): Promise<string> {
+        this.getCalls++;
+        const error = this.errors.shift();
+        if (error) {
+            throw error;
+        }
+        return `value of ${path}`;
+    }
+
+    async setSecret(): Promise<void> {
+        this.setCalls++;
+        const error = this.errors.shift();
+        if (error) {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Flaky provider whose writes put a value in place, so they can be retried.
+ */
+class IdempotentProvider extends FlakyProvider {
+    readonly idempotentWrites = true;
+}
+
+const policy = { retries: 2, delay: 100, maxDelay: 1000 };
+
+describe('withRetries', () => {
+    let log: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('should retry transient failures and log each retry', async () => {
+        const provider = new FlakyProvider([new Error('Throttled'), new Error('Failed', { cause: new Error('Throttled') })]);
+        const wrapped = withRetries(provider, policy);
+
+        const value = wrapped.getSecret('test://secret');
+        await vi.runAllTimersAsync();
+
+        await expect(value).resolves.toBe('value of test://secret');
+        expect(provider.getCalls).toBe(3);
+        expect(log).toHaveBeenCalledTimes(2);
+        expect(log.mock.calls[0][0]).toMatch(/Fetching test:\/\/secret failed \(Throttled\), retrying in \d+ms \(retry 1\/2\)/);
+        expect(log.mock.calls[1][0]).toMatch(/Fetching test:\/\/secret failed \(Failed\), retrying in \d+ms \(retry 2\/2\)/);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+        const provider = new FlakyProvider([new Error('Throttled'), new Error('Throttled'), new Error('Throttled again')]);
+        const wrapped = withRetries(provider, policy);
+
+        const result = expect(wrapped.getSecret('test://secret')).rejects.toThrow('Throttled again');
+        await vi.runAllTimersAsync();
+
+        await result;
+        expect(provider.getCalls).toBe(3);
+    });
+
+    it('should not retry writes, which may have succeeded before failing', async () => {
+        const provider = new FlakyProvider([new Error('Throttled')]);
+
+        await expect(withRetries(provider, policy).setSecret('test://secret', 'value')).rejects.toThrow('Throttled');
+        expect(provider.setCalls).toBe(1);
+        expect(log).not.toHaveBeenCalled();
+    });
+
+    it('should retry writes of providers whose writes are idempotent', async () => {
+        const provider = new IdempotentProvider([new Error('Throttled')]);
+
+        const write = withRetries(provider, policy).setSecret('test://secret', 'value');
+        await vi.runAllTimersAsync();
+
+        await expect(write).resolves.toBeUndefined();
+        expect(provider.setCalls).toBe(2);
+        expect(log.mock.calls[0][0]).toMatch(/Writing test:\/\/secret failed \(Throttled\), retrying/);
+    });
+
+    it('should not retry errors that are not transient', async () => {
+        const provider = new FlakyProvider([new SecretNotFoundError('Throttled, but missing')]);
+
+        await expect(withRetries(provider, policy).getSecret('test://secret')).rejects.toThrow(SecretNotFoundError);
+        expect(provider.getCalls).toBe(1);
+        expect(log).not.toHaveBeenCalled();
+    });
+
+    it('should pass other members through and keep the provider type', () => {
+        const provider = new FlakyProvider([]);
+        const wrapped = withRetries(provider, policy);
+
+        expect(wrapped).toBeInstanceOf(FlakyProvider);
+        expect(wrapped.pathComponents).toBe(provider.pathComponents);
+        expect(() => wrapped.validatePath('invalid')).toThrow('Invalid URI: invalid');
+        expect(withRetries(provider, { ...policy, retries: 0 })).toBe(provider);
+    });
+});
+
+describe('retry', () => {
+    it('should run the operation once when it succeeds', async () => {
+        const operation = vi.fn(async () => 'ok');
+
+        await expect(retry(operation, () => true, policy, 'Testing')).resolves.toBe('ok');
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('getRetryDelay', () => {
+    it('should double the delay up to the maximum, with jitter', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(1);
+        expect([1, 2, 3, 4, 5].map(n => getRetryDelay(policy, n))).toEqual([100, 200, 400, 800, 1000]);
+
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        expect(getRetryDelay(policy, 2)).toBe(100);
+        vi.restoreAllMocks();
+    });
+});
+
+describe('retry settings', () => {
+    it('should validate $retry settings', () => {
+        expect(parseRetrySettings({ retries: 5, maxDelay: 0 })).toEqual({ retries: 5, maxDelay: 0 });
+        expect(() => parseRetrySettings(3)).toThrow('Invalid $retry: expected an object');
+        expect(() => parseRetrySettings({ attempts: 3 })).toThrow('unknown key(s) attempts');
+        expect(() => parseRetrySettings({ retries: -1 })).toThrow('"retries" must be a non-negative integer');
+    });
+
+    it('should let later settings override earlier ones and the defaults', () => {
+        expect(resolveRetryPolicy({ retries: 5, delay: 50 }, { retries: 1, delay: undefined })).toEqual({
+            ...DEFAULT_RETRY_POLICY,
+            retries: 1,
+            delay: 50,
+        });
+    });
+});
+
+describe('provider retryable errors', () => {
+    it('should retry AWS throttling but not missing secrets', () => {
+        const throttled = Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' });
+        const missing = Object.assign(new Error('Secrets Manager can\'t find the specified secret.'), { name: 'ResourceNotFoundException' });
+        const provider = new AWSSecretsManagerProvider();
+
+        expect(provider.isRetryable(new Error('Failed to read AWS secret', { cause: throttled }))).toBe(true);
+        expect(provider.isRetryable(new SecretNotFoundError(missing.message, { cause: missing }))).toBe(false);
+    });
+
+    it('should retry GCP UNAVAILABLE but not a missing CLI', () => {
+        const provider = new GoogleCloudSecretsProvider();
+
+        expect(provider.isRetryable(new ProviderUnavailableError('14 UNAVAILABLE: Connection dropped'))).toBe(true);
+        expect(provider.isRetryable(new ProviderUnavailableError('Command not found: gcloud'))).toBe(false);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { runCommand } from '../src/lib/runCommand.js';
+
+describe('runCommand', () => {
+    it('should return the exit code of the child process', async () => {
+        const code = await runCommand(process.execPath, ['-e', 'process.exit(7)'], {});
+        expect(code).toBe(7);
+    });
+
+    it('should inject environment variables into the child process', async () => {
+        const code = await runCommand(
+            process.execPath,
+            ['-e', 'process.exit(process.env.SALAKALA_TEST_VALUE === "secret value" ? 0 : 1)'],
+            { SALAKALA_TEST_VALUE: 'secret value' }
+        );
+        expect(code).toBe(0);
+    });
+
+    it('should let injected variables take precedence over process.env', async () => {
+        process.env.SALAKALA_TEST_OVERRIDE = 'from-parent';
+        const code = await runCommand(
+            process.execPath,
+            ['-e', 'process.exit(process.env.SALAKALA_TEST_OVERRIDE === "from-config" ? 0 : 1)'],
+            { SALAKALA_TEST_OVERRIDE: 'from-config' }
+        );
+        delete process.env.SALAKALA_TEST_OVERRIDE;
+        expect(code).toBe(0);
+    });
+
+    it('should return 128 + signal number when the child is killed by a signal', async () => {
+        const code = await runCommand(process.execPath, ['-e', 'process.kill(process.pid, "SIGTERM")'], {});
+        expect(code).toBe(143);
+    });
+
+    it('should not pass on Ctrl-C, which the terminal already sends to the child', async () => {
+        // The child counts SIGINTs after sending one to itself and one to salakala, like the terminal would
+        const script = `
+            let received = 0;
+            process.on('SIGINT', () => received++);
+            process.kill(process.pid, 'SIGINT');
+            process.kill(process.ppid, 'SIGINT');
+            setTimeout(() => process.exit(received), 500);
+        `;
+        const code = await runCommand(process.execPath, ['-e', script], {});
+        expect(code).toBe(1);
+    });
+
+    it('should forward SIGTERM to the child', async () => {
+        const script = `process.kill(process.ppid, 'SIGTERM'); setTimeout(() => process.exit(0), 2000);`;
+        const code = await runCommand(process.execPath, ['-e', script], {});
+        expect(code).toBe(143);
+    });
+
+    it('should throw when the command does not exist', async () => {
+        await expect(runCommand('salakala-nonexistent-command', [], {}))
+            .rejects
+            .toThrow('Command not found: salakala-nonexistent-command');
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OnePasswordProvider } from '../src/lib/providers/1Password.js';
+import { LastPassProvider } from '../src/lib/providers/LastPass.js';
+import { KeePassProvider } from '../src/lib/providers/KeePass.js';
+import { BitwardenProvider } from '../src/lib/providers/Bitwarden.js';
+import { fakeCli as cli, countSpawned, findSpawned, SpawnedCommand } from './test-utils.js';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname } from 'path';
+
+vi.mock('child_process', async () => (await import('./test-utils.js')).fakeChildProcess());
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+const SECRET = `s3cr3t 'quoted' "double" $(whoami) ; rm -rf`;
+
+/**
+ * Asserts that the secret doesn't appear in any spawned command's arguments, as is or base64 encoded.
+ */
+function expectSecretNotInArgv(): void {
+    expect(cli.spawned.length).toBeGreaterThan(0);
+    for (const { argv } of cli.spawned) {
+        for (const arg of argv) {
+            expect(arg).not.toContain(SECRET);
+            expect(Buffer.from(arg, 'base64').toString()).not.toContain(SECRET);
+        }
+    }
+}
+
+/**
+ * Finds the spawned command that starts with the given prefix.
+ */
+function findCall(prefix: string): SpawnedCommand {
+    const call = findSpawned(prefix);
+    expect(call, `expected a '${prefix}' command`).toBeDefined();
+    return call!;
+}
+
+describe('secret values are never passed as command line arguments', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+        cli.spawned = [];
+        process.env = { ...originalEnv };
+        delete process.env.OP_SERVICE_ACCOUNT_TOKEN;
+        delete process.env.KEEPASS_PASSWORD;
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+    });
+
+    describe('1Password', () => {
+        it('should create items from a template on stdin', async () => {
+            cli.respond = (command) => command.startsWith('op item get') ? { code: 1 } : {};
+
+            await new OnePasswordProvider().setSecret('op://vault/item/section/api-key', SECRET);
+
+            expectSecretNotInArgv();
+            const template = JSON.parse(findCall('op item create').input);
+            expect(template.title).toBe('item');
+            expect(template.sections).toEqual([{ id: 'section', label: 'section' }]);
+            expect(template.fields).toEqual([
+                { label: 'api-key', type: 'CONCEALED', value: SECRET, section: { id: 'section' } },
+            ]);
+        });
+
+        it('should edit existing items from a template on stdin', async () => {
+            const item = { id: 'abc123', title: 'item', fields: [{ id: 'password', label: 'password', type: 'CONCEALED', value: 'old' }] };
+            cli.respond = (command) => command.startsWith('op item get') ? { stdout: JSON.stringify(item) } : {};
+
+            await new OnePasswordProvider().setSecret('op://vault/item/password', SECRET);
+
+            expectSecretNotInArgv();
+            const call = findCall('op item edit');
+            expect(call.argv).toEqual(['op', 'item', 'edit', 'abc123', '--vault=vault']);
+            expect(JSON.parse(call.input).fields[0].value).toBe(SECRET);
+        });
+    });
+
+    describe('LastPass', () => {
+        it('should pass values to lpass add and edit on stdin', async () => {
+            let exists = false;
+            cli.respond = (command) => {
+                if (command.startsWith('lpass status')) {
+                    return { stdout: 'Logged in as me@example.com.' };
+                }
+                if (command.startsWith('lpass show')) {
+                    return exists ? { stdout: '[]' } : { code: 1 };
+                }
+                return {};
+            };
+            const provider = new LastPassProvider();
+
+            await provider.setSecret('lp://folder/item/API Key', SECRET);
+            exists = true;
+            await provider.setSecret('lp://folder/item/password', SECRET);
+
+            expectSecretNotInArgv();
+            expect(findCall('lpass add')).toEqual({ argv: ['lpass', 'add', '--non-interactive', '--field=API Key', 'folder/item'], input: SECRET });
+            expect(findCall('lpass edit')).toEqual({ argv: ['lpass', 'edit', '--non-interactive', '--password', 'folder/item'], input: SECRET });
+        });
+    });
+
+    describe('KeePass', () => {
+        it('should pass the database and entry passwords on stdin', async () => {
+            process.env.KEEPASS_PASSWORD = 'database-password';
+            cli.respond = (command) => command.startsWith('keepassxc-cli show') ? { code: 1 } : {};
+
+            await new KeePassProvider().setSecret('kp:///tmp/db.kdbx/entry/Password', SECRET);
+
+            expectSecretNotInArgv();
+            expect(findCall('keepassxc-cli add')).toEqual({
+                argv: ['keepassxc-cli', 'add', '--password-prompt', '/tmp/db.kdbx', 'entry'],
+                input: `database-password\n${SECRET}\n`,
+            });
+        });
+
+        it('should merge in other attributes and multi-line values from a private temporary file', async () => {
+            process.env.KEEPASS_PASSWORD = 'database-password';
+            const exported = '<?xml version="1.0"?><KeePassFile><Meta/><Root><Group><UUID>cm9vdA==</UUID><Name>Root</Name></Group></Root></KeePassFile>';
+            const written: { xml: string, mode: number }[] = [];
+            cli.respond = (command) => {
+                if (command.startsWith('keepassxc-cli export')) {
+                    return { stdout: exported };
+                }
+                if (command.startsWith('keepassxc-cli import')) {
+                    const xmlPath = command.split(' ')[3];
+                    written.push({ xml: readFileSync(xmlPath, 'utf8'), mode: statSync(xmlPath).mode & 0o777 });
+                }
+                return {};
+            };
+            const provider = new KeePassProvider();
+
+            await provider.setSecret('kp:///tmp/db.kdbx/app/UserName', SECRET);
+            await provider.setSecret('kp:///tmp/db.kdbx/app/Password', `${SECRET}\nsecond line`);
+
+            expectSecretNotInArgv();
+            expect(written).toHaveLength(2);
+            expect(written[0].mode).toBe(0o600);
+            expect(written[0].xml).toContain(`<Key>UserName</Key><Value>s3cr3t 'quoted' "double" $(whoami) ; rm -rf</Value>`);
+            expect(written[1].xml).toContain('second line</Value>');
+            const imported = findCall('keepassxc-cli import');
+            expect(imported.argv.slice(0, 3)).toEqual(['keepassxc-cli', 'import', '--set-password']);
+            expect(imported.input).toBe('database-password\ndatabase-password\n');
+            expect(existsSync(dirname(imported.argv[3]))).toBe(false);
+            expect(findCall('keepassxc-cli merge')).toEqual({
+                argv: ['keepassxc-cli', 'merge', '--same-credentials', '/tmp/db.kdbx', imported.argv[4]],
+                input: 'database-password\n',
+            });
+            expect(countSpawned('keepassxc-cli add')).toBe(0);
+        });
+    });
+
+    describe('Bitwarden', () => {
+        it('should pass the encoded item on stdin', async () => {
+            process.env.BW_CLIENTID = 'client-id';
+            process.env.BW_CLIENTSECRET = 'client-secret';
+            process.env.BW_PASSWORD = 'master-password';
+            const item = { id: 'item-id', name: 'item', type: 1, login: { username: 'user', password: 'old' } };
+            cli.respond = (command) => {
+                if (command.startsWith('bw login')) {
+                    return { stdout: 'You are logged in!' };
+                }
+                if (command.startsWith('bw unlock')) {
+                    return { stdout: 'session-key' };
+                }
+                if (command.startsWith('bw list folders')) {
+                    return { stdout: '[]' };
+                }
+                if (command.startsWith('bw list items')) {
+                    return { stdout: JSON.stringify([item]) };
+                }
+                if (command.startsWith('bw get item')) {
+                    return { stdout: JSON.stringify(item) };
+                }
+                return {};
+            };
+
+            await new BitwardenProvider().setSecret('bw://item/password', SECRET);
+
+            expectSecretNotInArgv();
+            const call = findCall('bw edit item');
+            expect(call.argv).toEqual(['bw', 'edit', 'item', 'item-id', '--session', 'session-key']);
+            expect(JSON.parse(Buffer.from(call.input, 'base64').toString()).login.password).toBe(SECRET);
+        });
+    });
+});
@@ -1,5 +1,7 @@
+import { vi } from 'vitest';
+
 /**
- * Test utilities for generating unique identifiers
+ * Test utilities for generating unique identifiers and faking provider CLIs
  */
 
 /**
@@ -15,3 +17,77 @@ export function generateTestId(prefix: string): string {
     return `${prefix}-${timestamp}-${random}`;
 }
 
+
+/**
+ * A spawned command with the data written to its stdin
+ */
+export interface SpawnedCommand {
+    argv: string[];
+    input: string;
+}
+
+/**
+ * Spawned commands, and the fake CLI that answers them by the command line and stdin.
+ * Used through fakeChildProcess, which a test file installs with
+ * `vi.mock('child_process', async () => (await import('./test-utils.js')).fakeChildProcess())`.
+ */
+export const fakeCli = {
+    spawned: [] as SpawnedCommand[],
+    respond: (command: string, input: string): { code?: number, stdout?: string, stderr?: string } => ({}),
+};
+
+/**
+ * Builds a child_process module whose spawn records the command in fakeCli and answers it
+ * with fakeCli.respond once stdin has been written.
+ *
+ * @returns The mocked module
+ */
+export async function fakeChildProcess() {
+    const { EventEmitter } = await import('events');
+    return {
+        execSync: vi.fn(),
+        spawn: vi.fn((command: string, args: string[]) => {
+            const call: SpawnedCommand = { argv: [command, ...args], input: '' };
+            fakeCli.spawned.push(call);
+            const child: any = new EventEmitter();
+            child.stdout = new EventEmitter();
+            child.stderr = new EventEmitter();
+            child.stdin = {
+                on: vi.fn(),
+                write: (data: string) => { call.input += data; },
+                end: (data: string = '') => { call.input += data; },
+            };
+            setImmediate(() => {
+                const { code = 0, stdout = '', stderr = '' } = fakeCli.respond(call.argv.join(' '), call.input);
+                if (stdout) {
+                    child.stdout.emit('data', Buffer.from(stdout));
+                }
+                if (stderr) {
+                    child.stderr.emit('data', Buffer.from(stderr));
+                }
+                child.emit('close', code);
+            });
+            return child;
+        }),
+    };
+}
+
+/**
+ * Finds the spawned command that starts with the given prefix.
+ *
+ * @param {string} prefix - The start of the command line
+ * @returns {SpawnedCommand | undefined} The first matching command
+ */
+export function findSpawned(prefix: string): SpawnedCommand | undefined {
+    return fakeCli.spawned.find(({ argv }) => argv.join(' ').startsWith(prefix));
+}
+
+/**
+ * Counts the spawned commands that start with the given prefix.
+ *
+ * @param {string} prefix - The start of the command line
+ * @returns {number} The number of matching commands
+ */
+export function countSpawned(prefix: string): number {
+    return fakeCli.spawned.filter(({ argv }) => argv.join(' ').startsWith(prefix)).length;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { SecretProvider } from '../src/lib/SecretProvider.js';
+import { parseTimeoutSettings, applyTimeouts, formatTimeout } from '../src/lib/timeouts.js';
+import { DEFAULT_TIMEOUT } from '../src/lib/constants.js';
+
+/**
+ * Minimal provider, used to check which timeout each provider ends up with.
+ */
+class TestProvider extends SecretProvider {
+    readonly supportsMultipleFields = false;
+    readonly pathComponents = [];
+
+    buildPath(): string {
+        return '';
+    }
+
+    async getSecret(): Promise<string> {
+        return '';
+    }
+
+    async setSecret(): Promise<void> {}
+}
+
+describe('parseTimeoutSettings', () => {
+    it('should accept a timeout for all providers or per provider', () => {
+        expect(parseTimeoutSettings(5000)).toEqual({ default: 5000 });
+        expect(parseTimeoutSettings({ 'bw://': 120000, default: 0 })).toEqual({ 'bw://': 120000, default: 0 });
+    });
+
+    it('should reject values that are not non-negative integers', () => {
+        expect(() => parseTimeoutSettings('30s')).toThrow('Invalid $timeout: expected milliseconds');
+        expect(() => parseTimeoutSettings({ 'bw://': -1 })).toThrow('Invalid $timeout: "bw://" must be a non-negative integer');
+        expect(() => parseTimeoutSettings(1.5)).toThrow('"default" must be a non-negative integer');
+    });
+});
+
+describe('applyTimeouts', () => {
+    it('should prefer provider timeouts over the default and keep provider defaults otherwise', () => {
+        const slow = new TestProvider();
+        slow.timeout = 60000;
+        const providers = new Map<string, SecretProvider>([
+            ['op://', new TestProvider()],
+            ['bw://', slow],
+            ['kp://', new TestProvider()],
+        ]);
+
+        applyTimeouts(providers, { 'kp://': 0 });
+        expect(Array.from(providers.values(), provider => provider.timeout)).toEqual([DEFAULT_TIMEOUT, 60000, 0]);
+
+        applyTimeouts(providers, { default: 1000, 'kp://': 2000 });
+        expect(Array.from(providers.values(), provider => provider.timeout)).toEqual([1000, 1000, 2000]);
+    });
+
+    it('should reject unknown provider prefixes', () => {
+        expect(() => applyTimeouts(new Map([['op://', new TestProvider()]]), { 'xx://': 1000 }))
+            .toThrow('Unknown provider in timeouts: xx://. Supported schemes: op://');
+    });
+});
+
+describe('formatTimeout', () => {
+    it('should use seconds for whole seconds', () => {
+        expect(formatTimeout(30000)).toBe('30s');
+        expect(formatTimeout(1500)).toBe('1500ms');
+    });
+});
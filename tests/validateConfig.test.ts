@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { validateConfig } from '../src/lib/validateConfig.js';
+import { SecretsManager } from '../src/lib/SecretsManager.js';
+
+const providers = new SecretsManager().getProviders();
+
+/**
+ * Validates a config object or raw JSON text and returns the issues as "line:column: message" strings.
+ */
+function check(config: object | string): string[] {
+    const content = typeof config === 'string' ? config : JSON.stringify(config, null, 2);
+    return validateConfig(content, providers).map(issue => `${issue.line}:${issue.column}: ${issue.message}`);
+}
+
+describe('validateConfig', () => {
+    beforeEach(() => {
+        delete process.env.SALAKALA_TEST_REGION;
+    });
+
+    it('should accept a valid flat config', () => {
+        expect(check({
+            DB_PASSWORD: 'op://vault/database/password',
+            SECTION_FIELD: 'op://vault/item/section/field',
+            API_KEY: 'awssm://us-east-1/prod/api-key::key',
+            GCP: 'gcsm://projects/my-project/secrets/api-key/versions/latest',
+            AZURE: 'azurekv://my-vault.vault.azure.net/secret',
+            BW: 'bw://folder/item/password',
+            LP: 'lp://folder/item/password',
+            KP: 'kp:///home/me/db.kdbx/GitHub/Password',
+            VAULT: 'vault://secret/app/config/password',
+            APP_URL: 'https://example.com',
+            LOG_LEVEL: { default: 'info' },
+        })).toEqual([]);
+    });
+
+    it('should check each URI against its provider path format', () => {
+        expect(check({
+            A: 'op://vault/item',
+            B: 'gcsm://projects/p/secrets/s',
+            C: 'kp:///home/me/db.kdbx/entry',
+            D: 'awssm://secret-without-region',
+            E: 'bw://item',
+            F: 'vault://secret/field',
+        })).toEqual([
+            "2:8: Invalid op:// URI 'op://vault/item': Invalid path format. Expected: op://vault-name/item-name/[section-name/]field-name[::jsonKey]",
+            "3:8: Invalid gcsm:// URI 'gcsm://projects/p/secrets/s': Invalid path format. Expected: gcsm://projects/PROJECT_ID/secrets/SECRET_ID/versions/VERSION[::jsonKey]",
+            "4:8: Invalid kp:// URI 'kp:///home/me/db.kdbx/entry': Invalid KeePass path format. Expected: kp://path/to/database.kdbx/entry-name/attribute[::jsonKey]",
+            "5:8: Invalid awssm:// URI 'awssm://secret-without-region': Invalid path format. Expected: awssm://region/secret-name[::jsonKey]",
+            "6:8: Invalid bw:// URI 'bw://item': Bitwarden path must be in the format: bw://[folder/]item/field[::jsonKey]",
+            "7:8: Invalid vault:// URI 'vault://secret/field': Invalid path format. Expected: vault://mount/path/to/secret/field[::jsonKey]",
+        ]);
+    });
+
+    it('should flag values with a scheme that no provider handles', () => {
+        const supported = Array.from(providers.keys()).join(', ');
+        expect(check({
+            A: 'opp://vault/item/field',
+            B: 'awsm://us-east-1/x',
+            DATABASE_URL: 'postgres://localhost:5432/app',
+            APP_URL: 'https://example.com',
+        })).toEqual([
+            `2:8: Unknown provider in 'opp://vault/item/field'. Supported schemes: ${supported}`,
+            `3:8: Unknown provider in 'awsm://us-east-1/x'. Supported schemes: ${supported}`,
+        ]);
+    });
+
+    it('should flag undefined ${VAR} references and validate the substituted URI', () => {
+        expect(check({ A: 'awssm://${SALAKALA_TEST_REGION}/key' }))
+            .toEqual(["2:8: A: environment variable 'SALAKALA_TEST_REGION' is not defined"]);
+
+        process.env.SALAKALA_TEST_REGION = 'us-east-1';
+        expect(check({ A: 'awssm://${SALAKALA_TEST_REGION}/key' })).toEqual([]);
+    });
+
+    it('should report duplicate keys with the line of the first definition', () => {
+        expect(check('{\n  "A": "x",\n  "B": "y",\n  "A": "z"\n}'))
+            .toEqual(["4:3: Duplicate key 'A' (first defined on line 2)"]);
+    });
+
+    it('should report JSON syntax errors with their location', () => {
+        expect(check('{\n  "A": "x"\n  "B": "y"\n}'))
+            .toEqual(["3:3: Invalid JSON: Expected '}' but found '\"'"]);
+    });
+
+    it('should report invalid object entries', () => {
+        expect(check({ development: { A: { uri: 'op://vault/item/field', optinal: true } } }))
+            .toEqual(["3:10: Invalid config for 'A': unknown key(s) optinal. Allowed keys: uri, optional, default, description, required"]);
+    });
+
+    it('should check template references and cycles', () => {
+        expect(check({
+            A: '{{ MISSING }}',
+            B: '{{ C }}',
+            C: '{{ B }}-{{ op://vault/item }}',
+        })).toEqual([
+            "1:1: Circular reference between config values: B -> C -> B",
+            "4:8: Invalid op:// URI 'op://vault/item': Invalid path format. Expected: op://vault-name/item-name/[section-name/]field-name[::jsonKey]",
+        ]);
+    });
+
+    it('should allow references to inherited variables and report missing parents', () => {
+        expect(check({
+            base: { HOST: 'db.internal' },
+            production: { $extends: 'base', URL: 'postgres://{{ HOST }}/app' },
+            preview: { $extends: 'missing' },
+        })).toEqual([
+            "9:3: Environment 'preview' extends 'missing', which is not defined in the config file",
+        ]);
+    });
+
+    it('should report dst keys without a src entry and invalid destinations', () => {
+        expect(check({
+            production: {
+                src: { API_KEY: 'op://vault/api/key' },
+                dst: {
+                    API_KEY: ['awssm://us-east-1/api-key', 'https://example.com'],
+                    DB_URL: 'awssm://us-east-1/db-url',
+                },
+            },
+        })).toEqual([
+            expect.stringMatching(/^9:9: Unknown provider in 'https:\/\/example.com'/),
+            "11:7: dst key 'DB_URL' has no src entry",
+        ]);
+    });
+
+    it('should report top-level values mixed in with environments', () => {
+        expect(check({
+            development: { A: 'x' },
+            LOG_LEVEL: 'info',
+        })).toEqual(["5:16: 'LOG_LEVEL' must be an environment object, since other top-level values are environments"]);
+    });
+
+    it('should accept $retry settings next to variables and environments and check them', () => {
+        expect(check({ $retry: { retries: 5 }, A: 'op://vault/item/field' })).toEqual([]);
+        expect(check({ $retry: { retries: 'many' }, development: { A: 'x' } }))
+            .toEqual(['2:13: Invalid $retry: "retries" must be a non-negative integer']);
+    });
+
+    it('should check $timeout settings and their provider prefixes', () => {
+        expect(check({ $timeout: { 'bw://': 120000, default: 10000 }, A: 'op://vault/item/field' })).toEqual([]);
+        expect(check({ $timeout: { 'xx://': 1000 }, A: 'x' }))
+            .toEqual([expect.stringMatching(/^2:15: Unknown provider in \$timeout: xx:\/\/\. Supported schemes: op:\/\//)]);
+    });
+
+    it('should check that $plugins is a list of modules', () => {
+        expect(check({ $plugins: ['./providers/myvault.js', '@acme/salakala-provider'], A: 'x' })).toEqual([]);
+        expect(check({ $plugins: './providers/myvault.js', A: 'x' }))
+            .toEqual(['2:15: Invalid $plugins: expected an array of npm module names or file paths']);
+    });
+});